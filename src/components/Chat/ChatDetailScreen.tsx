@@ -1,13 +1,17 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Check, CheckCheck, Clock, AlertCircle } from "lucide-react";
+
+export type MessageStatus = "sending" | "sent" | "delivered" | "read" | "failed";
 
 export type Message = {
   id: string;
   sender: "me" | "them";
   text: string;
   time: string;
+  // Only set on our own messages
+  status?: MessageStatus;
 };
 
 export interface ChatData {
@@ -20,16 +24,55 @@ interface ChatDetailScreenProps {
   chat: ChatData;
   onBack: () => void;
   onSend: (text: string) => void;
+  hasMore?: boolean;
+  onLoadOlder?: () => void;
+  onRetry?: (messageId: string) => void;
+  onTyping?: (isTyping: boolean) => void;
+  presenceLabel?: string;
+  isPartnerTyping?: boolean;
+}
+
+function MessageStatusIcon({ status }: { status: MessageStatus }) {
+  switch (status) {
+    case "sending":
+      return <Clock className="w-3 h-3" />;
+    case "sent":
+      return <Check className="w-3 h-3" />;
+    case "delivered":
+      return <CheckCheck className="w-3 h-3" />;
+    case "read":
+      return <CheckCheck className="w-3 h-3 text-sky-300" />;
+    case "failed":
+      return <AlertCircle className="w-3 h-3" />;
+  }
 }
 
-export function ChatDetailScreen({ chat, onBack, onSend }: ChatDetailScreenProps) {
+export function ChatDetailScreen({
+  chat,
+  onBack,
+  onSend,
+  hasMore = false,
+  onLoadOlder,
+  onRetry,
+  onTyping,
+  presenceLabel,
+  isPartnerTyping = false
+}: ChatDetailScreenProps) {
   const [text, setText] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+  const lastMessageId = chat.messages[chat.messages.length - 1]?.id;
+
+  // Follow new messages, but stay put when older ones are loaded above
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [lastMessageId]);
 
   const handleSend = () => {
     const t = text.trim();
     if (!t) return;
     onSend(t);
     setText("");
+    onTyping?.(false);
   };
 
   return (
@@ -40,13 +83,24 @@ export function ChatDetailScreen({ chat, onBack, onSend }: ChatDetailScreenProps
         </Button>
         <div>
           <h2 className="font-semibold leading-tight font-poppins">{chat.name}</h2>
-          <p className="text-xs text-muted-foreground font-poppins">online</p>
+          {(isPartnerTyping || presenceLabel) && (
+            <p className="text-xs text-muted-foreground font-poppins">
+              {isPartnerTyping ? "typing…" : presenceLabel}
+            </p>
+          )}
         </div>
       </header>
 
       <main className="flex-1 px-4 py-3 space-y-2 overflow-y-auto">
+        {hasMore && onLoadOlder && (
+          <div className="flex justify-center">
+            <Button variant="ghost" size="sm" onClick={onLoadOlder} className="rounded-full font-poppins text-xs">
+              Load earlier messages
+            </Button>
+          </div>
+        )}
         {chat.messages.map((m) => (
-          <div key={m.id} className={`flex ${m.sender === "me" ? "justify-end" : "justify-start"}`}>
+          <div key={m.id} className={`flex flex-col ${m.sender === "me" ? "items-end" : "items-start"}`}>
             <div
               className={`max-w-[75%] rounded-2xl px-3 py-2 text-sm shadow-card ${
                 m.sender === "me"
@@ -55,10 +109,25 @@ export function ChatDetailScreen({ chat, onBack, onSend }: ChatDetailScreenProps
               }`}
             >
               <p className="font-poppins">{m.text}</p>
-              <p className="mt-1 text-[10px] opacity-70 text-right font-poppins">{m.time}</p>
+              <p className="mt-1 text-[10px] opacity-70 font-poppins flex items-center justify-end gap-1">
+                {m.time}
+                {m.status && <MessageStatusIcon status={m.status} />}
+              </p>
             </div>
+            {m.status === "failed" && onRetry && (
+              <button
+                onClick={() => onRetry(m.id)}
+                className="mt-1 text-[11px] text-destructive font-poppins"
+              >
+                Not sent. Tap to retry
+              </button>
+            )}
           </div>
         ))}
+        {isPartnerTyping && (
+          <p className="text-xs text-muted-foreground font-poppins italic">typing…</p>
+        )}
+        <div ref={endRef} />
       </main>
 
       <footer className="p-3 border-t bg-card/95 backdrop-blur-md sticky bottom-0">
@@ -66,7 +135,11 @@ export function ChatDetailScreen({ chat, onBack, onSend }: ChatDetailScreenProps
           <Input
             placeholder="Type a message"
             value={text}
-            onChange={(e) => setText(e.target.value)}
+            onChange={(e) => {
+              setText(e.target.value);
+              onTyping?.(e.target.value.length > 0);
+            }}
+            onBlur={() => onTyping?.(false)}
             className="h-12 rounded-xl font-poppins"
             onKeyDown={(e) => {
               if (e.key === "Enter") handleSend();
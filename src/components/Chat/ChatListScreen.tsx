@@ -12,6 +12,8 @@ export type ChatPreview = {
   time: string;
   avatar?: string;
   unread?: number;
+  online?: boolean;
+  isTyping?: boolean;
 };
 
 interface ChatListScreenProps {
@@ -91,10 +93,12 @@ export function ChatListScreen({ chats, onOpenChat, onBack, onBuyCoins }: ChatLi
                         {chat.name.slice(0,1)}
                       </div>
                       {/* Online indicator */}
-                      <div className="absolute -bottom-0.5 -right-0.5 w-4 h-4 bg-green-500 rounded-full border-2 border-white shadow-sm"></div>
+                      {chat.online && (
+                        <div className="absolute -bottom-0.5 -right-0.5 w-4 h-4 bg-green-500 rounded-full border-2 border-white shadow-sm"></div>
+                      )}
                       
                       {/* Unread Badge positioned closer to avatar */}
-                      {chat.unread && (
+                      {chat.unread > 0 && (
                         <div className="absolute -top-1 -right-1">
                           <Badge className="bg-red-500 hover:bg-red-500 text-white border-0 font-poppins text-xs min-w-[20px] h-5 rounded-full flex items-center justify-center px-1.5 shadow-card">
                             {chat.unread}
@@ -113,9 +117,15 @@ export function ChatListScreen({ chats, onOpenChat, onBack, onBuyCoins }: ChatLi
                           {chat.time}
                         </span>
                       </div>
-                      <p className="text-sm text-gray-600 truncate font-poppins font-normal leading-relaxed">
-                        {chat.lastMessage}
-                      </p>
+                      {chat.isTyping ? (
+                        <p className="text-sm text-primary truncate font-poppins italic leading-relaxed">
+                          typing…
+                        </p>
+                      ) : (
+                        <p className={`text-sm truncate font-poppins leading-relaxed ${chat.unread > 0 ? "text-gray-900 font-semibold" : "text-gray-600 font-normal"}`}>
+                          {chat.lastMessage}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </CardContent>
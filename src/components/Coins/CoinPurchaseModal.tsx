@@ -3,17 +3,16 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Coins, X, Zap, CreditCard, Crown, Phone, RefreshCw } from "lucide-react";
-import { Switch } from "@/components/ui/switch";
-import { PaymentService } from "@/services/paymentService";
-import { COIN_PACKAGES, UNLIMITED_CALLS_PLAN } from "@/config/payments";
+import { Coins, X, Zap, CreditCard, Crown, Phone } from "lucide-react";
+import { PaymentService, EntitlementState } from "@/services/paymentService";
 import { useToast } from "@/hooks/use-toast";
+import { useProductCatalog } from "@/hooks/useProductCatalog";
 
 interface CoinPurchaseModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onPurchase: (pack: string, coins: number) => void;
-  onSubscribe?: (plan: string, autoRenew: boolean) => void;
+  onPurchase: (pack: string, coins: number, entitlements?: EntitlementState) => void;
+  onSubscribe?: (plan: string, entitlements?: EntitlementState) => void;
   userInfo?: {
     name?: string;
     email?: string;
@@ -22,7 +21,6 @@ interface CoinPurchaseModalProps {
 }
 
 export function CoinPurchaseModal({ isOpen, onClose, onPurchase, onSubscribe, userInfo }: CoinPurchaseModalProps) {
-  const [autoRenewEnabled, setAutoRenewEnabled] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingItem, setProcessingItem] = useState<string | null>(null);
   const [paymentMode, setPaymentMode] = useState<'live' | 'demo'>('live');
@@ -43,32 +41,17 @@ export function CoinPurchaseModal({ isOpen, onClose, onPurchase, onSubscribe, us
     }
   }, [isOpen, toast]);
 
-  const coinPacks = [
-    { 
-      id: "small", 
-      coins: COIN_PACKAGES.small.coins, 
-      price: `₹${COIN_PACKAGES.small.price}`, 
-      originalPrice: `₹${COIN_PACKAGES.small.originalPrice}`,
-      badge: null,
-      bonus: null 
-    },
-    { 
-      id: "medium", 
-      coins: COIN_PACKAGES.medium.coins, 
-      price: `₹${COIN_PACKAGES.medium.price}`, 
-      originalPrice: `₹${COIN_PACKAGES.medium.originalPrice}`,
-      badge: "Most Popular",
-      bonus: "+20 Bonus" 
-    },
-    { 
-      id: "large", 
-      coins: COIN_PACKAGES.large.coins, 
-      price: `₹${COIN_PACKAGES.large.price}`, 
-      originalPrice: `₹${COIN_PACKAGES.large.originalPrice}`,
-      badge: "Best Value",
-      bonus: "+100 Bonus" 
-    },
-  ];
+  const { getProducts } = useProductCatalog();
+  const coinPacks = getProducts('coins').map((product) => ({
+    id: product.id,
+    coins: product.coins,
+    price: `₹${product.price}`,
+    originalPrice: product.originalPrice ? `₹${product.originalPrice}` : null,
+    badge: product.badge,
+    bonus: product.bonusCoins > 0 ? `+${product.bonusCoins} Bonus` : null
+  }));
+  // A one-off 24-hour pass; Razorpay can't bill a daily plan more often than weekly
+  const unlimitedCallsPlan = getProducts('unlimited_calls')[0];
 
   const handleCoinPurchase = async (packId: string) => {
     if (isProcessing || processingItem) return;
@@ -77,16 +60,13 @@ export function CoinPurchaseModal({ isOpen, onClose, onPurchase, onSubscribe, us
     setProcessingItem(packId);
     
     try {
-      const result = await PaymentService.buyCoinPackage(
-        packId as keyof typeof COIN_PACKAGES,
-        userInfo
-      );
+      const result = await PaymentService.purchaseProduct(packId);
       
       if (result.success) {
         // Only add coins after successful payment
         const pack = coinPacks.find(p => p.id === packId);
         if (pack) {
-          onPurchase(packId, pack.coins);
+          onPurchase(packId, pack.coins, result.entitlements);
           onClose();
           toast({
             title: "Payment Successful! 🎉",
@@ -113,21 +93,21 @@ export function CoinPurchaseModal({ isOpen, onClose, onPurchase, onSubscribe, us
   };
 
   const handleSubscribe = async () => {
-    if (isProcessing || processingItem) return;
+    if (isProcessing || processingItem || !unlimitedCallsPlan) return;
     
     setIsProcessing(true);
     setProcessingItem('unlimited-calls');
     
     try {
-      const result = await PaymentService.subscribeToUnlimitedCalls(autoRenewEnabled, userInfo);
+      const result = await PaymentService.purchaseProduct(unlimitedCallsPlan.id);
       
       if (result.success) {
-        // Only activate subscription after successful payment
-        onSubscribe?.('daily-unlimited', autoRenewEnabled);
+        // Only activate unlimited calls after successful payment
+        onSubscribe?.('daily-unlimited', result.entitlements);
         onClose();
         toast({
-          title: "Subscription Activated! 🎉",
-          description: `Payment successful! You now have unlimited voice calls for 24 hours.`,
+          title: "Unlimited Calls Activated! 🎉",
+          description: "Payment successful! You now have unlimited voice calls for 24 hours.",
         });
       } else {
         toast({
@@ -171,7 +151,7 @@ export function CoinPurchaseModal({ isOpen, onClose, onPurchase, onSubscribe, us
         </div>
 
         <div className="p-6 space-y-4">
-          {/* Daily Subscription Option */}
+          {/* 24-hour Unlimited Calls Pass */}
           <Card className="border-2 border-primary shadow-warm bg-gradient-to-r from-primary/5 to-secondary/5">
             <CardContent className="p-4">
               <div className="flex items-start justify-between mb-4">
@@ -188,8 +168,8 @@ export function CoinPurchaseModal({ isOpen, onClose, onPurchase, onSubscribe, us
                     </div>
                     <p className="text-sm text-green-600 font-medium">24 hours unlimited access</p>
                     <div className="flex items-center space-x-2 mt-1">
-                      <span className="text-lg font-bold text-primary">₹19</span>
-                      <span className="text-sm text-muted-foreground">per day</span>
+                      <span className="text-lg font-bold text-primary">₹{unlimitedCallsPlan?.price ?? "–"}</span>
+                      <span className="text-sm text-muted-foreground">for 24 hours</span>
                     </div>
                   </div>
                 </div>
@@ -216,33 +196,9 @@ export function CoinPurchaseModal({ isOpen, onClose, onPurchase, onSubscribe, us
                 </div>
               </div>
 
-              {/* Auto-renew option */}
-              <div className="bg-white/50 rounded-xl p-3 mb-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <RefreshCw className="w-4 h-4 text-primary" />
-                    <div>
-                      <p className="text-sm font-medium">Auto-renew daily</p>
-                      <p className="text-xs text-muted-foreground">Cancel anytime in settings</p>
-                    </div>
-                  </div>
-                  <Switch
-                    checked={autoRenewEnabled}
-                    onCheckedChange={setAutoRenewEnabled}
-                  />
-                </div>
-                {autoRenewEnabled && (
-                  <div className="mt-2 p-2 bg-green-50 rounded-lg">
-                    <p className="text-xs text-green-700">
-                      ✓ Your subscription will automatically renew every 24 hours
-                    </p>
-                  </div>
-                )}
-              </div>
-
               <Button 
                 onClick={handleSubscribe}
-                disabled={isProcessing || processingItem === 'unlimited-calls'}
+                disabled={isProcessing || processingItem === 'unlimited-calls' || !unlimitedCallsPlan}
                 className="w-full h-12 font-poppins font-semibold rounded-xl relative"
                 variant="gradient"
               >
@@ -254,7 +210,7 @@ export function CoinPurchaseModal({ isOpen, onClose, onPurchase, onSubscribe, us
                 ) : (
                   <>
                     <Crown className="w-5 h-5 mr-2" />
-                    Subscribe for ₹{UNLIMITED_CALLS_PLAN.price}/day
+                    Get 24 Hours for ₹{unlimitedCallsPlan?.price ?? "–"}
                     {paymentMode === 'demo' && (
                       <span className="absolute -top-2 -right-2 bg-yellow-500 text-white text-xs px-2 py-1 rounded-full">
                         DEMO
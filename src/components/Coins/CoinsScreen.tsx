@@ -1,7 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Gem, Flame, Gift, Star, Trophy, Zap, Crown, Calendar, Clock, TrendingUp, Phone, RotateCcw } from "lucide-react";
+import { Gem, Flame, Gift, Star, Trophy, Zap, Crown, Calendar, Clock, TrendingUp, Phone } from "lucide-react";
 import { Treasure } from "@/components/ui/icons";
 
 interface LoginStreakData {
@@ -16,11 +16,9 @@ interface CoinsScreenProps {
   streakData: LoginStreakData;
   hasUnlimitedCalls?: boolean;
   unlimitedCallsExpiry?: Date | null;
-  autoRenewEnabled?: boolean;
   onBuyCoins: () => void;
   onOpenStreakModal: () => void;
   onOpenSpinWheel: () => void;
-  onManageSubscription?: () => void;
 }
 
 export function CoinsScreen({ 
@@ -28,11 +26,9 @@ export function CoinsScreen({
   streakData, 
   hasUnlimitedCalls = false,
   unlimitedCallsExpiry,
-  autoRenewEnabled = false,
   onBuyCoins, 
   onOpenStreakModal, 
-  onOpenSpinWheel,
-  onManageSubscription
+  onOpenSpinWheel
 }: CoinsScreenProps) {
   const getStreakReward = () => {
     if (streakData.currentStreak >= 30) return { coins: 100, type: "legendary" };
@@ -60,11 +56,11 @@ export function CoinsScreen({
 
       <main className="pb-24 px-4 -mt-6 safe-area-bottom">
         <div className="max-w-lg mx-auto space-y-6">
-          {/* Unlimited Calls Subscription Status */}
+          {/* Unlimited Calls Status */}
           {hasUnlimitedCalls && unlimitedCallsExpiry && (
             <Card className="shadow-card rounded-2xl border-0 overflow-hidden border-l-4 border-l-primary">
               <CardContent className="p-6">
-                <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-3">
                     <div className="p-3 bg-primary/10 rounded-full">
                       <Phone className="w-6 h-6 text-primary" />
@@ -78,28 +74,6 @@ export function CoinsScreen({
                   </div>
                   <Badge className="bg-primary text-white font-poppins">Active</Badge>
                 </div>
-                
-                {autoRenewEnabled && (
-                  <div className="bg-green-50 border border-green-200 rounded-xl p-3 mb-4">
-                    <div className="flex items-center gap-2">
-                      <RotateCcw className="w-4 h-4 text-green-600" />
-                      <p className="text-sm font-medium text-green-800 font-poppins">Auto-renew enabled</p>
-                    </div>
-                    <p className="text-xs text-green-600 font-poppins mt-1">
-                      Will automatically renew for ₹19 every 24 hours
-                    </p>
-                  </div>
-                )}
-                
-                {onManageSubscription && (
-                  <Button 
-                    onClick={onManageSubscription}
-                    variant="outline"
-                    className="w-full h-10 font-poppins rounded-xl"
-                  >
-                    Manage Subscription
-                  </Button>
-                )}
               </CardContent>
             </Card>
           )}
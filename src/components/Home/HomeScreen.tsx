@@ -4,6 +4,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Video, Users, Heart, Crown, Filter, Gem, Phone, Flame, Gift, Globe, Star, Sparkles, TrendingUp, Shield, Zap, Eye } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useWallet } from "@/hooks/useWallet";
 
 interface HomeScreenProps {
   onStartMatch: () => void;
@@ -28,7 +29,7 @@ export default function HomeScreen({
   hasUnlimitedCalls = false,
   onRequestUpgrade,
 }: HomeScreenProps) {
-  const [coinBalance] = useState(100);
+  const { balance: coinBalance } = useWallet();
   const [liveUserCount] = useState(1247832);
   const [currentTestimonial, setCurrentTestimonial] = useState(0);
 
@@ -6,6 +6,7 @@ interface BottomNavProps {
   onTabChange: (tab: string) => void;
   streakCount?: number;
   hasNewProfileActivity?: boolean;
+  unreadMessages?: number;
 }
 
 const navItems = [
@@ -16,7 +17,7 @@ const navItems = [
   { id: "profile", icon: User, label: "Profile" },
 ];
 
-export function BottomNav({ activeTab, onTabChange, streakCount = 0, hasNewProfileActivity = false }: BottomNavProps) {
+export function BottomNav({ activeTab, onTabChange, streakCount = 0, hasNewProfileActivity = false, unreadMessages = 0 }: BottomNavProps) {
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-white/80 backdrop-blur-xl border-t border-white/20 z-50 shadow-warm">
       <div className="flex items-center justify-around py-2 sm:py-3 px-2 sm:px-4 max-w-lg mx-auto">
@@ -42,6 +43,11 @@ export function BottomNav({ activeTab, onTabChange, streakCount = 0, hasNewProfi
                   <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-white rounded-full animate-pulse" />
                 </div>
               )}
+              {item.id === "chat" && unreadMessages > 0 && (
+                <div className="absolute -top-1 -right-1 min-w-4 h-4 sm:min-w-5 sm:h-5 px-1 bg-red-500 text-white rounded-full flex items-center justify-center text-[10px] font-semibold font-poppins shadow-card">
+                  {unreadMessages > 99 ? "99+" : unreadMessages}
+                </div>
+              )}
             </button>
           );
         })}
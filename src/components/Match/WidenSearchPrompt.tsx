@@ -0,0 +1,48 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Search } from "lucide-react";
+import { MatchingWidenStep } from "@/services/matchingService";
+
+interface WidenSearchPromptProps {
+  step: MatchingWidenStep;
+  callType: 'video' | 'voice';
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+export function WidenSearchPrompt({ step, callType, onAccept, onDecline }: WidenSearchPromptProps) {
+  const otherCallType = callType === 'video' ? 'voice' : 'video';
+  const description = step === 'gender'
+    ? "Match with anyone instead of only your preferred gender?"
+    : `Switch to a ${otherCallType} call to find someone faster?`;
+
+  return (
+    <Card className="bg-black/60 border-white/20 rounded-2xl border-0 max-w-xs mx-auto mt-6">
+      <div className="p-4 text-center text-white">
+        <div className="flex items-center justify-center gap-2 mb-2">
+          <Search className="w-4 h-4" />
+          <p className="font-poppins font-semibold text-sm">Still looking… widen search?</p>
+        </div>
+        <p className="font-poppins text-xs text-white/80 mb-4">{description}</p>
+        <div className="flex gap-2">
+          <Button
+            onClick={onDecline}
+            variant="outline"
+            size="sm"
+            className="flex-1 rounded-xl bg-white/10 border-white/30 text-white hover:bg-white/20 font-poppins"
+          >
+            Keep waiting
+          </Button>
+          <Button
+            onClick={onAccept}
+            variant="gradient"
+            size="sm"
+            className="flex-1 rounded-xl font-poppins"
+          >
+            Widen
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -4,9 +4,12 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Camera, Plus, X, Heart, ArrowRight, Sparkles, Star } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, Plus, X, Heart, ArrowRight, Sparkles, Star, Languages, MapPin } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { ImageCropModal } from "./ImageCropModal";
+import { SPOKEN_LANGUAGES, INDIAN_REGIONS } from "@/config/languages";
 
 interface UserProfile {
   username: string;
@@ -15,6 +18,9 @@ interface UserProfile {
   interests: string[];
   matchPreference: "anyone" | "men" | "women";
   gender: "male" | "female" | "other";
+  languages: string[];
+  region?: string;
+  requireSameLanguage?: boolean;
 }
 
 interface OnboardingScreenProps {
@@ -38,6 +44,9 @@ export function OnboardingScreen({ onComplete, initialProfile, isPremium = false
   const [selectedInterests, setSelectedInterests] = useState<string[]>(initialProfile?.interests ?? []);
   const [matchPreference, setMatchPreference] = useState<"anyone" | "men" | "women">(initialProfile?.matchPreference ?? "anyone");
   const [gender, setGender] = useState<"male" | "female" | "other">(initialProfile?.gender ?? "male");
+  const [selectedLanguages, setSelectedLanguages] = useState<string[]>(initialProfile?.languages ?? []);
+  const [region, setRegion] = useState<string | undefined>(initialProfile?.region);
+  const [requireSameLanguage, setRequireSameLanguage] = useState(initialProfile?.requireSameLanguage ?? false);
   const [showCropModal, setShowCropModal] = useState(false);
   const [pendingImageUrl, setPendingImageUrl] = useState<string>("");
   const { toast } = useToast();
@@ -100,11 +109,20 @@ export function OnboardingScreen({ onComplete, initialProfile, isPremium = false
     );
   };
 
+  const toggleLanguage = (language: string) => {
+    setSelectedLanguages(prev => 
+      prev.includes(language)
+        ? prev.filter(l => l !== language)
+        : prev.length < 5 ? [...prev, language] : prev
+    );
+  };
+
   const canSubmit = () => {
     return username.trim().length >= 2 && 
            photos.length >= 2 && 
            bio.trim().length >= 20 && 
-           selectedInterests.length >= 3;
+           selectedInterests.length >= 3 &&
+           selectedLanguages.length >= 1;
   };
 
   const handleSubmit = () => {
@@ -124,6 +142,9 @@ export function OnboardingScreen({ onComplete, initialProfile, isPremium = false
       interests: selectedInterests,
       matchPreference,
       gender,
+      languages: selectedLanguages,
+      region,
+      requireSameLanguage: isPremium && requireSameLanguage,
     });
   };
 
@@ -329,6 +350,70 @@ export function OnboardingScreen({ onComplete, initialProfile, isPremium = false
               </p>
             </div>
 
+            {/* Languages Section */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Languages className="w-5 h-5 text-primary" />
+                <h3 className="text-lg font-semibold font-poppins">Which languages do you speak?</h3>
+              </div>
+              <div className="flex flex-wrap gap-2 sm:gap-3 justify-center">
+                {SPOKEN_LANGUAGES.map((language) => (
+                  <Badge
+                    key={language}
+                    variant={selectedLanguages.includes(language) ? "default" : "outline"}
+                    className={`cursor-pointer transition-all hover:scale-105 font-poppins px-3 py-2 text-xs sm:text-sm ${
+                      selectedLanguages.includes(language) 
+                        ? "bg-primary text-white shadow-warm" 
+                        : "hover:bg-primary/10"
+                    }`}
+                    onClick={() => toggleLanguage(language)}
+                  >
+                    {language}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground text-center font-poppins">
+                {selectedLanguages.length}/5 selected • Minimum 1 required
+              </p>
+              <div className="bg-primary/5 border border-primary/10 rounded-xl p-3 sm:p-4">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium font-poppins">Only match people who speak my language</p>
+                    <p className="text-xs text-muted-foreground font-poppins">
+                      {isPremium ? "Otherwise we just prefer a shared language" : "Premium Feature"}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={isPremium && requireSameLanguage}
+                    onCheckedChange={(checked) => (isPremium ? setRequireSameLanguage(checked) : onRequestUpgrade?.())}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Region Section */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <MapPin className="w-5 h-5 text-secondary" />
+                <h3 className="text-lg font-semibold font-poppins">Where are you from?</h3>
+              </div>
+              <Select value={region ?? ""} onValueChange={(value) => setRegion(value || undefined)}>
+                <SelectTrigger className="h-12 rounded-xl font-poppins">
+                  <SelectValue placeholder="Select your state (optional)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {INDIAN_REGIONS.map((name) => (
+                    <SelectItem key={name} value={name} className="font-poppins">
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground font-poppins">
+                We'll lean towards people nearby, but won't limit you to them
+              </p>
+            </div>
+
             {/* Match Preferences Section */}
             <div className="space-y-4">
               <div className="flex items-center gap-2">
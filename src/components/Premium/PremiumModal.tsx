@@ -12,15 +12,16 @@ import {
   Sparkles,
   Loader2
 } from "lucide-react";
-import { PaymentService } from "@/services/paymentService";
-import { PREMIUM_PLANS } from "@/config/payments";
+import { PaymentService, EntitlementState } from "@/services/paymentService";
 import { useToast } from "@/hooks/use-toast";
+import { useProductCatalog } from "@/hooks/useProductCatalog";
+import { getRenewalLabel } from "@/utils/paymentHelpers";
 import { useState, useEffect } from "react";
 
 interface PremiumModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubscribe: (plan: string) => void;
+  onSubscribe: (plan: string, entitlements?: EntitlementState) => void;
   userInfo?: {
     name?: string;
     email?: string;
@@ -56,12 +57,15 @@ export function PremiumModal({ isOpen, onClose, onSubscribe, userInfo }: Premium
     }
   }, [isOpen, toast]);
 
-  const plans = [
-    { id: "day", duration: PREMIUM_PLANS.day.duration, price: `₹${PREMIUM_PLANS.day.price}`, originalPrice: `₹${PREMIUM_PLANS.day.originalPrice}`, badge: "Most Popular" },
-    { id: "week", duration: PREMIUM_PLANS.week.duration, price: `₹${PREMIUM_PLANS.week.price}`, originalPrice: `₹${PREMIUM_PLANS.week.originalPrice}`, badge: null },
-    { id: "month", duration: PREMIUM_PLANS.month.duration, price: `₹${PREMIUM_PLANS.month.price}`, originalPrice: `₹${PREMIUM_PLANS.month.originalPrice}`, badge: "Best Value" },
-    { id: "lifetime", duration: PREMIUM_PLANS.lifetime.duration, price: `₹${PREMIUM_PLANS.lifetime.price}`, originalPrice: `₹${PREMIUM_PLANS.lifetime.originalPrice}`, badge: "Limited Time" },
-  ];
+  const { getProducts } = useProductCatalog();
+  const plans = getProducts('premium').map((product) => ({
+    id: product.id,
+    duration: product.duration,
+    price: `₹${product.price}`,
+    originalPrice: product.originalPrice ? `₹${product.originalPrice}` : null,
+    badge: product.badge,
+    renewal: getRenewalLabel(product)
+  }));
 
   const handlePremiumPurchase = async (planId: string) => {
     if (isProcessing || processingPlan) return;
@@ -70,16 +74,16 @@ export function PremiumModal({ isOpen, onClose, onSubscribe, userInfo }: Premium
     setProcessingPlan(planId);
     
     try {
-      const result = await PaymentService.subscribeToPremium(
-        planId as keyof typeof PREMIUM_PLANS,
-        userInfo
-      );
+      // Recurring plans are Razorpay subscriptions; the rest are one-off passes
+      const plan = plans.find(p => p.id === planId);
+      const result = plan?.renewal
+        ? await PaymentService.subscribe(planId)
+        : await PaymentService.purchaseProduct(planId);
       
       if (result.success) {
         // Only activate premium after successful payment
-        onSubscribe(planId);
+        onSubscribe(planId, result.entitlements);
         onClose();
-        const plan = plans.find(p => p.id === planId);
         toast({
           title: "Premium Activated! 👑",
           description: `Payment successful! Your ${plan?.duration} subscription is now active.`,
@@ -189,6 +193,9 @@ export function PremiumModal({ isOpen, onClose, onSubscribe, userInfo }: Premium
                           {plan.originalPrice}
                         </span>
                       </div>
+                      {plan.renewal && (
+                        <p className="text-xs text-muted-foreground mt-1">{plan.renewal} • Cancel anytime</p>
+                      )}
                     </div>
                     <Button 
                       variant="gradient" 
@@ -13,13 +13,15 @@ import {
   X,
   Loader2
 } from "lucide-react";
-import { PaymentService } from "@/services/paymentService";
-import { PREMIUM_PLANS } from "@/config/payments";
+import { PaymentService, EntitlementState } from "@/services/paymentService";
 import { useToast } from "@/hooks/use-toast";
+import { useProductCatalog } from "@/hooks/useProductCatalog";
+import { useEntitlements } from "@/hooks/useEntitlements";
+import { getRenewalLabel } from "@/utils/paymentHelpers";
 
 interface PremiumScreenProps {
   onBack: () => void;
-  onSubscribe: (plan: string) => void;
+  onSubscribe: (plan: string, entitlements?: EntitlementState) => void;
   userInfo?: {
     name?: string;
     email?: string;
@@ -38,7 +40,9 @@ export function PremiumScreen({ onBack, onSubscribe, userInfo }: PremiumScreenPr
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingPlan, setProcessingPlan] = useState<string | null>(null);
   const [paymentMode, setPaymentMode] = useState<'live' | 'demo'>('live');
+  const [isCancelling, setIsCancelling] = useState(false);
   const { toast } = useToast();
+  const { entitlements, premiumSubscription, cancelSubscription } = useEntitlements();
 
   // Test payment gateway on component mount
   useEffect(() => {
@@ -52,12 +56,48 @@ export function PremiumScreen({ onBack, onSubscribe, userInfo }: PremiumScreenPr
     
     testGateway();
   }, [toast]);
-  const plans = [
-    { id: "day", duration: PREMIUM_PLANS.day.duration, price: `₹${PREMIUM_PLANS.day.price}`, originalPrice: `₹${PREMIUM_PLANS.day.originalPrice}`, badge: "Most Popular" },
-    { id: "week", duration: PREMIUM_PLANS.week.duration, price: `₹${PREMIUM_PLANS.week.price}`, originalPrice: `₹${PREMIUM_PLANS.week.originalPrice}`, badge: null },
-    { id: "month", duration: PREMIUM_PLANS.month.duration, price: `₹${PREMIUM_PLANS.month.price}`, originalPrice: `₹${PREMIUM_PLANS.month.originalPrice}`, badge: "Best Value" },
-    { id: "lifetime", duration: PREMIUM_PLANS.lifetime.duration, price: `₹${PREMIUM_PLANS.lifetime.price}`, originalPrice: `₹${PREMIUM_PLANS.lifetime.originalPrice}`, badge: "Limited Time" },
-  ];
+  const { getProducts } = useProductCatalog();
+  const plans = getProducts('premium').map((product) => ({
+    id: product.id,
+    duration: product.duration,
+    price: `₹${product.price}`,
+    originalPrice: product.originalPrice ? `₹${product.originalPrice}` : null,
+    badge: product.badge,
+    renewal: getRenewalLabel(product)
+  }));
+
+  const handleCancelSubscription = async () => {
+    if (!premiumSubscription || isCancelling) return;
+
+    setIsCancelling(true);
+    if (await cancelSubscription(premiumSubscription.id)) {
+      toast({
+        title: "Subscription cancelled",
+        description: "You won't be charged again. Premium stays on for the time you've already paid for.",
+      });
+    }
+    setIsCancelling(false);
+  };
+
+  const formatDate = (date: Date | null) => date?.toLocaleDateString() ?? "–";
+
+  const getSubscriptionStatus = () => {
+    if (!premiumSubscription) return null;
+
+    switch (premiumSubscription.status) {
+      case 'pending':
+        return `Your renewal payment didn't go through. We'll keep retrying, and Premium stays on until ${formatDate(premiumSubscription.graceUntil)}.`;
+      case 'created':
+      case 'authenticated':
+        return "Setting up your subscription...";
+      case 'active':
+        return premiumSubscription.cancelAtPeriodEnd
+          ? `Cancelled. Premium ends on ${formatDate(premiumSubscription.currentEnd)}.`
+          : `Renews on ${formatDate(premiumSubscription.currentEnd)}.`;
+      default:
+        return `Premium ends on ${formatDate(premiumSubscription.accessUntil)}.`;
+    }
+  };
 
   const handlePremiumPurchase = async (planId: string) => {
     if (isProcessing || processingPlan) return;
@@ -66,15 +106,15 @@ export function PremiumScreen({ onBack, onSubscribe, userInfo }: PremiumScreenPr
     setProcessingPlan(planId);
     
     try {
-      const result = await PaymentService.subscribeToPremium(
-        planId as keyof typeof PREMIUM_PLANS,
-        userInfo
-      );
+      // Recurring plans are Razorpay subscriptions; the rest are one-off passes
+      const plan = plans.find(p => p.id === planId);
+      const result = plan?.renewal
+        ? await PaymentService.subscribe(planId)
+        : await PaymentService.purchaseProduct(planId);
       
       if (result.success) {
         // Only activate premium after successful payment
-        onSubscribe(planId);
-        const plan = plans.find(p => p.id === planId);
+        onSubscribe(planId, result.entitlements);
         toast({
           title: "Premium Activated! 👑",
           description: `Payment successful! Your ${plan?.duration} subscription is now active.`,
@@ -130,6 +170,44 @@ export function PremiumScreen({ onBack, onSubscribe, userInfo }: PremiumScreenPr
 
       <div className="px-6 pb-24 space-y-6">
         <div className="max-w-md mx-auto">
+          {/* Current plan */}
+          {(premiumSubscription || entitlements?.isPremium) && (
+            <Card className="bg-white/95 backdrop-blur-sm rounded-3xl border-0 shadow-2xl mb-8">
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <h2 className="text-xl font-bold text-gray-800 font-poppins">Your Premium</h2>
+                  <Badge className={`border-0 font-poppins text-xs px-3 py-1 text-white ${
+                    premiumSubscription?.status === 'pending' ? "bg-amber-500" : "bg-green-500"
+                  }`}>
+                    {premiumSubscription?.status === 'pending' ? "Payment Retrying" : "Active"}
+                  </Badge>
+                </div>
+                <p className="text-gray-600 font-poppins text-sm">
+                  {getSubscriptionStatus() ?? (entitlements?.premiumLifetime
+                    ? "Lifetime access."
+                    : `Active until ${formatDate(entitlements?.premiumUntil ?? null)}.`)}
+                </p>
+                {premiumSubscription?.autoRenews && (
+                  <Button
+                    onClick={handleCancelSubscription}
+                    disabled={isCancelling}
+                    variant="outline"
+                    className="w-full h-11 mt-4 font-poppins rounded-2xl"
+                  >
+                    {isCancelling ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Cancelling
+                      </>
+                    ) : (
+                      "Cancel Subscription"
+                    )}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Gender Preference Highlight */}
           <Card className="bg-white/95 backdrop-blur-sm rounded-3xl border-0 shadow-2xl mb-8">
             <CardContent className="p-8">
@@ -201,6 +279,9 @@ export function PremiumScreen({ onBack, onSubscribe, userInfo }: PremiumScreenPr
                           {plan.originalPrice}
                         </span>
                       </div>
+                      {plan.renewal && (
+                        <p className="text-sm text-gray-500 font-poppins mt-1">{plan.renewal} • Cancel anytime</p>
+                      )}
                     </div>
                     <Button 
                       disabled={isProcessing || processingPlan === plan.id}
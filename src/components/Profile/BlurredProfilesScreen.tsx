@@ -22,7 +22,8 @@ interface BlurredProfilesScreenProps {
   profiles: BlurredProfile[];
   coinBalance: number;
   onBack: () => void;
-  onUnlockProfile: (profileId: string, cost: number) => void;
+  // Resolves to whether the coins were actually spent
+  onUnlockProfile: (profileId: string, cost: number) => Promise<boolean>;
   onBuyCoins: () => void;
 }
 
@@ -36,7 +37,7 @@ export function BlurredProfilesScreen({
   const [unlockedProfiles, setUnlockedProfiles] = useState<Set<string>>(new Set());
   const { toast } = useToast();
 
-  const handleUnlock = (profile: BlurredProfile) => {
+  const handleUnlock = async (profile: BlurredProfile) => {
     if (coinBalance < profile.unlockCost) {
       toast({
         title: "Not enough coins",
@@ -46,8 +47,9 @@ export function BlurredProfilesScreen({
       return;
     }
 
+    if (!(await onUnlockProfile(profile.id, profile.unlockCost))) return;
+
     setUnlockedProfiles(prev => new Set([...prev, profile.id]));
-    onUnlockProfile(profile.id, profile.unlockCost);
     
     toast({
       title: "Profile unlocked! 🎉",
@@ -2,15 +2,19 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
 import { ImageCropModal } from "@/components/Onboarding/ImageCropModal";
-import { MapPin, Zap, Heart, Edit, Camera, Plus, ArrowLeft, Gem, Eye, Unlock } from "lucide-react";
+import { MapPin, Zap, Heart, Edit, Camera, Plus, ArrowLeft, Gem, Eye, Unlock, Languages, Ban, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useDataSaver } from "@/hooks/useDataSaver";
 
 interface UserProfile {
   username: string;
   photos: string[];
   bio: string;
   interests: string[];
+  languages?: string[];
+  region?: string;
   age?: number;
 }
 
@@ -21,12 +25,28 @@ interface ProfileScreenProps {
   onBack?: () => void;
   onBuyCoins?: () => void;
   onViewBlurredProfiles?: () => void;
+  blockedUserIds?: string[];
+  recentPartnerIds?: string[];
+  onBlockUser?: (userId: string) => void;
+  onUnblockUser?: (userId: string) => void;
 }
 
-export function ProfileScreen({ profile, onEdit, onUpdateProfile, onBack, onBuyCoins, onViewBlurredProfiles }: ProfileScreenProps) {
-  const { username, photos, bio, interests, age = 20 } = profile;
+export function ProfileScreen({
+  profile,
+  onEdit,
+  onUpdateProfile,
+  onBack,
+  onBuyCoins,
+  onViewBlurredProfiles,
+  blockedUserIds = [],
+  recentPartnerIds = [],
+  onBlockUser,
+  onUnblockUser
+}: ProfileScreenProps) {
+  const { username, photos, bio, interests, languages = [], region, age = 20 } = profile;
   const [showCropModal, setShowCropModal] = useState(false);
   const [pendingImageUrl, setPendingImageUrl] = useState<string>("");
+  const { dataSaver, setDataSaver } = useDataSaver();
   const { toast } = useToast();
 
   const handlePhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -291,6 +311,37 @@ export function ProfileScreen({ profile, onEdit, onUpdateProfile, onBack, onBuyC
             </CardContent>
           </Card>
 
+          {/* Languages & Region Section - Separate card */}
+          <Card className="bg-white rounded-2xl shadow-card border-0">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold font-poppins text-gray-800">Languages & Region</h3>
+                <Button variant="ghost" size="sm" onClick={onEdit} className="text-gray-500 hover:text-gray-700">
+                  <Edit className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="w-full h-px bg-gray-100 mb-4"></div>
+              <div className="flex flex-wrap gap-3 mb-4">
+                {languages.map((language) => (
+                  <Badge 
+                    key={language}
+                    className="bg-secondary/10 text-secondary border-0 hover:bg-secondary/15 font-poppins px-4 py-2 rounded-full text-sm font-medium"
+                  >
+                    <Languages className="w-3 h-3 mr-1" />
+                    {language}
+                  </Badge>
+                ))}
+                {languages.length === 0 && (
+                  <p className="text-sm text-gray-500 font-poppins">Add the languages you speak to get better matches</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-700 font-poppins">
+                <MapPin className="w-4 h-4 text-gray-500" />
+                <span>{region ?? "Region not set"}</span>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* My Interests Section - Separate card */}
           <Card className="bg-white rounded-2xl shadow-card border-0">
             <CardContent className="p-6">
@@ -321,6 +372,79 @@ export function ProfileScreen({ profile, onEdit, onUpdateProfile, onBack, onBuyC
               </div>
             </CardContent>
           </Card>
+
+          {/* Call Settings Section - Separate card */}
+          <Card className="bg-white rounded-2xl shadow-card border-0">
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold font-poppins text-gray-800 mb-4">Call Settings</h3>
+              <div className="w-full h-px bg-gray-100 mb-4"></div>
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium font-poppins text-gray-800">Data saver</p>
+                  <p className="text-xs text-gray-500 font-poppins">Lower video quality to use less mobile data</p>
+                </div>
+                <Switch checked={dataSaver} onCheckedChange={setDataSaver} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Blocked & Recently Met Section - Separate card */}
+          {(onBlockUser || onUnblockUser) && (
+            <Card className="bg-white rounded-2xl shadow-card border-0">
+              <CardContent className="p-6">
+                <h3 className="text-lg font-semibold font-poppins text-gray-800 mb-4">Blocked & Recently Met</h3>
+                <div className="w-full h-px bg-gray-100 mb-4"></div>
+
+                <div className="space-y-3 mb-6">
+                  {blockedUserIds.map((blockedId) => (
+                    <div key={blockedId} className="flex items-center justify-between">
+                      <div className="flex items-center gap-2 text-sm text-gray-700 font-poppins">
+                        <Ban className="w-4 h-4 text-red-500" />
+                        <span>{blockedId}</span>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onUnblockUser?.(blockedId)}
+                        className="rounded-full font-poppins"
+                      >
+                        Unblock
+                      </Button>
+                    </div>
+                  ))}
+                  {blockedUserIds.length === 0 && (
+                    <p className="text-sm text-gray-500 font-poppins">You haven't blocked anyone</p>
+                  )}
+                </div>
+
+                {recentPartnerIds.length > 0 && (
+                  <>
+                    <p className="text-sm font-medium text-gray-600 font-poppins mb-3">Recently met</p>
+                    <div className="space-y-3">
+                      {recentPartnerIds
+                        .filter(partnerId => !blockedUserIds.includes(partnerId))
+                        .map((partnerId) => (
+                          <div key={partnerId} className="flex items-center justify-between">
+                            <div className="flex items-center gap-2 text-sm text-gray-700 font-poppins">
+                              <History className="w-4 h-4 text-gray-500" />
+                              <span>{partnerId}</span>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => onBlockUser?.(partnerId)}
+                              className="rounded-full text-red-500 hover:text-red-600 font-poppins"
+                            >
+                              Block
+                            </Button>
+                          </div>
+                        ))}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
       
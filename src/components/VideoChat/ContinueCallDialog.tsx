@@ -0,0 +1,114 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ContinueVoteState } from "@/hooks/useContinueVote";
+import { Clock, Heart, PhoneOff, Coins } from "lucide-react";
+
+interface ContinueCallDialogProps {
+  vote: ContinueVoteState;
+  callType: 'video' | 'voice';
+}
+
+export function ContinueCallDialog({ vote, callType }: ContinueCallDialogProps) {
+  const { isOpen, myVote, partnerVote, partnerUnreachable, chargeFailed, partnerChargeFailed, confirming, outcome, secondsLeft, cost, canAfford, castVote } = vote;
+
+  const getEndedMessage = () => {
+    if (chargeFailed) return "Your coins couldn't be charged, so the call is ending. Redirecting to profile view...";
+    if (myVote === false) return "You chose to end the call. Redirecting to profile view...";
+    if (partnerChargeFailed) return "The other person couldn't pay to continue, so any coins you paid are refunded. Redirecting to profile view...";
+    if (partnerVote === false) return "The other person chose to end the call. Redirecting to profile view...";
+    if (partnerUnreachable) return "The other person didn't answer. Redirecting to profile view...";
+    return "Ending call...";
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => {}}>
+      <DialogContent className="max-w-md p-0 overflow-hidden" hideCloseButton>
+        <div className="bg-gradient-primary text-white p-6 text-center">
+          <Clock className="w-16 h-16 mx-auto mb-4 animate-float" />
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-bold text-white">
+              7 Minutes Complete!
+            </DialogTitle>
+          </DialogHeader>
+          <p className="text-white/90 font-poppins">
+            {callType === 'voice'
+              ? "Would you like to continue this voice conversation?"
+              : "Would you like to continue this conversation?"
+            }
+          </p>
+        </div>
+
+        <div className="p-6">
+          {outcome === null && myVote === null ? (
+            <div className="space-y-4">
+              <p className="text-center text-foreground font-poppins">
+                Choose if you want to continue {callType === 'voice' ? 'talking' : 'chatting'} with this person
+              </p>
+              <p className="text-center text-sm text-muted-foreground font-poppins mb-6">
+                {secondsLeft}s left to decide
+              </p>
+              <div className="flex gap-4">
+                <Button
+                  onClick={() => castVote(false)}
+                  variant="outline"
+                  className="flex-1 h-12 rounded-xl font-poppins"
+                >
+                  End Call
+                </Button>
+                <Button
+                  onClick={() => castVote(true)}
+                  variant="gradient"
+                  disabled={!canAfford}
+                  className="flex-1 h-12 rounded-xl font-poppins"
+                >
+                  {cost > 0 ? (
+                    <span className="flex items-center gap-1">
+                      Continue · <Coins className="w-4 h-4" /> {cost}
+                    </span>
+                  ) : (
+                    "Continue"
+                  )}
+                </Button>
+              </div>
+              {!canAfford && (
+                <p className="text-center text-xs text-destructive font-poppins">
+                  You need {cost} coins to continue.
+                </p>
+              )}
+            </div>
+          ) : outcome === null ? (
+            <div className="text-center space-y-4">
+              <div className="animate-spin w-8 h-8 border-4 border-primary/30 border-t-primary rounded-full mx-auto"></div>
+              <p className="text-foreground font-poppins">
+                {confirming ? "Confirming you've both paid..." : "Waiting for the other person to decide..."}
+              </p>
+              <p className="text-sm text-muted-foreground font-poppins">{secondsLeft}s</p>
+            </div>
+          ) : (
+            <div className="text-center space-y-4">
+              {outcome === 'continued' ? (
+                <>
+                  <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto">
+                    <Heart className="w-8 h-8 text-green-600" />
+                  </div>
+                  <p className="text-foreground font-poppins font-semibold">
+                    Great! Both of you want to continue. Enjoy your conversation! 💕
+                  </p>
+                </>
+              ) : (
+                <>
+                  <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto">
+                    <PhoneOff className="w-8 h-8 text-gray-600" />
+                  </div>
+                  <p className="text-foreground font-poppins">
+                    {getEndedMessage()}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
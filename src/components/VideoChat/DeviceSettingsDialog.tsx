@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { WebRTCService } from "@/services/webrtcService";
+import { MediaDeviceService, AvailableDevices } from "@/services/mediaDeviceService";
+import { Camera, Mic, Volume2 } from "lucide-react";
+
+interface DeviceSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  service: WebRTCService | null;
+  showCamera?: boolean;
+  audioOutputId: string | null;
+  onAudioOutputChange: (deviceId: string) => void;
+}
+
+const emptyDevices: AvailableDevices = { audioInputs: [], videoInputs: [], audioOutputs: [] };
+
+export function DeviceSettingsDialog({
+  open,
+  onOpenChange,
+  service,
+  showCamera = true,
+  audioOutputId,
+  onAudioOutputChange
+}: DeviceSettingsDialogProps) {
+  const [devices, setDevices] = useState<AvailableDevices>(emptyDevices);
+  const [videoInputId, setVideoInputId] = useState<string>("");
+  const [audioInputId, setAudioInputId] = useState<string>("");
+  const { toast } = useToast();
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await MediaDeviceService.listDevices());
+
+      const localStream = service?.getLocalStream();
+      setVideoInputId(localStream?.getVideoTracks()[0]?.getSettings().deviceId ?? "");
+      setAudioInputId(localStream?.getAudioTracks()[0]?.getSettings().deviceId ?? "");
+    } catch (error) {
+      console.error('Failed to list media devices:', error);
+    }
+  }, [service]);
+
+  // Keep the lists current while open, including when something is plugged in or out
+  useEffect(() => {
+    if (!open) return;
+
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [open, refreshDevices]);
+
+  const handleSwitch = async (label: string, apply: (activeService: WebRTCService) => Promise<void>) => {
+    if (!service) return;
+
+    try {
+      await apply(service);
+      await refreshDevices();
+    } catch (error) {
+      console.error(`Failed to switch ${label}:`, error);
+      toast({
+        title: `Couldn't switch ${label}`,
+        description: "The device may be in use by another app.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderSelect = (
+    icon: React.ReactNode,
+    label: string,
+    value: string,
+    options: AvailableDevices['audioInputs'],
+    onChange: (deviceId: string) => void
+  ) => (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium font-poppins">
+        {icon}
+        {label}
+      </div>
+      <Select value={value} onValueChange={onChange} disabled={options.length === 0}>
+        <SelectTrigger className="h-12 rounded-xl font-poppins">
+          <SelectValue placeholder={options.length === 0 ? "No devices found" : "Default"} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((device) => (
+            <SelectItem key={device.deviceId} value={device.deviceId} className="font-poppins">
+              {device.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-poppins">Devices</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {showCamera && renderSelect(
+            <Camera className="w-4 h-4" />,
+            "Camera",
+            videoInputId,
+            devices.videoInputs,
+            (deviceId) => handleSwitch("camera", (activeService) => activeService.selectVideoInput(deviceId))
+          )}
+          {renderSelect(
+            <Mic className="w-4 h-4" />,
+            "Microphone",
+            audioInputId,
+            devices.audioInputs,
+            (deviceId) => handleSwitch("microphone", (activeService) => activeService.selectAudioInput(deviceId))
+          )}
+          {MediaDeviceService.supportsAudioOutputSelection() && renderSelect(
+            <Volume2 className="w-4 h-4" />,
+            "Speaker",
+            audioOutputId ?? "",
+            devices.audioOutputs,
+            (deviceId) => {
+              MediaDeviceService.setPreferredDevice('audiooutput', deviceId);
+              onAudioOutputChange(deviceId);
+            }
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { InCallChatMessage, MAX_CHAT_MESSAGE_LENGTH } from "@/services/callMessages";
+import { MessageCircle, X } from "lucide-react";
+
+interface InCallChatPanelProps {
+  messages: InCallChatMessage[];
+  partnerTyping: boolean;
+  onSend: (text: string) => boolean;
+  onTyping: (isTyping: boolean) => void;
+}
+
+// Collapsible chat overlay for calls; the toggle shows how many messages arrived while closed
+export function InCallChatPanel({ messages, partnerTyping, onSend, onTyping }: InCallChatPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [readCount, setReadCount] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const unreadCount = isOpen ? 0 : messages.slice(readCount).filter(m => m.sender === "them").length;
+
+  useEffect(() => {
+    if (isOpen) {
+      setReadCount(messages.length);
+    }
+  }, [isOpen, messages.length]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length, partnerTyping, isOpen]);
+
+  const handleSend = () => {
+    if (!text.trim()) return;
+
+    if (onSend(text)) {
+      setText("");
+    } else {
+      toast({
+        title: "Message not sent",
+        description: "You're not connected right now.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const formatTime = (sentAt: number) =>
+    new Date(sentAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  if (!isOpen) {
+    return (
+      <Button
+        onClick={() => setIsOpen(true)}
+        variant="outline"
+        size="icon"
+        className="relative w-12 h-12 rounded-full bg-black/50 border-white/30 text-white hover:bg-black/70"
+      >
+        <MessageCircle className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="w-72 sm:w-80 max-h-[50vh] flex flex-col rounded-2xl bg-black/70 backdrop-blur-md border border-white/20 text-white animate-slide-up">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+        <p className="text-sm font-semibold font-poppins">Chat</p>
+        <Button
+          onClick={() => setIsOpen(false)}
+          variant="ghost"
+          size="icon"
+          className="w-8 h-8 rounded-full text-white hover:bg-white/10"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-2 min-h-24">
+        {messages.length === 0 && (
+          <p className="text-xs text-white/60 text-center font-poppins py-4">
+            Say hi! Links and phone numbers are hidden for your safety.
+          </p>
+        )}
+        {messages.map((m) => (
+          <div key={m.id} className={`flex ${m.sender === "me" ? "justify-end" : "justify-start"}`}>
+            <div
+              className={`max-w-[80%] rounded-2xl px-3 py-1.5 text-sm ${
+                m.sender === "me"
+                  ? "bg-primary text-primary-foreground rounded-br-sm"
+                  : "bg-white/15 rounded-bl-sm"
+              }`}
+            >
+              <p className="font-poppins break-words">{m.text}</p>
+              <p className="mt-0.5 text-[10px] opacity-70 text-right font-poppins">{formatTime(m.sentAt)}</p>
+            </div>
+          </div>
+        ))}
+        {partnerTyping && (
+          <p className="text-xs text-white/70 font-poppins italic">typing…</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 p-2 border-t border-white/10">
+        <Input
+          placeholder="Type a message"
+          value={text}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          onChange={(e) => {
+            setText(e.target.value);
+            onTyping(e.target.value.length > 0);
+          }}
+          onBlur={() => onTyping(false)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSend();
+          }}
+          className="h-10 rounded-xl font-poppins bg-white/10 border-white/20 text-white placeholder:text-white/50"
+        />
+        <Button onClick={handleSend} variant="gradient" className="h-10 px-4 rounded-xl font-poppins font-semibold">
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+}
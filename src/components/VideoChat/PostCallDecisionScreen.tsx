@@ -1,14 +1,25 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { X, Heart } from "lucide-react";
+import { TranscriptSaveOption } from "./TranscriptSaveOption";
 
 interface PostCallDecisionScreenProps {
   profile: { username: string; photo?: string };
   onReject: () => void;
   onAccept: () => void;
+  transcriptMessageCount?: number;
+  saveTranscript?: boolean;
+  onSaveTranscriptChange?: (save: boolean) => void;
 }
 
-export function PostCallDecisionScreen({ profile, onReject, onAccept }: PostCallDecisionScreenProps) {
+export function PostCallDecisionScreen({
+  profile,
+  onReject,
+  onAccept,
+  transcriptMessageCount = 0,
+  saveTranscript = false,
+  onSaveTranscriptChange
+}: PostCallDecisionScreenProps) {
   return (
     <main className="min-h-screen bg-background pb-24 px-4 pt-16 safe-area-top safe-area-bottom">
       <section className="max-w-lg mx-auto text-center">
@@ -30,6 +41,13 @@ export function PostCallDecisionScreen({ profile, onReject, onAccept }: PostCall
           </CardContent>
         </Card>
 
+        <TranscriptSaveOption
+          messageCount={transcriptMessageCount}
+          checked={saveTranscript}
+          onCheckedChange={(checked) => onSaveTranscriptChange?.(checked)}
+          className="mb-6"
+        />
+
         <div className="flex items-center justify-center gap-6">
           <Button
             variant="outline"
@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { X, Heart, MapPin, Zap, ArrowLeft } from "lucide-react";
+import { TranscriptSaveOption } from "./TranscriptSaveOption";
 
 interface PostCallProfileScreenProps {
   profile: {
@@ -23,9 +24,20 @@ interface PostCallProfileScreenProps {
   onReject: () => void;
   onAccept: () => void;
   onBack?: () => void;
+  transcriptMessageCount?: number;
+  saveTranscript?: boolean;
+  onSaveTranscriptChange?: (save: boolean) => void;
 }
 
-export function PostCallProfileScreen({ profile, onReject, onAccept, onBack }: PostCallProfileScreenProps) {
+export function PostCallProfileScreen({
+  profile,
+  onReject,
+  onAccept,
+  onBack,
+  transcriptMessageCount = 0,
+  saveTranscript = false,
+  onSaveTranscriptChange
+}: PostCallProfileScreenProps) {
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
 
   const handlePhotoScroll = (e: React.UIEvent<HTMLDivElement>) => {
@@ -158,6 +170,12 @@ export function PostCallProfileScreen({ profile, onReject, onAccept, onBack }: P
 
       {/* Action Buttons */}
       <div className="fixed bottom-8 left-0 right-0 px-6 safe-area-bottom">
+        <TranscriptSaveOption
+          messageCount={transcriptMessageCount}
+          checked={saveTranscript}
+          onCheckedChange={(checked) => onSaveTranscriptChange?.(checked)}
+          className="mb-4"
+        />
         <div className="flex items-center justify-center gap-8">
           <Button
             variant="outline"
@@ -0,0 +1,55 @@
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { CallQualitySample, SignalStrength } from "@/services/callStatsMonitor";
+
+interface SignalStrengthIndicatorProps {
+  strength: SignalStrength;
+  sample?: CallQualitySample | null;
+  className?: string;
+}
+
+const strengthLabels: Record<SignalStrength, string> = {
+  0: "Checking connection",
+  1: "Poor connection",
+  2: "Fair connection",
+  3: "Good connection",
+  4: "Excellent connection"
+};
+
+const strengthColors: Record<SignalStrength, string> = {
+  0: "bg-white",
+  1: "bg-red-400",
+  2: "bg-yellow-400",
+  3: "bg-green-400",
+  4: "bg-green-400"
+};
+
+export function SignalStrengthIndicator({ strength, sample, className }: SignalStrengthIndicatorProps) {
+  const details = sample
+    ? [
+        sample.rttMs !== null && `${sample.rttMs} ms`,
+        sample.packetLossPercent !== null && `${sample.packetLossPercent}% loss`
+      ].filter(Boolean).join(" · ")
+    : "";
+
+  return (
+    <Card
+      className={cn("bg-black/50 border-white/20 rounded-lg sm:rounded-xl border-0", className)}
+      title={details ? `${strengthLabels[strength]} (${details})` : strengthLabels[strength]}
+      aria-label={strengthLabels[strength]}
+    >
+      <div className="px-2 sm:px-3 py-2 flex items-end gap-0.5 h-8 sm:h-10">
+        {[1, 2, 3, 4].map((bar) => (
+          <div
+            key={bar}
+            className={cn(
+              "w-1 rounded-full",
+              bar <= strength ? strengthColors[strength] : "bg-white/30"
+            )}
+            style={{ height: `${bar * 25}%` }}
+          />
+        ))}
+      </div>
+    </Card>
+  );
+}
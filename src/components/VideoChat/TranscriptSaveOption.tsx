@@ -0,0 +1,23 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { MessageCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TranscriptSaveOptionProps {
+  messageCount: number;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+  className?: string;
+}
+
+// Offered after a call that used in-call chat; saved only if the connection is accepted
+export function TranscriptSaveOption({ messageCount, checked, onCheckedChange, className }: TranscriptSaveOptionProps) {
+  if (messageCount === 0) return null;
+
+  return (
+    <label className={cn("flex items-center justify-center gap-3 cursor-pointer font-poppins text-sm text-foreground", className)}>
+      <Checkbox checked={checked} onCheckedChange={(value) => onCheckedChange(value === true)} />
+      <MessageCircle className="w-4 h-4 text-primary" />
+      Save our in-call chat ({messageCount} {messageCount === 1 ? "message" : "messages"})
+    </label>
+  );
+}
@@ -2,20 +2,35 @@ import { useState, useEffect } from "react";
 import { useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ReactionButton } from "./ReactionButton";
 import { ReactionEffect } from "./ReactionEffect";
 import { useToast } from "@/hooks/use-toast";
-import { WebRTCService } from "@/services/webrtcService";
-import { callMatchingService } from "@/services/callMatchingService";
+import { MatchingStatus } from "@/hooks/useMatching";
+import { MatchingWidenStep } from "@/services/matchingService";
+import { WidenSearchPrompt } from "@/components/Match/WidenSearchPrompt";
+import { SignalStrengthIndicator } from "./SignalStrengthIndicator";
+import { useCallQuality } from "@/hooks/useCallQuality";
+import { useCallConnection } from "@/hooks/useCallConnection";
+import { useContinueVote } from "@/hooks/useContinueVote";
+import { useCallReactions } from "@/hooks/useCallReactions";
+import { useInCallChat } from "@/hooks/useInCallChat";
+import { InCallChatMessage } from "@/services/callMessages";
+import { SpendCoins, RefundCallCoins } from "@/services/walletService";
+import { CONTINUE_PROMPT_AT_SECONDS } from "@/config/callContinuation";
+import { ContinueCallDialog } from "./ContinueCallDialog";
+import { InCallChatPanel } from "./InCallChatPanel";
+import { DeviceSettingsDialog } from "./DeviceSettingsDialog";
+import { MediaDeviceService } from "@/services/mediaDeviceService";
 import { 
   PhoneOff, 
   Mic, 
   MicOff, 
   Camera, 
   CameraOff, 
-  RotateCcw,
+  SwitchCamera,
+  Settings,
   Flag,
+  Ban,
   Heart,
   ArrowLeft,
   Clock,
@@ -30,13 +45,21 @@ interface VideoCallScreenProps {
   onBlock: () => void;
   onBack?: () => void;
   coinBalance?: number;
-  onSpendCoins?: (amount: number) => void;
+  onSpendCoins?: SpendCoins;
+  onRefundCallCoins?: RefundCallCoins;
   userProfile?: {
     username: string;
     gender: 'male' | 'female' | 'other';
     matchPreference: 'anyone' | 'men' | 'women';
   };
   isPremium?: boolean;
+  matchStatus?: MatchingStatus;
+  callId?: string | null;
+  partnerId?: string | null;
+  widenSuggestion?: MatchingWidenStep | null;
+  onAcceptWiden?: () => void;
+  onDeclineWiden?: () => void;
+  onTranscriptChange?: (messages: InCallChatMessage[]) => void;
 }
 
 export function VideoCallScreen({ 
@@ -47,21 +70,53 @@ export function VideoCallScreen({
   onBack,
   coinBalance = 100,
   onSpendCoins,
+  onRefundCallCoins,
   userProfile,
-  isPremium = false
+  isPremium = false,
+  matchStatus = 'searching',
+  callId,
+  partnerId,
+  widenSuggestion,
+  onAcceptWiden,
+  onDeclineWiden,
+  onTranscriptChange
 }: VideoCallScreenProps) {
   const [callDuration, setCallDuration] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
   const [isCameraOff, setIsCameraOff] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'searching' | 'connecting' | 'connected' | 'failed'>('searching');
-  const [showContinueDialog, setShowContinueDialog] = useState(false);
-  const [userWantsToContinue, setUserWantsToContinue] = useState<boolean | null>(null);
-  const [partnerWantsToContinue, setPartnerWantsToContinue] = useState<boolean | null>(null);
-  const [waitingForPartner, setWaitingForPartner] = useState(false);
-  const [activeReactions, setActiveReactions] = useState<Array<{ id: string; reaction: string }>>([]);
   const [showReactions, setShowReactions] = useState(false);
-  const [webrtcService, setWebrtcService] = useState<WebRTCService | null>(null);
-  const [partnerInfo, setPartnerInfo] = useState<{ username: string; gender: string } | null>(null);
+  const {
+    service: webrtcService,
+    connectionStatus,
+    localStream,
+    remoteStream,
+    endCall: handleCallEnd
+  } = useCallConnection({
+    userId: userProfile?.username,
+    callId,
+    callType: 'video',
+    matchStatus,
+    onEndCall
+  });
+  const { sample: qualitySample, signalStrength } = useCallQuality(webrtcService);
+  const { activeReactions, sendReaction, handleReactionComplete } = useCallReactions({
+    service: webrtcService,
+    coinBalance,
+    onSpendCoins
+  });
+  const inCallChat = useInCallChat({ service: webrtcService, onTranscriptChange });
+  const continueVote = useContinueVote({
+    service: webrtcService,
+    callDuration,
+    isPremium,
+    coinBalance,
+    onSpendCoins,
+    onRefundCallCoins,
+    onEndCall: handleCallEnd
+  });
+  const [isVideoPaused, setIsVideoPaused] = useState(false);
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  const [audioOutputId, setAudioOutputId] = useState<string | null>(() => MediaDeviceService.getPreferredDevice('audiooutput'));
   
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
@@ -76,149 +131,46 @@ export function VideoCallScreen({
     { emoji: "🔥", label: "Fire", cost: 2 },
   ];
   
-  // Initialize WebRTC service and start matching
+  // The service pauses our video when the link can't carry it
   useEffect(() => {
-    if (!userProfile) return;
+    if (!webrtcService) return;
 
-    const initializeCall = async () => {
-      try {
-        setConnectionStatus('searching');
-        
-        // Create WebRTC service instance
-        const service = new WebRTCService(`user-${Date.now()}`);
-        setWebrtcService(service);
-
-        // Set up event handlers
-        service.onRemoteStream = (stream: MediaStream) => {
-          console.log('Remote stream received:', stream);
-          if (remoteVideoRef.current) {
-            remoteVideoRef.current.srcObject = stream;
-          }
-        };
-
-        service.onConnectionEstablished = () => {
-          console.log('WebRTC connection established');
-          setConnectionStatus('connected');
-          toast({
-            title: "Connected! 🎉",
-            description: "You're now connected with your match.",
-          });
-        };
-
-        service.onCallEnded = () => {
-          console.log('Call ended by remote peer');
-          onEndCall();
-        };
-
-        service.onError = (error: string) => {
-          console.error('WebRTC error:', error);
-          setConnectionStatus('failed');
-          toast({
-            title: "Connection Error",
-            description: error,
-            variant: "destructive"
-          });
-        };
-
-        // Start call matching
-        const matchingRequestId = await callMatchingService.startMatching(
-          userProfile.username,
-          userProfile.gender,
-          userProfile.matchPreference,
-          isPremium,
-          'video'
-        );
-
-        // Set up matching event handlers
-        callMatchingService.onMatchFound = async (callId: string, partnerId: string) => {
-          try {
-            console.log('Match found, joining call:', callId);
-            setConnectionStatus('connecting');
-            setPartnerInfo({ username: partnerId, gender: 'unknown' });
-            
-            // Join the WebRTC call
-            await service.joinCall(callId, 'video');
-            
-            // Get local stream and set it to video element
-            const localStream = service.getLocalStream();
-            if (localStream && localVideoRef.current) {
-              localVideoRef.current.srcObject = localStream;
-            }
-          } catch (error) {
-            console.error('Failed to join call:', error);
-            setConnectionStatus('failed');
-          }
-        };
-        
-      } catch (error) {
-        console.error('Failed to initialize call:', error);
-        setConnectionStatus('failed');
-        toast({
-          title: "Initialization failed",
-          description: "Failed to start video call. Please try again.",
-          variant: "destructive"
-        });
-      }
+    webrtcService.onVideoQualityChange = (level) => {
+      setIsVideoPaused(!level.videoEnabled);
     };
+  }, [webrtcService]);
 
-    initializeCall();
+  useEffect(() => {
+    if (localStream && localVideoRef.current) {
+      localVideoRef.current.srcObject = localStream;
+    }
+  }, [localStream]);
 
-    // Cleanup on unmount
-    return () => {
-      if (webrtcService) {
-        webrtcService.endCall();
-      }
-      callMatchingService.onMatchFound = undefined;
-    };
-  }, [userProfile, toast, onEndCall, isPremium]);
+  // The remote video only mounts once connected, so attach whenever either changes
+  useEffect(() => {
+    if (remoteStream && remoteVideoRef.current) {
+      remoteVideoRef.current.srcObject = remoteStream;
+    }
+  }, [remoteStream, connectionStatus]);
+
+  // Play the partner through the chosen speaker once their video is on screen
+  useEffect(() => {
+    if (audioOutputId && remoteVideoRef.current) {
+      MediaDeviceService.applyAudioOutput(remoteVideoRef.current, audioOutputId);
+    }
+  }, [audioOutputId, connectionStatus]);
 
   // Call duration timer
   useEffect(() => {
     let interval: NodeJS.Timeout;
     if (connectionStatus === 'connected') {
       interval = setInterval(() => {
-        setCallDuration(prev => {
-          const newDuration = prev + 1;
-          
-          // Show continuation dialog at 7 minutes (420 seconds)
-          if (newDuration === 420) {
-            setShowContinueDialog(true);
-          }
-          
-          return newDuration;
-        });
+        setCallDuration(prev => prev + 1);
       }, 1000);
     }
     return () => clearInterval(interval);
   }, [connectionStatus]);
 
-  useEffect(() => {
-    // Simulate partner's response after user makes their choice
-    if (userWantsToContinue !== null && partnerWantsToContinue === null) {
-      setWaitingForPartner(true);
-      // Simulate partner response after 2-5 seconds
-      const timeout = setTimeout(() => {
-        const partnerResponse = Math.random() > 0.3; // 70% chance partner wants to continue
-        setPartnerWantsToContinue(partnerResponse);
-        setWaitingForPartner(false);
-        
-        if (!userWantsToContinue || !partnerResponse) {
-          // If either user doesn't want to continue, end the call
-          setTimeout(() => {
-            onEndCall();
-          }, 1500);
-        } else {
-          // Both want to continue, close dialog and continue call
-          setShowContinueDialog(false);
-          setUserWantsToContinue(null);
-          setPartnerWantsToContinue(null);
-        }
-      }, 2000 + Math.random() * 3000);
-      
-      return () => clearTimeout(timeout);
-    }
-  }, [userWantsToContinue, partnerWantsToContinue, onEndCall]);
-
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -226,41 +178,17 @@ export function VideoCallScreen({
   };
 
   const getTimeColor = () => {
-    if (callDuration >= 420) return "text-red-400"; // After 7 minutes
-    if (callDuration >= 360) return "text-yellow-400"; // Last minute warning
+    if (callDuration >= CONTINUE_PROMPT_AT_SECONDS) return "text-red-400";
+    if (callDuration >= CONTINUE_PROMPT_AT_SECONDS - 60) return "text-yellow-400"; // Last minute warning
     return "text-white";
   };
 
-  const handleContinueChoice = (wantsToContinue: boolean) => {
-    setUserWantsToContinue(wantsToContinue);
-  };
-
-  const handleReaction = (reaction: string, cost: number) => {
-    if (coinBalance < cost) {
-      toast({
-        title: "Not enough coins",
-        description: `You need ${cost} coins to send this reaction.`,
-        variant: "destructive"
-      });
-      return;
+  // Hang up before blocking, so the partner's side ends the call too
+  const handleBlock = async () => {
+    if (webrtcService) {
+      await webrtcService.endCall();
     }
-
-    // Spend coins
-    onSpendCoins?.(cost);
-    
-    // Add reaction effect
-    const reactionId = Date.now().toString();
-    setActiveReactions(prev => [...prev, { id: reactionId, reaction }]);
-    
-    // Show success toast
-    toast({
-      title: "Reaction sent! ✨",
-      description: `${reaction} sent for ${cost} coins`,
-    });
-  };
-
-  const handleReactionComplete = (reactionId: string) => {
-    setActiveReactions(prev => prev.filter(r => r.id !== reactionId));
+    onBlock();
   };
 
   const handleToggleAudio = () => {
@@ -277,11 +205,18 @@ export function VideoCallScreen({
     }
   };
 
-  const handleCallEnd = async () => {
-    if (webrtcService) {
-      await webrtcService.endCall();
+  const handleSwitchCamera = async () => {
+    if (!webrtcService) return;
+
+    try {
+      await webrtcService.switchCamera();
+    } catch (error: unknown) {
+      toast({
+        title: "Couldn't switch camera",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
     }
-    onEndCall();
   };
 
   const getStatusMessage = () => {
@@ -291,9 +226,11 @@ export function VideoCallScreen({
       case 'connecting':
         return 'Connecting to your match...';
       case 'connected':
-        return partnerInfo?.username || 'Connected User';
+        return partnerId || 'Connected User';
+      case 'reconnecting':
+        return 'Reconnecting…';
       case 'failed':
-        return 'Connection failed';
+        return matchStatus === 'timeout' ? 'No matches found' : 'Connection failed';
       default:
         return 'Connecting...';
     }
@@ -316,7 +253,7 @@ export function VideoCallScreen({
         <div className="relative h-full flex flex-col">
           {/* Remote Video */}
           <div className="flex-1 bg-gradient-to-br from-primary/20 to-secondary/20 flex items-center justify-center p-4">
-            {connectionStatus !== 'connected' ? (
+            {connectionStatus !== 'connected' && connectionStatus !== 'reconnecting' ? (
               <div className="text-center text-white">
                 <div className="animate-spin w-10 h-10 sm:w-12 sm:h-12 border-4 border-white/30 border-t-white rounded-full mx-auto mb-3 sm:mb-4"></div>
                 <p className="font-poppins text-sm sm:text-base">{getStatusMessage()}</p>
@@ -325,6 +262,14 @@ export function VideoCallScreen({
                     {isPremium ? 'Finding targeted matches...' : 'Random matching in progress...'}
                   </p>
                 )}
+                {connectionStatus === 'searching' && widenSuggestion && (
+                  <WidenSearchPrompt
+                    step={widenSuggestion}
+                    callType="video"
+                    onAccept={() => onAcceptWiden?.()}
+                    onDecline={() => onDeclineWiden?.()}
+                  />
+                )}
               </div>
             ) : (
               <div className="w-full h-full relative">
@@ -344,6 +289,16 @@ export function VideoCallScreen({
                     <p className="text-white/80 font-poppins text-sm sm:text-base">Connected via WebRTC</p>
                   </div>
                 </div>
+                {/* Keep the video mounted while the connection recovers */}
+                {connectionStatus === 'reconnecting' && (
+                  <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+                    <div className="text-center text-white">
+                      <Loader2 className="w-10 h-10 sm:w-12 sm:h-12 animate-spin mx-auto mb-3" />
+                      <p className="font-poppins text-sm sm:text-base">{getStatusMessage()}</p>
+                      <p className="font-poppins text-xs text-white/70 mt-2">Hang tight, your network changed</p>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -370,7 +325,7 @@ export function VideoCallScreen({
                         label={reaction.label}
                         cost={reaction.cost}
                         coinBalance={coinBalance}
-                        onReact={handleReaction}
+                        onReact={sendReaction}
                       />
                     ))}
                   </div>
@@ -416,8 +371,38 @@ export function VideoCallScreen({
                 </p>
               </div>
             </Card>
+            {(connectionStatus === 'connected' || connectionStatus === 'reconnecting') && (
+              <SignalStrengthIndicator strength={signalStrength} sample={qualitySample} />
+            )}
+            {webrtcService && (
+              <Button
+                onClick={() => setShowDeviceSettings(true)}
+                variant="outline"
+                size="icon"
+                className="w-10 h-10 sm:w-12 sm:h-12 rounded-full bg-black/50 border-white/30 text-white hover:bg-black/70"
+              >
+                <Settings className="w-4 h-4 sm:w-5 sm:h-5" />
+              </Button>
+            )}
+            {connectionStatus === 'connected' && isVideoPaused && (
+              <Card className="bg-black/50 border-white/20 rounded-lg sm:rounded-xl border-0">
+                <p className="px-2 sm:px-3 py-1 sm:py-2 text-xs sm:text-sm text-white font-poppins">Weak connection · audio only</p>
+              </Card>
+            )}
           </div>
 
+          {/* In-call Chat */}
+          {(connectionStatus === 'connected' || connectionStatus === 'reconnecting') && (
+            <div className="absolute bottom-28 sm:bottom-32 md:bottom-36 left-3 sm:left-4 md:left-6 z-10">
+              <InCallChatPanel
+                messages={inCallChat.messages}
+                partnerTyping={inCallChat.partnerTyping}
+                onSend={inCallChat.sendMessage}
+                onTyping={inCallChat.setTyping}
+              />
+            </div>
+          )}
+
           {/* Controls - Responsive sizing and spacing */}
           <div className="absolute bottom-8 sm:bottom-10 md:bottom-12 left-0 right-0 px-4 sm:px-6">
             <div className="flex items-center justify-center space-x-3 sm:space-x-4 md:space-x-6">
@@ -464,96 +449,38 @@ export function VideoCallScreen({
               </Button>
 
               <Button
-                onClick={() => {
-                  // Restart the matching process
-                  window.location.reload();
-                }}
+                onClick={handleBlock}
+                disabled={!partnerId}
                 variant="outline"
                 size="icon"
                 className="w-12 h-12 sm:w-14 sm:h-14 md:w-16 md:h-16 rounded-full bg-white/20 border-white/30 text-white hover:bg-white/30"
               >
-                <RotateCcw className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6" />
+                <Ban className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6" />
+              </Button>
+
+              <Button
+                onClick={handleSwitchCamera}
+                disabled={!webrtcService || isCameraOff}
+                variant="outline"
+                size="icon"
+                className="w-12 h-12 sm:w-14 sm:h-14 md:w-16 md:h-16 rounded-full bg-white/20 border-white/30 text-white hover:bg-white/30"
+              >
+                <SwitchCamera className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6" />
               </Button>
             </div>
           </div>
         </div>
       </div>
 
-      {/* Continue Call Dialog */}
-      <Dialog open={showContinueDialog} onOpenChange={() => {}}>
-        <DialogContent className="max-w-md p-0 overflow-hidden" hideCloseButton>
-          <div className="bg-gradient-primary text-white p-6 text-center">
-            <Clock className="w-16 h-16 mx-auto mb-4 animate-float" />
-            <DialogHeader>
-              <DialogTitle className="text-2xl font-bold text-white">
-                7 Minutes Complete!
-              </DialogTitle>
-            </DialogHeader>
-            <p className="text-white/90 font-poppins">Would you like to continue this conversation?</p>
-          </div>
+      <DeviceSettingsDialog
+        open={showDeviceSettings}
+        onOpenChange={setShowDeviceSettings}
+        service={webrtcService}
+        audioOutputId={audioOutputId}
+        onAudioOutputChange={setAudioOutputId}
+      />
 
-          <div className="p-6">
-            {userWantsToContinue === null ? (
-              <div className="space-y-4">
-                <p className="text-center text-foreground font-poppins mb-6">
-                  Choose if you want to continue chatting with this person
-                </p>
-                <div className="flex gap-4">
-                  <Button
-                    onClick={() => handleContinueChoice(false)}
-                    variant="outline"
-                    className="flex-1 h-12 rounded-xl font-poppins"
-                  >
-                    End Call
-                  </Button>
-                  <Button
-                    onClick={() => handleContinueChoice(true)}
-                    variant="gradient"
-                    className="flex-1 h-12 rounded-xl font-poppins"
-                  >
-                    Continue
-                  </Button>
-                </div>
-              </div>
-            ) : waitingForPartner ? (
-              <div className="text-center space-y-4">
-                <div className="animate-spin w-8 h-8 border-4 border-primary/30 border-t-primary rounded-full mx-auto"></div>
-                <p className="text-foreground font-poppins">
-                  {userWantsToContinue 
-                    ? "Waiting for the other person to decide..." 
-                    : "Ending call..."
-                  }
-                </p>
-              </div>
-            ) : (
-              <div className="text-center space-y-4">
-                {userWantsToContinue && partnerWantsToContinue ? (
-                  <>
-                    <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto">
-                      <Heart className="w-8 h-8 text-green-600" />
-                    </div>
-                    <p className="text-foreground font-poppins font-semibold">
-                      Great! Both of you want to continue. Enjoy your conversation! 💕
-                    </p>
-                  </>
-                ) : (
-                  <>
-                    <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto">
-                      <PhoneOff className="w-8 h-8 text-gray-600" />
-                    </div>
-                    <p className="text-foreground font-poppins">
-                      {!userWantsToContinue 
-                        ? "You chose to end the call. Redirecting to profile view..."
-                        : "The other person chose to end the call. Redirecting to profile view..."
-                      }
-                    </p>
-                  </>
-                )}
-              </div>
-            )}
-          </div>
-        </DialogContent>
-      </Dialog>
+      <ContinueCallDialog vote={continueVote} callType="video" />
     </>
   );
 }
\ No newline at end of file
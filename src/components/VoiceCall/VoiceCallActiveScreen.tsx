@@ -1,22 +1,40 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ReactionButton } from "../VideoChat/ReactionButton";
 import { ReactionEffect } from "../VideoChat/ReactionEffect";
 import { useToast } from "@/hooks/use-toast";
+import { MatchingWidenStep } from "@/services/matchingService";
+import { WidenSearchPrompt } from "@/components/Match/WidenSearchPrompt";
+import { SignalStrengthIndicator } from "../VideoChat/SignalStrengthIndicator";
+import { useCallQuality } from "@/hooks/useCallQuality";
+import { useCallConnection } from "@/hooks/useCallConnection";
+import { useContinueVote } from "@/hooks/useContinueVote";
+import { useCallReactions } from "@/hooks/useCallReactions";
+import { useInCallChat } from "@/hooks/useInCallChat";
+import { InCallChatMessage } from "@/services/callMessages";
+import { SpendCoins, RefundCallCoins } from "@/services/walletService";
+import { CONTINUE_PROMPT_AT_SECONDS } from "@/config/callContinuation";
+import { ContinueCallDialog } from "../VideoChat/ContinueCallDialog";
+import { InCallChatPanel } from "../VideoChat/InCallChatPanel";
+import { MatchingStatus } from "@/hooks/useMatching";
+import { DeviceSettingsDialog } from "../VideoChat/DeviceSettingsDialog";
+import { MediaDeviceService } from "@/services/mediaDeviceService";
 import { 
   PhoneOff, 
   Mic, 
   MicOff, 
   RotateCcw,
   Flag,
+  Ban,
   Heart,
   ArrowLeft,
   Volume2,
   VolumeX,
   Clock,
-  Sparkles
+  Sparkles,
+  Settings,
+  Loader2
 } from "lucide-react";
 
 interface VoiceCallActiveScreenProps {
@@ -26,7 +44,21 @@ interface VoiceCallActiveScreenProps {
   onBlock: () => void;
   onBack?: () => void;
   coinBalance?: number;
-  onSpendCoins?: (amount: number) => void;
+  onSpendCoins?: SpendCoins;
+  onRefundCallCoins?: RefundCallCoins;
+  userProfile?: {
+    username: string;
+    gender: 'male' | 'female' | 'other';
+    matchPreference: 'anyone' | 'men' | 'women';
+  };
+  isPremium?: boolean;
+  matchStatus?: MatchingStatus;
+  callId?: string | null;
+  partnerId?: string | null;
+  widenSuggestion?: MatchingWidenStep | null;
+  onAcceptWiden?: () => void;
+  onDeclineWiden?: () => void;
+  onTranscriptChange?: (messages: InCallChatMessage[]) => void;
 }
 
 export function VoiceCallActiveScreen({ 
@@ -36,18 +68,57 @@ export function VoiceCallActiveScreen({
   onBlock, 
   onBack,
   coinBalance = 100,
-  onSpendCoins
+  onSpendCoins,
+  onRefundCallCoins,
+  userProfile,
+  isPremium = false,
+  matchStatus = 'searching',
+  callId,
+  partnerId,
+  widenSuggestion,
+  onAcceptWiden,
+  onDeclineWiden,
+  onTranscriptChange
 }: VoiceCallActiveScreenProps) {
   const [callDuration, setCallDuration] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
   const [isSpeakerOn, setIsSpeakerOn] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [showContinueDialog, setShowContinueDialog] = useState(false);
-  const [userWantsToContinue, setUserWantsToContinue] = useState<boolean | null>(null);
-  const [partnerWantsToContinue, setPartnerWantsToContinue] = useState<boolean | null>(null);
-  const [waitingForPartner, setWaitingForPartner] = useState(false);
-  const [activeReactions, setActiveReactions] = useState<Array<{ id: string; reaction: string }>>([]);
+  const [speakerphoneId, setSpeakerphoneId] = useState<string | null>(null);
   const [showReactions, setShowReactions] = useState(false);
+  const {
+    service: webrtcService,
+    connectionStatus,
+    remoteStream,
+    endCall: handleCallEnd
+  } = useCallConnection({
+    userId: userProfile?.username,
+    callId,
+    callType: 'voice',
+    matchStatus,
+    onEndCall
+  });
+  const { sample: qualitySample, signalStrength } = useCallQuality(webrtcService);
+  const { activeReactions, sendReaction, handleReactionComplete } = useCallReactions({
+    service: webrtcService,
+    coinBalance,
+    onSpendCoins
+  });
+  const inCallChat = useInCallChat({ service: webrtcService, onTranscriptChange });
+  const continueVote = useContinueVote({
+    service: webrtcService,
+    callDuration,
+    isPremium,
+    coinBalance,
+    onSpendCoins,
+    onRefundCallCoins,
+    onEndCall: handleCallEnd
+  });
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  const [audioOutputId, setAudioOutputId] = useState<string | null>(() => MediaDeviceService.getPreferredDevice('audiooutput'));
+  const isConnected = connectionStatus === 'connected' || connectionStatus === 'reconnecting';
+
+  // Kept mounted for the whole call so the partner is audible as soon as their track arrives
+  const remoteAudioRef = useRef<HTMLAudioElement>(null);
   const { toast } = useToast();
 
   const reactions = [
@@ -58,58 +129,37 @@ export function VoiceCallActiveScreen({
     { emoji: "🔥", label: "Fire", cost: 2 },
     { emoji: "✨", label: "Sparkle", cost: 2 },
   ];
+
+  useEffect(() => {
+    if (remoteStream && remoteAudioRef.current) {
+      remoteAudioRef.current.srcObject = remoteStream;
+    }
+  }, [remoteStream]);
+
+  // Speakerphone only exists as a separate output on some phones; elsewhere the button is inert
+  useEffect(() => {
+    MediaDeviceService.findSpeakerphone()
+      .then(setSpeakerphoneId)
+      .catch((error) => console.error('Failed to look up speakerphone:', error));
+  }, [isConnected]);
+
   useEffect(() => {
-    // Simulate connection
-    const timer = setTimeout(() => setIsConnected(true), 2000);
-    return () => clearTimeout(timer);
-  }, []);
+    if (!remoteAudioRef.current) return;
+
+    const outputId = isSpeakerOn && speakerphoneId ? speakerphoneId : audioOutputId ?? '';
+    MediaDeviceService.applyAudioOutput(remoteAudioRef.current, outputId);
+  }, [isSpeakerOn, speakerphoneId, audioOutputId]);
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
     if (isConnected) {
       interval = setInterval(() => {
-        setCallDuration(prev => {
-          const newDuration = prev + 1;
-          
-          // Show continuation dialog at 7 minutes (420 seconds)
-          if (newDuration === 420) {
-            setShowContinueDialog(true);
-          }
-          
-          return newDuration;
-        });
+        setCallDuration(prev => prev + 1);
       }, 1000);
     }
     return () => clearInterval(interval);
   }, [isConnected]);
 
-  useEffect(() => {
-    // Simulate partner's response after user makes their choice
-    if (userWantsToContinue !== null && partnerWantsToContinue === null) {
-      setWaitingForPartner(true);
-      // Simulate partner response after 2-5 seconds
-      const timeout = setTimeout(() => {
-        const partnerResponse = Math.random() > 0.3; // 70% chance partner wants to continue
-        setPartnerWantsToContinue(partnerResponse);
-        setWaitingForPartner(false);
-        
-        if (!userWantsToContinue || !partnerResponse) {
-          // If either user doesn't want to continue, end the call
-          setTimeout(() => {
-            onEndCall();
-          }, 1500);
-        } else {
-          // Both want to continue, close dialog and continue call
-          setShowContinueDialog(false);
-          setUserWantsToContinue(null);
-          setPartnerWantsToContinue(null);
-        }
-      }, 2000 + Math.random() * 3000);
-      
-      return () => clearTimeout(timeout);
-    }
-  }, [userWantsToContinue, partnerWantsToContinue, onEndCall]);
-
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -117,46 +167,56 @@ export function VoiceCallActiveScreen({
   };
 
   const getTimeColor = () => {
-    if (callDuration >= 420) return "text-red-400"; // After 7 minutes
-    if (callDuration >= 360) return "text-yellow-400"; // Last minute warning
+    if (callDuration >= CONTINUE_PROMPT_AT_SECONDS) return "text-red-400";
+    if (callDuration >= CONTINUE_PROMPT_AT_SECONDS - 60) return "text-yellow-400"; // Last minute warning
     return "text-white";
   };
 
-  const handleContinueChoice = (wantsToContinue: boolean) => {
-    setUserWantsToContinue(wantsToContinue);
+  // Hang up before blocking, so the partner's side ends the call too
+  const handleBlock = async () => {
+    if (webrtcService) {
+      await webrtcService.endCall();
+    }
+    onBlock();
+  };
+
+  const handleToggleAudio = () => {
+    if (webrtcService) {
+      const isEnabled = webrtcService.toggleAudio();
+      setIsMuted(!isEnabled);
+    }
   };
 
-  const handleReaction = (reaction: string, cost: number) => {
-    if (coinBalance < cost) {
+  const handleToggleSpeaker = () => {
+    if (!speakerphoneId) {
       toast({
-        title: "Not enough coins",
-        description: `You need ${cost} coins to send this reaction.`,
-        variant: "destructive"
+        title: "Speaker not available",
+        description: "Your browser doesn't let us switch speakers. Use your device's audio controls instead.",
       });
       return;
     }
 
-    // Spend coins
-    onSpendCoins?.(cost);
-    
-    // Add reaction effect
-    const reactionId = Date.now().toString();
-    setActiveReactions(prev => [...prev, { id: reactionId, reaction }]);
-    
-    // Show success toast
-    toast({
-      title: "Reaction sent! ✨",
-      description: `${reaction} sent for ${cost} coins`,
-    });
+    setIsSpeakerOn(!isSpeakerOn);
   };
 
-  const handleReactionComplete = (reactionId: string) => {
-    setActiveReactions(prev => prev.filter(r => r.id !== reactionId));
+  const getStatusMessage = () => {
+    switch (connectionStatus) {
+      case 'searching':
+        return 'Finding someone to talk to...';
+      case 'connecting':
+        return 'Connecting to voice chat...';
+      case 'failed':
+        return matchStatus === 'timeout' ? 'No matches found' : 'Connection failed';
+      default:
+        return 'Connecting...';
+    }
   };
 
   return (
     <>
       <div className="fixed inset-0 bg-gradient-to-br from-primary/20 to-secondary/20 z-50 safe-area-top safe-area-bottom">
+        <audio ref={remoteAudioRef} autoPlay className="hidden" />
+
         {/* Reaction Effects */}
         {activeReactions.map(({ id, reaction }) => (
           <ReactionEffect
@@ -189,6 +249,19 @@ export function VoiceCallActiveScreen({
                 </p>
               </div>
             </Card>
+            {isConnected && (
+              <SignalStrengthIndicator strength={signalStrength} sample={qualitySample} />
+            )}
+            {isConnected && (
+              <Button
+                onClick={() => setShowDeviceSettings(true)}
+                variant="outline"
+                size="icon"
+                className="w-10 h-10 sm:w-12 sm:h-12 rounded-full bg-black/50 border-white/30 text-white hover:bg-black/70"
+              >
+                <Settings className="w-4 h-4 sm:w-5 sm:h-5" />
+              </Button>
+            )}
           </div>
 
           {/* Reaction Panel */}
@@ -213,7 +286,7 @@ export function VoiceCallActiveScreen({
                         label={reaction.label}
                         cost={reaction.cost}
                         coinBalance={coinBalance}
-                        onReact={handleReaction}
+                        onReact={sendReaction}
                       />
                     ))}
                   </div>
@@ -227,7 +300,20 @@ export function VoiceCallActiveScreen({
             {!isConnected ? (
               <div className="text-center text-white">
                 <div className="animate-spin w-10 h-10 sm:w-12 sm:h-12 border-4 border-white/30 border-t-white rounded-full mx-auto mb-3 sm:mb-4"></div>
-                <p className="font-poppins text-sm sm:text-base">Connecting to voice chat...</p>
+                <p className="font-poppins text-sm sm:text-base">{getStatusMessage()}</p>
+                {connectionStatus === 'searching' && (
+                  <p className="font-poppins text-xs text-white/70 mt-2">
+                    {isPremium ? 'Finding targeted matches...' : 'Random matching in progress...'}
+                  </p>
+                )}
+                {connectionStatus === 'searching' && widenSuggestion && (
+                  <WidenSearchPrompt
+                    step={widenSuggestion}
+                    callType="voice"
+                    onAccept={() => onAcceptWiden?.()}
+                    onDecline={() => onDeclineWiden?.()}
+                  />
+                )}
               </div>
             ) : (
               <div className="text-center text-white">
@@ -237,7 +323,15 @@ export function VoiceCallActiveScreen({
                   </div>
                 </div>
                 <h2 className="text-xl sm:text-2xl md:text-3xl font-bold mb-2 font-dancing">Voice Chat Active</h2>
-                <p className="text-white/80 font-poppins text-sm sm:text-base">Connected with someone new</p>
+                <p className="text-white/80 font-poppins text-sm sm:text-base">
+                  {partnerId ? `Connected with ${partnerId}` : 'Connected with someone new'}
+                </p>
+                {connectionStatus === 'reconnecting' && (
+                  <div className="flex items-center justify-center gap-2 mt-3 text-white/90">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <p className="font-poppins text-sm">Reconnecting…</p>
+                  </div>
+                )}
                 
                 {/* Audio Visualization */}
                 <div className="flex items-center justify-center gap-1 mt-4 sm:mt-6">
@@ -257,11 +351,23 @@ export function VoiceCallActiveScreen({
             )}
           </div>
 
+          {/* In-call Chat */}
+          {isConnected && (
+            <div className="absolute bottom-28 sm:bottom-32 md:bottom-36 left-3 sm:left-4 md:left-6 z-10">
+              <InCallChatPanel
+                messages={inCallChat.messages}
+                partnerTyping={inCallChat.partnerTyping}
+                onSend={inCallChat.sendMessage}
+                onTyping={inCallChat.setTyping}
+              />
+            </div>
+          )}
+
           {/* Controls - Responsive sizing and spacing */}
           <div className="absolute bottom-8 sm:bottom-10 md:bottom-12 left-0 right-0 px-4 sm:px-6">
             <div className="flex items-center justify-center space-x-3 sm:space-x-4 md:space-x-6">
               <Button
-                onClick={() => setIsMuted(!isMuted)}
+                onClick={handleToggleAudio}
                 variant={isMuted ? "destructive" : "outline"}
                 size="icon"
                 className="w-12 h-12 sm:w-14 sm:h-14 md:w-16 md:h-16 rounded-full bg-white/20 border-white/30 text-white hover:bg-white/30"
@@ -270,7 +376,7 @@ export function VoiceCallActiveScreen({
               </Button>
 
               <Button
-                onClick={() => setIsSpeakerOn(!isSpeakerOn)}
+                onClick={handleToggleSpeaker}
                 variant={isSpeakerOn ? "default" : "outline"}
                 size="icon"
                 className="w-12 h-12 sm:w-14 sm:h-14 md:w-16 md:h-16 rounded-full bg-white/20 border-white/30 text-white hover:bg-white/30"
@@ -279,7 +385,7 @@ export function VoiceCallActiveScreen({
               </Button>
 
               <Button
-                onClick={onEndCall}
+                onClick={handleCallEnd}
                 variant="destructive"
                 size="icon"
                 className="w-16 h-16 sm:w-18 sm:h-18 md:w-20 md:h-20 rounded-full animate-pulse-warm shadow-warm"
@@ -296,6 +402,16 @@ export function VoiceCallActiveScreen({
                 <Flag className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6" />
               </Button>
 
+              <Button
+                onClick={handleBlock}
+                disabled={!partnerId}
+                variant="outline"
+                size="icon"
+                className="w-12 h-12 sm:w-14 sm:h-14 md:w-16 md:h-16 rounded-full bg-white/20 border-white/30 text-white hover:bg-white/30"
+              >
+                <Ban className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6" />
+              </Button>
+
               <Button
                 onClick={onReconnect}
                 variant="outline"
@@ -309,81 +425,19 @@ export function VoiceCallActiveScreen({
         </div>
       </div>
 
-      {/* Continue Call Dialog */}
-      <Dialog open={showContinueDialog} onOpenChange={() => {}}>
-        <DialogContent className="max-w-md p-0 overflow-hidden" hideCloseButton>
-          <div className="bg-gradient-primary text-white p-6 text-center">
-            <Clock className="w-16 h-16 mx-auto mb-4 animate-float" />
-            <DialogHeader>
-              <DialogTitle className="text-2xl font-bold text-white">
-                7 Minutes Complete!
-              </DialogTitle>
-            </DialogHeader>
-            <p className="text-white/90 font-poppins">Would you like to continue this voice conversation?</p>
-          </div>
+      <DeviceSettingsDialog
+        open={showDeviceSettings}
+        onOpenChange={setShowDeviceSettings}
+        service={webrtcService}
+        showCamera={false}
+        audioOutputId={audioOutputId}
+        onAudioOutputChange={(deviceId) => {
+          setIsSpeakerOn(false);
+          setAudioOutputId(deviceId);
+        }}
+      />
 
-          <div className="p-6">
-            {userWantsToContinue === null ? (
-              <div className="space-y-4">
-                <p className="text-center text-foreground font-poppins mb-6">
-                  Choose if you want to continue talking with this person
-                </p>
-                <div className="flex gap-4">
-                  <Button
-                    onClick={() => handleContinueChoice(false)}
-                    variant="outline"
-                    className="flex-1 h-12 rounded-xl font-poppins"
-                  >
-                    End Call
-                  </Button>
-                  <Button
-                    onClick={() => handleContinueChoice(true)}
-                    variant="gradient"
-                    className="flex-1 h-12 rounded-xl font-poppins"
-                  >
-                    Continue
-                  </Button>
-                </div>
-              </div>
-            ) : waitingForPartner ? (
-              <div className="text-center space-y-4">
-                <div className="animate-spin w-8 h-8 border-4 border-primary/30 border-t-primary rounded-full mx-auto"></div>
-                <p className="text-foreground font-poppins">
-                  {userWantsToContinue 
-                    ? "Waiting for the other person to decide..." 
-                    : "Ending call..."
-                  }
-                </p>
-              </div>
-            ) : (
-              <div className="text-center space-y-4">
-                {userWantsToContinue && partnerWantsToContinue ? (
-                  <>
-                    <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto">
-                      <Heart className="w-8 h-8 text-green-600" />
-                    </div>
-                    <p className="text-foreground font-poppins font-semibold">
-                      Great! Both of you want to continue. Enjoy your conversation! 💕
-                    </p>
-                  </>
-                ) : (
-                  <>
-                    <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto">
-                      <PhoneOff className="w-8 h-8 text-gray-600" />
-                    </div>
-                    <p className="text-foreground font-poppins">
-                      {!userWantsToContinue 
-                        ? "You chose to end the call. Redirecting to profile view..."
-                        : "The other person chose to end the call. Redirecting to profile view..."
-                      }
-                    </p>
-                  </>
-                )}
-              </div>
-            )}
-          </div>
-        </DialogContent>
-      </Dialog>
+      <ContinueCallDialog vote={continueVote} callType="voice" />
     </>
   );
 }
\ No newline at end of file
@@ -14,7 +14,8 @@ interface VoiceCallScreenProps {
   onRequestUpgrade: () => void;
   onBack?: () => void;
   onBuyCoins?: () => void;
-  onSpendCoins: (amount: number) => void;
+  // Resolves to whether the coins were actually spent
+  onSpendCoins: (amount: number) => Promise<boolean>;
 }
 
 export function VoiceCallScreen({
@@ -29,8 +30,21 @@ export function VoiceCallScreen({
   onBuyCoins,
   onSpendCoins,
 }: VoiceCallScreenProps) {
+  const [isCharging, setIsCharging] = useState(false);
   const canMakeCall = isPremium || hasUnlimitedCalls || coinBalance >= 20;
 
+  // Paid calls only start once the server has taken the coins
+  const chargeAndStartCall = async () => {
+    setIsCharging(true);
+    try {
+      if (await onSpendCoins(20)) {
+        onStartCall();
+      }
+    } finally {
+      setIsCharging(false);
+    }
+  };
+
   const handleStartCall = () => {
     if (hasUnlimitedCalls) {
       // User has unlimited calls subscription
@@ -38,15 +52,13 @@ export function VoiceCallScreen({
     } else if (isPremium) {
       // Premium users still need to pay for voice calls unless they have unlimited
       if (coinBalance >= 20) {
-        onSpendCoins(20);
-        onStartCall();
+        chargeAndStartCall();
       } else {
         onBuyCoins?.();
       }
     } else if (coinBalance >= 20) {
       // Free users pay per call
-      onSpendCoins(20);
-      onStartCall();
+      chargeAndStartCall();
     } else {
       // Not enough coins
       onBuyCoins?.();
@@ -256,7 +268,7 @@ export function VoiceCallScreen({
         <div className="relative">
           <Button 
             onClick={handleStartCall}
-            disabled={!canMakeCall}
+            disabled={!canMakeCall || isCharging}
             className={`w-full h-20 font-poppins font-bold text-xl rounded-3xl shadow-2xl transition-all duration-300 relative overflow-hidden group ${
               canMakeCall 
                 ? "bg-gradient-to-r from-purple-500 via-pink-500 to-red-500 hover:from-purple-600 hover:via-pink-600 hover:to-red-600 text-white hover:scale-105 animate-pulse-warm" 
@@ -0,0 +1,13 @@
+// The "continue the call?" vote both peers answer partway through a call
+export const CONTINUE_PROMPT_AT_SECONDS = 420;
+
+// Time each side has to answer; no answer counts as ending the call
+export const CONTINUE_VOTE_SECONDS = 15;
+
+// Extra wait for the partner's vote, since the two call timers start slightly apart
+export const CONTINUE_VOTE_GRACE_SECONDS = 5;
+
+// Coins each side pays to keep talking; 0 makes continuing free for everyone
+export const CONTINUE_COST_COINS = Number(import.meta.env.VITE_CONTINUE_COST_COINS ?? 5);
+
+export const CONTINUE_FREE_FOR_PREMIUM = import.meta.env.VITE_CONTINUE_FREE_FOR_PREMIUM !== 'false';
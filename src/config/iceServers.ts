@@ -0,0 +1,16 @@
+// Used as-is when TURN credentials can't be fetched, so direct and STUN-assisted calls still work
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+  { urls: 'stun:stun3.l.google.com:19302' },
+  { urls: 'stun:stun4.l.google.com:19302' }
+];
+
+// Fetch fresh TURN credentials this long before the cached ones expire
+export const TURN_CREDENTIAL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Relay-only test mode sends every call through TURN. Enable it for a build with
+// VITE_WEBRTC_RELAY_ONLY=true, or on one device by setting this localStorage key to 'true'.
+export const RELAY_ONLY_STORAGE_KEY = 'webrtcRelayOnly';
+export const RELAY_ONLY_BY_DEFAULT = import.meta.env.VITE_WEBRTC_RELAY_ONLY === 'true';
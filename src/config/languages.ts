@@ -0,0 +1,17 @@
+// Spoken languages offered on the profile, used to pair people who can talk to each other
+export const SPOKEN_LANGUAGES = [
+  "Hindi", "English", "Bengali", "Marathi", "Telugu", "Tamil",
+  "Gujarati", "Urdu", "Kannada", "Odia", "Malayalam", "Punjabi",
+  "Assamese", "Konkani", "Bhojpuri"
+];
+
+// States and union territories, used as a soft matching preference
+export const INDIAN_REGIONS = [
+  "Andhra Pradesh", "Arunachal Pradesh", "Assam", "Bihar", "Chhattisgarh", "Goa",
+  "Gujarat", "Haryana", "Himachal Pradesh", "Jharkhand", "Karnataka", "Kerala",
+  "Madhya Pradesh", "Maharashtra", "Manipur", "Meghalaya", "Mizoram", "Nagaland",
+  "Odisha", "Punjab", "Rajasthan", "Sikkim", "Tamil Nadu", "Telangana", "Tripura",
+  "Uttar Pradesh", "Uttarakhand", "West Bengal", "Andaman and Nicobar Islands",
+  "Chandigarh", "Dadra and Nagar Haveli and Daman and Diu", "Delhi",
+  "Jammu and Kashmir", "Ladakh", "Lakshadweep", "Puducherry"
+];
@@ -0,0 +1,5 @@
+// WebRTC signaling configuration
+// Offer/answer and ICE exchange go through Firestore unless a WebSocket relay is configured
+export const SIGNALING_WS_URL: string = import.meta.env.VITE_SIGNALING_WS_URL ?? '';
+
+export const SIGNALING_TRANSPORT: 'firestore' | 'websocket' = SIGNALING_WS_URL ? 'websocket' : 'firestore';
@@ -0,0 +1,23 @@
+// Sending quality steps for video calls, best first. The adaptive controller
+// moves one step at a time based on live call stats.
+export interface VideoQualityLevel {
+  name: 'high' | 'medium' | 'low' | 'minimal' | 'audio-only';
+  videoEnabled: boolean;
+  maxBitrateKbps: number;
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+}
+
+export const VIDEO_QUALITY_LEVELS: VideoQualityLevel[] = [
+  { name: 'high', videoEnabled: true, maxBitrateKbps: 1500, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  { name: 'medium', videoEnabled: true, maxBitrateKbps: 800, scaleResolutionDownBy: 1.5, maxFramerate: 24 },
+  { name: 'low', videoEnabled: true, maxBitrateKbps: 350, scaleResolutionDownBy: 2, maxFramerate: 15 },
+  { name: 'minimal', videoEnabled: true, maxBitrateKbps: 150, scaleResolutionDownBy: 4, maxFramerate: 10 },
+  // Video paused; only used when even minimal video can't get through
+  { name: 'audio-only', videoEnabled: false, maxBitrateKbps: 0, scaleResolutionDownBy: 1, maxFramerate: 0 }
+];
+
+// Data saver never sends better than this level, and captures at a lower resolution
+export const DATA_SAVER_BEST_LEVEL = 'low';
+export const DATA_SAVER_CAPTURE = { width: 640, height: 360, frameRate: 15 };
+export const DATA_SAVER_STORAGE_KEY = 'dataSaver';
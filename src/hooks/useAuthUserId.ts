@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { AuthService } from '@/services/authService';
+
+// The signed-in user's Supabase auth ID, or null while signed out. This is the
+// one identity shared by matching, chat, presence, the wallet and payments;
+// display names can change and aren't unique.
+// The ID is only returned once Firestore is signed in as the same user, so
+// nothing reads or writes Firestore before the security rules can see who it is.
+export function useAuthUserId(): string | null {
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Sessions can change while a sign-in is in flight; only the latest counts
+    let latest = 0;
+
+    const apply = async (session: Session | null) => {
+      const attempt = ++latest;
+      try {
+        if (session) {
+          await AuthService.signInAsSupabaseUser(session.user.id);
+        } else {
+          await AuthService.signOut();
+        }
+        if (attempt === latest) setUserId(session?.user.id ?? null);
+      } catch (error) {
+        console.error('Failed to sign in to Firestore:', error);
+        if (attempt === latest) setUserId(null);
+      }
+    };
+
+    supabase.auth.getSession().then(({ data: { session } }) => apply(session));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      apply(session);
+    });
+
+    return () => {
+      latest++;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return userId;
+}
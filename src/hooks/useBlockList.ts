@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  UserRelationsService,
+  UserRelations,
+  EMPTY_USER_RELATIONS
+} from '@/services/userRelationsService';
+
+export function useBlockList(userId: string) {
+  const [relations, setRelations] = useState<UserRelations>(EMPTY_USER_RELATIONS);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!userId) {
+      setRelations(EMPTY_USER_RELATIONS);
+      return;
+    }
+
+    const unsubscribe = UserRelationsService.subscribeToRelations(userId, setRelations);
+    return () => unsubscribe();
+  }, [userId]);
+
+  // Read by the matcher when a search starts, so neither side of a block or a
+  // recent call is paired again. Recent meetings age out of the window with
+  // time alone, so this can't be worked out ahead of the search.
+  const getExcludedUserIds = useCallback(
+    () => UserRelationsService.getExcludedUserIds(relations),
+    [relations]
+  );
+
+  const blockUser = useCallback(async (targetUserId: string) => {
+    if (!userId || !targetUserId) return;
+
+    try {
+      await UserRelationsService.blockUser(userId, targetUserId);
+      toast({
+        title: "User blocked",
+        description: "You won't be matched with this user again.",
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Couldn't block user",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
+    }
+  }, [userId, toast]);
+
+  const unblockUser = useCallback(async (targetUserId: string) => {
+    if (!userId) return;
+
+    try {
+      await UserRelationsService.unblockUser(userId, targetUserId);
+      toast({
+        title: "User unblocked",
+        description: "You may be matched with this user again.",
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Couldn't unblock user",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
+    }
+  }, [userId, toast]);
+
+  const recordMeeting = useCallback((partnerId: string) => {
+    if (!userId || !partnerId) return;
+    UserRelationsService.recordMeeting(userId, partnerId);
+  }, [userId]);
+
+  return {
+    blockedUserIds: relations.blocked,
+    recentPartners: relations.recentlyMet,
+    getExcludedUserIds,
+    blockUser,
+    unblockUser,
+    recordMeeting
+  };
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef } from 'react';
+import { WebRTCService } from '@/services/webrtcService';
+import { MatchingStatus } from '@/hooks/useMatching';
+import { useToast } from '@/hooks/use-toast';
+
+export type CallConnectionStatus = 'searching' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+interface UseCallConnectionOptions {
+  userId?: string;
+  callId?: string | null;
+  callType: 'video' | 'voice';
+  matchStatus: MatchingStatus;
+  onEndCall: () => void;
+}
+
+// Runs the WebRTC session for a matched call, shared by the video and voice screens
+export function useCallConnection({ userId, callId, callType, matchStatus, onEndCall }: UseCallConnectionOptions) {
+  const [service, setService] = useState<WebRTCService | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<CallConnectionStatus>('searching');
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  // Parent passes a fresh onEndCall each render; don't tear the call down for it
+  const onEndCallRef = useRef(onEndCall);
+  onEndCallRef.current = onEndCall;
+  const { toast } = useToast();
+
+  // Connect to the call once useMatching has paired us with someone
+  useEffect(() => {
+    if (!userId || !callId) return;
+
+    // Matching and WebRTC must agree on the user ID, since the call
+    // document assigns roles by it
+    const webrtcService = new WebRTCService(userId);
+    setService(webrtcService);
+
+    webrtcService.onRemoteStream = (stream: MediaStream) => {
+      console.log('Remote stream received:', stream);
+      setRemoteStream(stream);
+    };
+
+    webrtcService.onConnectionEstablished = () => {
+      console.log('WebRTC connection established');
+      setConnectionStatus('connected');
+      toast({
+        title: "Connected! 🎉",
+        description: "You're now connected with your match.",
+      });
+    };
+
+    // Network drops are retried by the service; only a failed reconnect ends the call
+    webrtcService.onReconnecting = () => {
+      setConnectionStatus('reconnecting');
+    };
+
+    webrtcService.onReconnected = () => {
+      setConnectionStatus('connected');
+      toast({
+        title: "Reconnected",
+        description: "Your call is back on.",
+      });
+    };
+
+    // Camera or microphone swaps normally keep the same stream, but follow it if not
+    webrtcService.onLocalStreamChanged = (stream) => {
+      setLocalStream(stream);
+    };
+
+    webrtcService.onDeviceLost = (kind, recovered) => {
+      const device = kind === 'video' ? 'Camera' : 'Microphone';
+      toast({
+        title: `${device} disconnected`,
+        description: recovered ? "Switched to another device." : `No other ${device.toLowerCase()} is available.`,
+        variant: recovered ? "default" : "destructive"
+      });
+    };
+
+    webrtcService.onCallEnded = () => {
+      console.log('Call ended by remote peer');
+      onEndCallRef.current();
+    };
+
+    webrtcService.onError = (error: string) => {
+      console.error('WebRTC error:', error);
+      setConnectionStatus('failed');
+      toast({
+        title: "Connection Error",
+        description: error,
+        variant: "destructive"
+      });
+    };
+
+    const connect = async () => {
+      try {
+        console.log('Match found, connecting to call:', callId);
+        setConnectionStatus('connecting');
+
+        // The call document decides whether we send the offer or answer it,
+        // and whether we capture video at all
+        await webrtcService.connectToCall(callId);
+        setLocalStream(webrtcService.getLocalStream());
+      } catch (error) {
+        console.error('Failed to join call:', error);
+        setConnectionStatus('failed');
+        toast({
+          title: "Connection failed",
+          description: `Failed to start ${callType} call. Please try again.`,
+          variant: "destructive"
+        });
+      }
+    };
+
+    connect();
+
+    // Cleanup on unmount
+    return () => {
+      webrtcService.onCallEnded = undefined;
+      webrtcService.endCall();
+    };
+  }, [userId, callId, callType, toast]);
+
+  // Reflect matching failures before a call exists
+  useEffect(() => {
+    if (matchStatus === 'timeout' || matchStatus === 'cancelled') {
+      setConnectionStatus('failed');
+    }
+  }, [matchStatus]);
+
+  const endCall = async () => {
+    if (service) {
+      await service.endCall();
+    }
+    onEndCallRef.current();
+  };
+
+  return { service, connectionStatus, localStream, remoteStream, endCall };
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react';
+import { WebRTCService } from '@/services/webrtcService';
+import { CallQualitySample, SignalStrength } from '@/services/callStatsMonitor';
+
+// Latest getStats() sample for the active call
+export function useCallQuality(service: WebRTCService | null) {
+  const [sample, setSample] = useState<CallQualitySample | null>(null);
+
+  useEffect(() => {
+    setSample(null);
+    if (!service) return;
+
+    return service.subscribeToStats(setSample);
+  }, [service]);
+
+  const signalStrength: SignalStrength = sample?.signalStrength ?? 0;
+
+  return { sample, signalStrength };
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { WebRTCService } from '@/services/webrtcService';
+import { useToast } from '@/hooks/use-toast';
+import { SpendCoins } from '@/services/walletService';
+
+// A reaction that wasn't acknowledged by then is treated as lost and not charged
+const REACTION_ACK_TIMEOUT_MS = 5000;
+
+interface PendingReaction {
+  emoji: string;
+  cost: number;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+interface UseCallReactionsOptions {
+  service: WebRTCService | null;
+  coinBalance: number;
+  onSpendCoins?: SpendCoins;
+}
+
+// Reactions travel to the partner over the call's data channel. Coins are only
+// spent once the partner's client acknowledges the reaction.
+export function useCallReactions({ service, coinBalance, onSpendCoins }: UseCallReactionsOptions) {
+  const [activeReactions, setActiveReactions] = useState<Array<{ id: string; reaction: string }>>([]);
+  const pendingRef = useRef<Map<string, PendingReaction>>(new Map());
+  const onSpendCoinsRef = useRef(onSpendCoins);
+  onSpendCoinsRef.current = onSpendCoins;
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!service) return;
+
+    const pending = pendingRef.current;
+    const unsubscribe = service.subscribeToCallMessages((message) => {
+      if (message.type === 'reaction') {
+        service.sendCallMessage({ type: 'ack', id: message.id });
+        setActiveReactions(prev => [...prev, { id: `remote-${message.id}`, reaction: message.emoji }]);
+      } else if (message.type === 'ack') {
+        const reaction = pending.get(message.id);
+        if (!reaction) return;
+
+        clearTimeout(reaction.timeout);
+        pending.delete(message.id);
+        setActiveReactions(prev => [...prev, { id: message.id, reaction: reaction.emoji }]);
+
+        const charge = onSpendCoinsRef.current?.(reaction.cost, 'reaction', `reaction:${message.id}`) ?? Promise.resolve(true);
+        charge.then((charged) => {
+          if (!charged) return;
+          toast({
+            title: "Reaction sent! ✨",
+            description: `${reaction.emoji} sent for ${reaction.cost} coins`,
+          });
+        });
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      pending.forEach(reaction => clearTimeout(reaction.timeout));
+      pending.clear();
+    };
+  }, [service, toast]);
+
+  const sendReaction = (reaction: string, cost: number) => {
+    // Reactions still awaiting delivery will be charged too
+    let committed = 0;
+    pendingRef.current.forEach(pending => {
+      committed += pending.cost;
+    });
+
+    if (coinBalance - committed < cost) {
+      toast({
+        title: "Not enough coins",
+        description: `You need ${cost} coins to send this reaction.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const id = crypto.randomUUID();
+    if (!service?.sendCallMessage({ type: 'reaction', id, emoji: reaction })) {
+      toast({
+        title: "Couldn't send reaction",
+        description: "You're not connected right now. No coins were spent.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      pendingRef.current.delete(id);
+      toast({
+        title: "Reaction not delivered",
+        description: "No coins were spent.",
+        variant: "destructive"
+      });
+    }, REACTION_ACK_TIMEOUT_MS);
+    pendingRef.current.set(id, { emoji: reaction, cost, timeout });
+  };
+
+  const handleReactionComplete = useCallback((reactionId: string) => {
+    setActiveReactions(prev => prev.filter(r => r.id !== reactionId));
+  }, []);
+
+  return { activeReactions, sendReaction, handleReactionComplete };
+}
@@ -0,0 +1,212 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { useFirestoreCollection } from '@/hooks/useFirestore';
+import { ChatService, Conversation, ChatMessageDoc } from '@/services/chatService';
+import { ChatPreview } from '@/components/Chat/ChatListScreen';
+import { Message, MessageStatus } from '@/components/Chat/ChatDetailScreen';
+
+const MESSAGES_PAGE_SIZE = 30;
+// Offline, Firestore queues writes and the commit only settles once back
+// online, so a send that takes longer than this is shown as failed
+const SEND_TIMEOUT_MS = 10000;
+
+// Our own sends that the server hasn't confirmed yet, or that failed
+interface PendingMessage {
+  text: string;
+  sentAt: Timestamp;
+  status: 'sending' | 'failed';
+}
+
+function formatRelativeTime(timestamp: Timestamp | undefined): string {
+  if (!timestamp) return '';
+
+  const minutes = Math.floor((Date.now() - timestamp.toMillis()) / 60000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+}
+
+function formatMessageTime(timestamp: Timestamp | undefined): string {
+  return timestamp
+    ? timestamp.toDate().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : '';
+}
+
+export function getPartnerId(conversation: Conversation, userId: string): string {
+  return conversation.participants.find(participant => participant !== userId) ?? userId;
+}
+
+// The name the partner went by when the conversation was created
+export function getPartnerName(conversation: Conversation, userId: string): string {
+  return conversation.participantNames?.[getPartnerId(conversation, userId)] || 'Your match';
+}
+
+// The user's conversations, newest activity first, as list previews
+export function useConversations(userId: string) {
+  const { documents, loading, error } = useFirestoreCollection(
+    userId ? 'conversations' : '',
+    [{ field: 'participants', operator: 'array-contains', value: userId }]
+  );
+
+  const conversations = useMemo(() => {
+    // Sorted here rather than in the query, which would need a composite index
+    return (documents as Conversation[])
+      .slice()
+      .sort((a, b) => (b.updatedAt?.toMillis() ?? 0) - (a.updatedAt?.toMillis() ?? 0));
+  }, [documents]);
+
+  const previews: ChatPreview[] = conversations.map((conversation) => ({
+    id: conversation.id,
+    name: getPartnerName(conversation, userId),
+    lastMessage: conversation.lastMessage?.text ?? 'Say hi 👋',
+    time: formatRelativeTime(conversation.lastMessage?.sentAt ?? conversation.createdAt),
+    unread: conversation.unreadCounts?.[userId] || undefined
+  }));
+
+  const totalUnread = conversations.reduce((sum, conversation) => sum + (conversation.unreadCounts?.[userId] ?? 0), 0);
+
+  // Receiving the conversation update is what makes the partner's message "delivered"
+  useEffect(() => {
+    conversations.forEach((conversation) => {
+      const lastMessage = conversation.lastMessage;
+      if (!lastMessage || lastMessage.senderId === userId) return;
+
+      const deliveredUpTo = conversation.deliveredUpTo?.[userId]?.toMillis() ?? 0;
+      if (deliveredUpTo < lastMessage.sentAt.toMillis()) {
+        ChatService.markDelivered(conversation.id, userId, lastMessage.sentAt);
+      }
+    });
+  }, [conversations, userId]);
+
+  return { conversations, previews, totalUnread, loading, error };
+}
+
+// Live messages for one conversation. Only the newest page is subscribed to at
+// first; loadOlder widens the window a page at a time.
+export function useChatMessages(conversation: Conversation | null, userId: string) {
+  const [pageCount, setPageCount] = useState(1);
+  const [pending, setPending] = useState<Record<string, PendingMessage>>({});
+  // Commits still queued in Firestore, so a retry waits on the original write
+  // instead of queueing a second one that would count as unread twice
+  const inFlightRef = useRef(new Map<string, Promise<void>>());
+  const limitCount = MESSAGES_PAGE_SIZE * pageCount;
+  const conversationId = conversation?.id ?? '';
+  const { documents, loading } = useFirestoreCollection(
+    conversationId ? ChatService.getMessagesPath(conversationId) : '',
+    undefined,
+    { orderByField: 'createdAt', orderDirection: 'desc', limitCount }
+  );
+
+  useEffect(() => {
+    setPageCount(1);
+    setPending({});
+  }, [conversationId]);
+
+  const unread = conversation?.unreadCounts?.[userId] ?? 0;
+  const lastMessage = conversation?.lastMessage ?? null;
+  const hasUnreadFromPartner = !!lastMessage && lastMessage.senderId !== userId &&
+    (conversation?.readUpTo?.[userId]?.toMillis() ?? 0) < lastMessage.sentAt.toMillis();
+
+  // Anything that arrives while the thread is open counts as read
+  useEffect(() => {
+    if (conversationId && (unread > 0 || hasUnreadFromPartner)) {
+      ChatService.markAsRead(conversationId, userId, hasUnreadFromPartner ? lastMessage.sentAt : null);
+    }
+  }, [conversationId, userId, unread, hasUnreadFromPartner, lastMessage]);
+
+  const partnerId = conversation ? getPartnerId(conversation, userId) : '';
+  const partnerDeliveredUpTo = conversation?.deliveredUpTo?.[partnerId]?.toMillis() ?? 0;
+  const partnerReadUpTo = conversation?.readUpTo?.[partnerId]?.toMillis() ?? 0;
+
+  const messages: Message[] = useMemo(() => {
+    const getStatus = (id: string, sentAt: Timestamp | undefined): MessageStatus => {
+      if (pending[id]) return pending[id].status;
+
+      const sentAtMs = sentAt?.toMillis() ?? 0;
+      if (partnerReadUpTo >= sentAtMs) return 'read';
+      if (partnerDeliveredUpTo >= sentAtMs) return 'delivered';
+      return 'sent';
+    };
+
+    const stored: Message[] = (documents as ChatMessageDoc[])
+      .slice()
+      .reverse()
+      .map((message) => ({
+        id: message.id,
+        sender: message.senderId === userId ? 'me' : 'them',
+        text: message.text,
+        time: formatMessageTime(message.createdAt),
+        status: message.senderId === userId ? getStatus(message.id, message.createdAt) : undefined
+      }));
+
+    // Failed sends never reach the snapshot, so show them from the pending list
+    const storedIds = new Set(stored.map(message => message.id));
+    const unsent: Message[] = Object.entries(pending)
+      .filter(([id]) => !storedIds.has(id))
+      .sort(([, a], [, b]) => a.sentAt.toMillis() - b.sentAt.toMillis())
+      .map(([id, message]) => ({
+        id,
+        sender: 'me',
+        text: message.text,
+        time: formatMessageTime(message.sentAt),
+        status: message.status
+      }));
+
+    return [...stored, ...unsent];
+  }, [documents, userId, pending, partnerDeliveredUpTo, partnerReadUpTo]);
+
+  const attemptSend = async (messageId: string, text: string, sentAt: Timestamp) => {
+    if (!conversation) return;
+
+    const markFailed = () => setPending(prev => ({ ...prev, [messageId]: { text, sentAt, status: 'failed' } }));
+
+    setPending(prev => ({ ...prev, [messageId]: { text, sentAt, status: 'sending' } }));
+    const timeout = setTimeout(markFailed, SEND_TIMEOUT_MS);
+
+    let commit = inFlightRef.current.get(messageId);
+    if (!commit) {
+      commit = ChatService.sendMessage(conversation.id, userId, partnerId, text, messageId, sentAt);
+      inFlightRef.current.set(messageId, commit);
+    }
+
+    try {
+      // Even after timing out, a queued write that lands later counts as sent
+      await commit;
+      setPending(prev => {
+        const { [messageId]: _sent, ...rest } = prev;
+        return rest;
+      });
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      markFailed();
+    } finally {
+      clearTimeout(timeout);
+      if (inFlightRef.current.get(messageId) === commit) {
+        inFlightRef.current.delete(messageId);
+      }
+    }
+  };
+
+  const sendMessage = (text: string) => {
+    if (!conversation || !text.trim()) return;
+    attemptSend(ChatService.newMessageId(conversation.id), text.trim(), Timestamp.now());
+  };
+
+  const retryMessage = (messageId: string) => {
+    const message = pending[messageId];
+    if (message?.status === 'failed') {
+      attemptSend(messageId, message.text, message.sentAt);
+    }
+  };
+
+  return {
+    messages,
+    loading,
+    // A full window suggests there's more history behind it
+    hasMore: documents.length >= limitCount,
+    loadOlder: () => setPageCount(prev => prev + 1),
+    sendMessage,
+    retryMessage
+  };
+}
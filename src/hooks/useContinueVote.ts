@@ -0,0 +1,236 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { WebRTCService } from '@/services/webrtcService';
+import { useToast } from '@/hooks/use-toast';
+import { SpendCoins, RefundCallCoins } from '@/services/walletService';
+import {
+  CONTINUE_PROMPT_AT_SECONDS,
+  CONTINUE_VOTE_SECONDS,
+  CONTINUE_VOTE_GRACE_SECONDS,
+  CONTINUE_COST_COINS,
+  CONTINUE_FREE_FOR_PREMIUM
+} from '@/config/callContinuation';
+
+export type ContinueVoteOutcome = 'continued' | 'ended' | null;
+
+type ChargeState = 'idle' | 'charging' | 'charged' | 'failed';
+
+interface UseContinueVoteOptions {
+  service: WebRTCService | null;
+  callDuration: number;
+  isPremium: boolean;
+  coinBalance: number;
+  onSpendCoins?: SpendCoins;
+  onRefundCallCoins?: RefundCallCoins;
+  onEndCall: () => void;
+}
+
+// How long the result stays on screen before the call continues or ends
+const OUTCOME_DISPLAY_MS = 1500;
+
+// Both peers vote over the call's data channel. Once both say yes each side
+// pays and tells the other whether it could; the call goes on only when both
+// have paid, and whoever paid for a call that ends anyway gets the coins back.
+export function useContinueVote({
+  service,
+  callDuration,
+  isPremium,
+  coinBalance,
+  onSpendCoins,
+  onRefundCallCoins,
+  onEndCall
+}: UseContinueVoteOptions) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [myVote, setMyVote] = useState<boolean | null>(null);
+  const [partnerVote, setPartnerVote] = useState<boolean | null>(null);
+  // Counts below zero while we wait out the grace period for the partner
+  const [secondsLeft, setSecondsLeft] = useState(CONTINUE_VOTE_SECONDS);
+  // Set when the partner never answered or our vote couldn't be delivered
+  const [partnerUnreachable, setPartnerUnreachable] = useState(false);
+  const [charge, setCharge] = useState<ChargeState>('idle');
+  // What the partner reported about paying their side, null until they do
+  const [partnerCharged, setPartnerCharged] = useState<boolean | null>(null);
+  const onSpendCoinsRef = useRef(onSpendCoins);
+  onSpendCoinsRef.current = onSpendCoins;
+  const onRefundCallCoinsRef = useRef(onRefundCallCoins);
+  onRefundCallCoinsRef.current = onRefundCallCoins;
+  const onEndCallRef = useRef(onEndCall);
+  onEndCallRef.current = onEndCall;
+  // The prompt comes once per call; a stable key keeps the charge from being applied twice
+  const chargeKeyRef = useRef(`continue:${crypto.randomUUID()}`);
+  // Whether coins were actually taken, as opposed to a free continuation
+  const paidRef = useRef(false);
+  const refundedRef = useRef(false);
+  const mountedRef = useRef(true);
+  const { toast } = useToast();
+
+  const cost = isPremium && CONTINUE_FREE_FOR_PREMIUM ? 0 : CONTINUE_COST_COINS;
+  const canAfford = coinBalance >= cost;
+  const bothAgreed = myVote === true && partnerVote === true;
+
+  let outcome: ContinueVoteOutcome = null;
+  if (myVote === false || partnerVote === false || partnerUnreachable || charge === 'failed' || partnerCharged === false) {
+    outcome = 'ended';
+  } else if (bothAgreed && charge === 'charged' && partnerCharged === true) {
+    outcome = 'continued';
+  }
+
+  const refundCharge = useCallback(() => {
+    if (!paidRef.current || refundedRef.current) return;
+    refundedRef.current = true;
+    onRefundCallCoinsRef.current?.(chargeKeyRef.current);
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!service) return;
+
+    return service.subscribeToCallMessages((message) => {
+      if (message.type === 'continue-vote') {
+        setPartnerVote(message.continueCall);
+      } else if (message.type === 'continue-charged') {
+        setPartnerCharged(message.charged);
+      }
+    });
+  }, [service]);
+
+  useEffect(() => {
+    if (callDuration === CONTINUE_PROMPT_AT_SECONDS) {
+      setIsOpen(true);
+      setSecondsLeft(CONTINUE_VOTE_SECONDS);
+    }
+  }, [callDuration]);
+
+  // The partner's timer may reach the prompt a moment before ours
+  useEffect(() => {
+    if (partnerVote !== null && !isOpen) {
+      setIsOpen(true);
+      setSecondsLeft(CONTINUE_VOTE_SECONDS);
+    }
+  }, [partnerVote, isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || outcome) return;
+
+    const interval = setInterval(() => {
+      setSecondsLeft(prev => prev - 1);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, outcome]);
+
+  const castVote = (continueCall: boolean) => {
+    if (myVote !== null || outcome) return;
+
+    if (continueCall && !canAfford) {
+      toast({
+        title: "Not enough coins",
+        description: `You need ${cost} coins to continue this call.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const delivered = service?.sendCallMessage({ type: 'continue-vote', continueCall }) ?? false;
+    setMyVote(continueCall);
+    if (!delivered) {
+      setPartnerUnreachable(true);
+    }
+  };
+
+  // Not answering in time is a no; a partner who never answers ends the call too
+  useEffect(() => {
+    if (!isOpen || outcome) return;
+
+    if (secondsLeft <= 0 && myVote === null) {
+      service?.sendCallMessage({ type: 'continue-vote', continueCall: false });
+      setMyVote(false);
+    } else if (
+      secondsLeft <= -CONTINUE_VOTE_GRACE_SECONDS &&
+      (partnerVote === null || (charge === 'charged' && partnerCharged === null))
+    ) {
+      setPartnerUnreachable(true);
+    }
+  }, [isOpen, outcome, secondsLeft, myVote, partnerVote, charge, partnerCharged, service]);
+
+  // Pay for our side as soon as both said yes, and tell the partner how it went
+  useEffect(() => {
+    if (!bothAgreed || charge !== 'idle' || outcome) return;
+
+    setCharge('charging');
+    const pay = async () => {
+      let charged = true;
+      if (cost > 0) {
+        const spend = onSpendCoinsRef.current;
+        charged = spend ? await spend(cost, 'call', chargeKeyRef.current) : false;
+        paidRef.current = charged;
+      }
+
+      // The call ended while we were paying, so it was never continued
+      if (!mountedRef.current) {
+        refundCharge();
+        return;
+      }
+
+      service?.sendCallMessage({ type: 'continue-charged', charged });
+      setCharge(charged ? 'charged' : 'failed');
+      if (!charged) {
+        toast({
+          title: "Couldn't continue the call",
+          description: `The ${cost} coins to continue couldn't be charged.`,
+          variant: "destructive"
+        });
+      }
+    };
+
+    pay();
+  }, [bothAgreed, charge, outcome, cost, service, toast, refundCharge]);
+
+  // The partner couldn't pay, took back their yes or went quiet after we paid
+  useEffect(() => {
+    if (outcome === 'ended' && charge === 'charged') {
+      refundCharge();
+    }
+  }, [outcome, charge, refundCharge]);
+
+  useEffect(() => {
+    if (!outcome) return;
+
+    const timeout = setTimeout(() => {
+      if (outcome === 'ended') {
+        onEndCallRef.current();
+        return;
+      }
+
+      setIsOpen(false);
+      setMyVote(null);
+      setPartnerVote(null);
+      setPartnerUnreachable(false);
+      setCharge('idle');
+      setPartnerCharged(null);
+    }, OUTCOME_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [outcome]);
+
+  return {
+    isOpen,
+    myVote,
+    partnerVote,
+    partnerUnreachable,
+    chargeFailed: charge === 'failed',
+    partnerChargeFailed: partnerCharged === false,
+    // Both said yes and we're waiting for both sides to pay
+    confirming: bothAgreed && outcome === null,
+    outcome,
+    secondsLeft: Math.max(0, secondsLeft),
+    cost,
+    canAfford,
+    castVote
+  };
+}
+
+export type ContinueVoteState = ReturnType<typeof useContinueVote>;
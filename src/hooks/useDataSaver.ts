@@ -0,0 +1,14 @@
+import { useState, useCallback } from 'react';
+import { isDataSaverEnabled, setDataSaverEnabled } from '@/services/adaptiveBitrateController';
+
+// Persisted "data saver" preference, read by WebRTCService when a call starts
+export function useDataSaver() {
+  const [dataSaver, setDataSaverState] = useState(isDataSaverEnabled);
+
+  const setDataSaver = useCallback((enabled: boolean) => {
+    setDataSaverEnabled(enabled);
+    setDataSaverState(enabled);
+  }, []);
+
+  return { dataSaver, setDataSaver };
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EntitlementService, EntitlementsStoreState } from '@/services/entitlementService';
+import { EntitlementState } from '@/services/paymentService';
+import { useToast } from '@/hooks/use-toast';
+
+// Premium and unlimited-calls access for the signed-in user. Every instance
+// shares the same server-backed state, so a purchase or a renewal shows up on
+// every screen at once.
+export function useEntitlements() {
+  const [state, setState] = useState<EntitlementsStoreState>(() => EntitlementService.getState());
+  const { toast } = useToast();
+
+  useEffect(() => EntitlementService.subscribeToEntitlements(setState), []);
+
+  const cancelSubscription = useCallback(async (subscriptionId: string): Promise<boolean> => {
+    try {
+      await EntitlementService.cancelSubscription(subscriptionId);
+      return true;
+    } catch (error: unknown) {
+      toast({
+        title: "Couldn't cancel subscription",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [toast]);
+
+  const entitlements = state.entitlements;
+  const subscriptions = entitlements?.subscriptions ?? [];
+
+  return {
+    entitlements,
+    isLoaded: entitlements !== null,
+    isPremium: entitlements?.isPremium ?? false,
+    hasUnlimitedCalls: entitlements?.hasUnlimitedCalls ?? false,
+    premiumSubscription: subscriptions.find(subscription => subscription.productType === 'premium') ?? null,
+    loading: state.loading,
+    error: state.error,
+    cancelSubscription,
+    apply: (update?: EntitlementState) => EntitlementService.apply(update),
+    refresh: () => EntitlementService.refresh()
+  };
+}
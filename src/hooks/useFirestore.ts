@@ -1,16 +1,24 @@
 import { useState, useEffect } from 'react';
 import { DocumentData } from 'firebase/firestore';
-import { FirestoreService } from '@/services/firestoreService';
+import { FirestoreService, CollectionQueryOptions } from '@/services/firestoreService';
 
+// An empty collectionName skips the subscription, for queries that aren't ready yet
 export function useFirestoreCollection(
   collectionName: string,
-  filters?: { field: string; operator: any; value: any }[]
+  filters?: { field: string; operator: any; value: any }[],
+  options?: CollectionQueryOptions
 ) {
   const [documents, setDocuments] = useState<DocumentData[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    if (!collectionName) {
+      setDocuments([]);
+      setLoading(false);
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -20,7 +28,8 @@ export function useFirestoreCollection(
         setDocuments(docs);
         setLoading(false);
       },
-      filters
+      filters,
+      options
     );
 
     return () => {
@@ -28,7 +37,7 @@ export function useFirestoreCollection(
         unsubscribe();
       }
     };
-  }, [collectionName, JSON.stringify(filters)]);
+  }, [collectionName, JSON.stringify([filters, options])]);
 
   const addDocument = async (data: any) => {
     try {
@@ -0,0 +1,105 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { WebRTCService } from '@/services/webrtcService';
+import { MAX_CHAT_MESSAGE_LENGTH, InCallChatMessage } from '@/services/callMessages';
+import { redactContactInfo } from '@/lib/contactRedaction';
+
+// Stop showing "typing…" after this long without input
+const TYPING_IDLE_MS = 3000;
+// Clear the partner's indicator if their "stopped typing" never arrives
+const PARTNER_TYPING_TIMEOUT_MS = 6000;
+
+interface UseInCallChatOptions {
+  service: WebRTCService | null;
+  // Lets the parent offer the transcript after the call
+  onTranscriptChange?: (messages: InCallChatMessage[]) => void;
+}
+
+// Text chat over the call's data channel, with typing indicators
+export function useInCallChat({ service, onTranscriptChange }: UseInCallChatOptions) {
+  const [messages, setMessages] = useState<InCallChatMessage[]>([]);
+  const [partnerTyping, setPartnerTyping] = useState(false);
+  const isTypingRef = useRef(false);
+  const typingIdleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onTranscriptChangeRef = useRef(onTranscriptChange);
+  onTranscriptChangeRef.current = onTranscriptChange;
+
+  useEffect(() => {
+    onTranscriptChangeRef.current?.(messages);
+  }, [messages]);
+
+  useEffect(() => {
+    if (!service) return;
+
+    let partnerTypingTimer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = service.subscribeToCallMessages((message) => {
+      if (message.type === 'chat') {
+        setPartnerTyping(false);
+        // Redact again on arrival; the other client can't be trusted to have done it
+        setMessages(prev => [...prev, {
+          id: message.id,
+          sender: 'them',
+          text: redactContactInfo(message.text),
+          sentAt: message.sentAt
+        }]);
+      } else if (message.type === 'typing') {
+        setPartnerTyping(message.isTyping);
+        if (partnerTypingTimer) clearTimeout(partnerTypingTimer);
+        if (message.isTyping) {
+          partnerTypingTimer = setTimeout(() => setPartnerTyping(false), PARTNER_TYPING_TIMEOUT_MS);
+        }
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (partnerTypingTimer) clearTimeout(partnerTypingTimer);
+    };
+  }, [service]);
+
+  useEffect(() => {
+    return () => {
+      if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
+    };
+  }, []);
+
+  const setTyping = useCallback((isTyping: boolean) => {
+    if (typingIdleTimer.current) {
+      clearTimeout(typingIdleTimer.current);
+      typingIdleTimer.current = null;
+    }
+    if (isTyping) {
+      typingIdleTimer.current = setTimeout(() => setTyping(false), TYPING_IDLE_MS);
+    }
+
+    // Only tell the partner when the state actually flips
+    if (isTypingRef.current === isTyping) return;
+    isTypingRef.current = isTyping;
+    service?.sendCallMessage({ type: 'typing', isTyping });
+  }, [service]);
+
+  // Returns false if the message couldn't be sent
+  const sendMessage = (text: string): boolean => {
+    const redacted = redactContactInfo(text.trim()).slice(0, MAX_CHAT_MESSAGE_LENGTH);
+    if (!redacted || !service) return false;
+
+    const message: InCallChatMessage = {
+      id: crypto.randomUUID(),
+      sender: 'me',
+      text: redacted,
+      sentAt: Date.now()
+    };
+    const sent = service.sendCallMessage({
+      type: 'chat',
+      id: message.id,
+      text: message.text,
+      sentAt: message.sentAt
+    });
+    if (!sent) return false;
+
+    setTyping(false);
+    setMessages(prev => [...prev, message]);
+    return true;
+  };
+
+  return { messages, partnerTyping, sendMessage, setTyping };
+}
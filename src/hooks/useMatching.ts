@@ -1,74 +1,163 @@
-import { useState, useCallback } from 'react';
-import { matchingService, MatchingPreferences } from '@/services/matchingService';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { MatchingBackend, MatchingWidenStep, MatchDetails, MatchingProfile } from '@/services/matchingService';
+import { callMatchingService } from '@/services/callMatchingService';
 import { useToast } from '@/hooks/use-toast';
 
+export type MatchingStatus = 'idle' | 'searching' | 'matched' | 'cancelled' | 'timeout';
+
 interface UseMatchingProps {
   userGender: 'male' | 'female' | 'other';
   userId: string;
   isPremium: boolean;
+  // Interests, languages and region used to rank candidates
+  profile?: MatchingProfile;
+  // Users not to be matched with, asked for afresh each time a search starts
+  getExcludedUserIds?: () => string[];
+  // Defaults to the Firestore queue; pass the in-memory MatchingService in tests
+  backend?: MatchingBackend;
 }
 
-export function useMatching({ userGender, userId, isPremium }: UseMatchingProps) {
-  const [isSearching, setIsSearching] = useState(false);
-  const [currentMatch, setCurrentMatch] = useState<any>(null);
+export function useMatching({ userGender, userId, isPremium, profile, getExcludedUserIds, backend = callMatchingService }: UseMatchingProps) {
+  const [status, setStatus] = useState<MatchingStatus>('idle');
+  const [partnerId, setPartnerId] = useState<string | null>(null);
+  const [callId, setCallId] = useState<string | null>(null);
+  const [sharedInterests, setSharedInterests] = useState<string[]>([]);
+  const [callType, setCallType] = useState<'video' | 'voice'>('video');
+  const [widenSuggestion, setWidenSuggestion] = useState<MatchingWidenStep | null>(null);
+  const statusRef = useRef<MatchingStatus>('idle');
+  const requestIdRef = useRef<string | null>(null);
   const { toast } = useToast();
 
-  const startMatching = useCallback(async (preferredGender: 'anyone' | 'men' | 'women') => {
-    setIsSearching(true);
-    
+  // Backend callbacks and timers need the current status without re-subscribing
+  const updateStatus = useCallback((next: MatchingStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const startMatching = useCallback(async (
+    preferredGender: 'anyone' | 'men' | 'women',
+    type: 'video' | 'voice' = 'video'
+  ) => {
+    updateStatus('searching');
+    setPartnerId(null);
+    setCallId(null);
+    setSharedInterests([]);
+    setCallType(type);
+
+    // Fires either while startMatching is still running (we joined a waiting
+    // request) or later, when someone joins our own request
+    backend.onMatchFound = (matchedCallId: string, matchedPartnerId: string, details?: MatchDetails) => {
+      requestIdRef.current = null;
+      setWidenSuggestion(null);
+      setCallId(matchedCallId);
+      setPartnerId(matchedPartnerId);
+      setSharedInterests(details?.sharedInterests ?? []);
+      updateStatus('matched');
+    };
+
+    // The backend's policy decides when to offer widening and when to give up
+    backend.onWidenSuggested = (step: MatchingWidenStep) => {
+      setWidenSuggestion(step);
+    };
+
+    backend.onTimeout = () => {
+      requestIdRef.current = null;
+      setWidenSuggestion(null);
+      updateStatus('timeout');
+      toast({
+        title: "No matches found",
+        description: "Try again in a few moments.",
+        variant: "destructive"
+      });
+    };
+
+    const searchProfile: MatchingProfile | undefined = getExcludedUserIds
+      ? { interests: [], languages: [], ...profile, excludedUserIds: getExcludedUserIds() }
+      : profile;
+
     try {
-      // Simulate matching delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const matchPrefs: MatchingPreferences = {
-        userGender,
-        preferredGender,
-        isPremium,
-        userId
-      };
+      const requestId = await backend.startMatching(userId, userGender, preferredGender, isPremium, type, searchProfile);
+
+      if (statusRef.current === 'cancelled') {
+        // Cancelled while the request was being created
+        await backend.cancelMatching(requestId);
+        return;
+      }
 
-      const matchResult = matchingService.simulateMatch(matchPrefs);
-      
-      if (matchResult.success) {
-        setCurrentMatch({
-          id: 'match-' + Date.now(),
-          gender: matchResult.partnerGender,
-          matchType: matchResult.matchType
-        });
-
-        // Show appropriate toast based on user type
-        if (isPremium) {
-          toast({
-            title: "Premium Match Found! 👑",
-            description: matchResult.message,
-          });
-        } else {
-          toast({
-            title: "Random Match Found! 🎲",
-            description: matchResult.message,
-          });
-        }
-
-        return matchResult;
-      } else {
-        throw new Error('No matches found');
+      // Still waiting in the queue
+      if (statusRef.current === 'searching') {
+        requestIdRef.current = requestId;
       }
     } catch (error) {
+      updateStatus('idle');
       toast({
-        title: "No matches found",
-        description: "Try again in a few moments.",
+        title: "Matching failed",
+        description: "Could not join the matching queue. Please try again.",
         variant: "destructive"
       });
-      return null;
-    } finally {
-      setIsSearching(false);
     }
-  }, [userGender, userId, isPremium, toast]);
+  }, [backend, userGender, userId, isPremium, profile, getExcludedUserIds, toast, updateStatus]);
 
-  const endMatch = useCallback(() => {
-    setCurrentMatch(null);
+  const acceptWidening = useCallback(async () => {
+    const step = widenSuggestion;
+    setWidenSuggestion(null);
+    if (!step || !backend.acceptWidening || statusRef.current !== 'searching') return;
+
+    // Null means the old request was claimed first and that match stands,
+    // so the call type only changes once the widened request exists
+    const requestId = await backend.acceptWidening(step);
+    if (!requestId) return;
+
+    if (step === 'callType') {
+      setCallType(current => current === 'video' ? 'voice' : 'video');
+    }
+
+    // The status may have moved on while the widened request was created
+    const currentStatus = statusRef.current as MatchingStatus;
+    if (currentStatus === 'cancelled') {
+      await backend.cancelMatching(requestId);
+    } else if (currentStatus === 'searching') {
+      requestIdRef.current = requestId;
+    }
+  }, [backend, widenSuggestion]);
+
+  const declineWidening = useCallback(() => {
+    setWidenSuggestion(null);
   }, []);
 
+  const cancelMatching = useCallback(async () => {
+    if (statusRef.current !== 'searching') return;
+
+    updateStatus('cancelled');
+    setWidenSuggestion(null);
+    const pendingRequestId = requestIdRef.current;
+    requestIdRef.current = null;
+    if (pendingRequestId) {
+      await backend.cancelMatching(pendingRequestId);
+    }
+  }, [backend, updateStatus]);
+
+  const endMatch = useCallback(() => {
+    updateStatus('idle');
+    setWidenSuggestion(null);
+    setPartnerId(null);
+    setCallId(null);
+    setSharedInterests([]);
+  }, [updateStatus]);
+
+  // Leave the queue and stop listening if the component goes away mid-search
+  useEffect(() => {
+    return () => {
+      if (requestIdRef.current) {
+        backend.cancelMatching(requestIdRef.current);
+        requestIdRef.current = null;
+      }
+      backend.onMatchFound = undefined;
+      backend.onWidenSuggested = undefined;
+      backend.onTimeout = undefined;
+    };
+  }, [backend]);
+
   const getMatchingExplanation = useCallback(() => {
     if (isPremium) {
       return {
@@ -96,10 +185,18 @@ export function useMatching({ userGender, userId, isPremium }: UseMatchingProps)
   }, [isPremium]);
 
   return {
-    isSearching,
-    currentMatch,
+    status,
+    isSearching: status === 'searching',
+    partnerId,
+    callId,
+    callType,
+    sharedInterests,
+    widenSuggestion,
     startMatching,
+    cancelMatching,
+    acceptWidening,
+    declineWidening,
     endMatch,
     getMatchingExplanation
   };
-}
\ No newline at end of file
+}
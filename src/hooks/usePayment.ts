@@ -11,32 +11,13 @@ export function usePayment({ onSuccess, onError }: UsePaymentProps = {}) {
   const [isProcessing, setIsProcessing] = useState(false);
   const { toast } = useToast();
 
-  const processPayment = async (
-    paymentType: 'coins' | 'premium' | 'unlimited_calls',
-    packageId: string,
-    userInfo?: { name?: string; email?: string; phone?: string },
-    autoRenew?: boolean
-  ) => {
+  const processPayment = async (productId: string) => {
     if (isProcessing) return null;
 
     setIsProcessing(true);
 
     try {
-      let result: PaymentResult;
-
-      switch (paymentType) {
-        case 'coins':
-          result = await PaymentService.buyCoinPackage(packageId as any, userInfo);
-          break;
-        case 'premium':
-          result = await PaymentService.subscribeToPremium(packageId as any, userInfo);
-          break;
-        case 'unlimited_calls':
-          result = await PaymentService.subscribeToUnlimitedCalls(autoRenew || false, userInfo);
-          break;
-        default:
-          throw new Error('Invalid payment type');
-      }
+      const result = await PaymentService.purchaseProduct(productId);
 
       if (result.success) {
         onSuccess?.(result);
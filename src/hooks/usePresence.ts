@@ -0,0 +1,103 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { PresenceService, PresenceState, PRESENCE_HEARTBEAT_MS } from '@/services/presenceService';
+
+// Re-evaluate "online" and "last seen" even when no snapshot arrives
+const PRESENCE_REFRESH_MS = 15 * 1000;
+const TYPING_IDLE_MS = 3000;
+// Re-send "typing" this often while it continues, so it doesn't look stale
+const TYPING_REFRESH_MS = 4000;
+
+// Publish the signed-in user's presence while the app is open
+export function usePresenceHeartbeat(userId: string) {
+  useEffect(() => {
+    if (!userId) return;
+
+    const markVisible = () => {
+      PresenceService.setOnline(userId, document.visibilityState === 'visible');
+    };
+    const markOffline = () => {
+      PresenceService.setOnline(userId, false);
+    };
+
+    markVisible();
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        PresenceService.setOnline(userId, true);
+      }
+    }, PRESENCE_HEARTBEAT_MS);
+    document.addEventListener('visibilitychange', markVisible);
+    window.addEventListener('pagehide', markOffline);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', markVisible);
+      window.removeEventListener('pagehide', markOffline);
+      markOffline();
+    };
+  }, [userId]);
+}
+
+// Live presence for a set of users, keyed by user ID, plus the time it was judged against
+export function usePresence(userIds: string[]) {
+  const [presence, setPresence] = useState<Record<string, PresenceState>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const idsKey = userIds.slice().sort().join(',');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    const unsubscribes = ids.map(id => PresenceService.subscribeToPresence(id, (state) => {
+      setPresence(prev => ({ ...prev, [id]: state }));
+    }));
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+  }, [idsKey]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), PRESENCE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return { presence, now };
+}
+
+// Publishes whether the user is typing in a conversation, debounced
+export function useTypingIndicator(userId: string, conversationId: string | null) {
+  const isTypingRef = useRef(false);
+  const lastSentRef = useRef(0);
+  const idleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const setTyping = useCallback((isTyping: boolean) => {
+    if (!userId || !conversationId) return;
+
+    if (idleTimer.current) {
+      clearTimeout(idleTimer.current);
+      idleTimer.current = null;
+    }
+    if (isTyping) {
+      idleTimer.current = setTimeout(() => setTyping(false), TYPING_IDLE_MS);
+    }
+
+    const now = Date.now();
+    const needsRefresh = isTyping && now - lastSentRef.current > TYPING_REFRESH_MS;
+    if (isTypingRef.current === isTyping && !needsRefresh) return;
+
+    isTypingRef.current = isTyping;
+    lastSentRef.current = now;
+    PresenceService.setTyping(userId, isTyping ? conversationId : null);
+  }, [userId, conversationId]);
+
+  // Leaving the thread stops typing there
+  useEffect(() => {
+    return () => {
+      if (idleTimer.current) clearTimeout(idleTimer.current);
+      if (isTypingRef.current) {
+        isTypingRef.current = false;
+        PresenceService.setTyping(userId, null);
+      }
+    };
+  }, [userId, conversationId]);
+
+  return setTyping;
+}
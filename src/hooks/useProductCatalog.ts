@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { PaymentService, CatalogProduct, ProductType } from '@/services/paymentService';
+
+// The server's product catalog, cheapest first within each type
+export function useProductCatalog() {
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    PaymentService.getCatalog()
+      .then((catalog) => {
+        if (cancelled) return;
+        setProducts([...catalog].sort((a, b) => a.price - b.price));
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Failed to load products:', err);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getProducts = (type: ProductType) => products.filter(product => product.type === type);
+
+  return { products, loading, error, getProducts };
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  WalletService,
+  WalletState,
+  CoinDebitReason,
+  RewardSource,
+  InsufficientCoinsError
+} from '@/services/walletService';
+import { useToast } from '@/hooks/use-toast';
+
+// The signed-in user's coin wallet. Every instance shares the same server-backed
+// state, so spending in one screen updates the balance shown in all of them.
+export function useWallet() {
+  const [state, setState] = useState<WalletState>(() => WalletService.getState());
+  const { toast } = useToast();
+
+  useEffect(() => WalletService.subscribeToWallet(setState), []);
+
+  // Pass a stable idempotency key when the same spend might be attempted twice
+  const spend = useCallback(async (
+    amount: number,
+    reason: CoinDebitReason,
+    idempotencyKey: string = crypto.randomUUID(),
+    reference?: string
+  ): Promise<boolean> => {
+    try {
+      await WalletService.debit(amount, reason, idempotencyKey, reference);
+      return true;
+    } catch (error) {
+      toast({
+        title: error instanceof InsufficientCoinsError ? "Not enough coins" : "Couldn't spend coins",
+        description: error instanceof InsufficientCoinsError
+          ? `You need ${amount} coins for this.`
+          : "Please check your connection and try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [toast]);
+
+  const refundCall = useCallback(async (idempotencyKey: string): Promise<boolean> => {
+    try {
+      await WalletService.refundCallDebit(idempotencyKey);
+      return true;
+    } catch (error: unknown) {
+      toast({
+        title: "Couldn't refund your coins",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [toast]);
+
+  const claimReward = useCallback(async (
+    amount: number,
+    source: RewardSource,
+    idempotencyKey: string = crypto.randomUUID()
+  ): Promise<boolean> => {
+    try {
+      await WalletService.claimReward(amount, source, idempotencyKey);
+      return true;
+    } catch (error: unknown) {
+      toast({
+        title: "Couldn't add coins",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [toast]);
+
+  return {
+    balance: state.balance ?? 0,
+    isLoaded: state.balance !== null,
+    transactions: state.transactions,
+    loading: state.loading,
+    error: state.error,
+    spend,
+    refundCall,
+    claimReward,
+    refresh: () => WalletService.refresh()
+  };
+}
@@ -0,0 +1,16 @@
+// In-call chat is with strangers, so links and phone numbers are masked before
+// they're shown. This is deliberately basic; it won't catch spelled-out numbers.
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+const DOMAIN_PATTERN = /\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|me|co|app|in|ly|gg|xyz|info|link|to)\b(?:\/\S*)?/gi;
+// Seven or more digits, allowing the usual separators between them
+const PHONE_PATTERN = /\+?\d(?:[\s\-().]*\d){6,}/g;
+
+export const REDACTED_LINK = '[link removed]';
+export const REDACTED_PHONE = '[number removed]';
+
+export function redactContactInfo(text: string): string {
+  return text
+    .replace(URL_PATTERN, REDACTED_LINK)
+    .replace(DOMAIN_PATTERN, REDACTED_LINK)
+    .replace(PHONE_PATTERN, REDACTED_PHONE);
+}
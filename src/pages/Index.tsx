@@ -6,8 +6,8 @@ import HomeScreen from "@/components/Home/HomeScreen";
 import { VideoCallScreen } from "@/components/VideoChat/VideoCallScreen";
 import { PostCallProfileScreen } from "@/components/VideoChat/PostCallProfileScreen";
 import { MatchScreen } from "@/components/Match/MatchScreen";
-import { ChatListScreen, ChatPreview } from "@/components/Chat/ChatListScreen";
-import { ChatDetailScreen, ChatData, Message } from "@/components/Chat/ChatDetailScreen";
+import { ChatListScreen } from "@/components/Chat/ChatListScreen";
+import { ChatDetailScreen } from "@/components/Chat/ChatDetailScreen";
 import { PremiumModal } from "@/components/Premium/PremiumModal";
 import { CoinPurchaseModal } from "@/components/Coins/CoinPurchaseModal";
 import { VoiceCallScreen } from "@/components/VoiceCall/VoiceCallScreen";
@@ -22,11 +22,21 @@ import { useMysteryBox } from "@/hooks/useMysteryBox";
 import { useBlurredProfiles } from "@/hooks/useBlurredProfiles";
 import { useToast } from "@/hooks/use-toast";
 import { useMatching } from "@/hooks/useMatching";
+import { useBlockList } from "@/hooks/useBlockList";
+import { useWallet } from "@/hooks/useWallet";
+import { useEntitlements } from "@/hooks/useEntitlements";
+import { useAuthUserId } from "@/hooks/useAuthUserId";
+import { useConversations, useChatMessages, getPartnerId, getPartnerName } from "@/hooks/useChat";
+import { usePresenceHeartbeat, usePresence, useTypingIndicator } from "@/hooks/usePresence";
+import { ChatService } from "@/services/chatService";
+import { EntitlementState } from "@/services/paymentService";
+import { PresenceService, EMPTY_PRESENCE } from "@/services/presenceService";
+import { InCallChatMessage } from "@/services/callMessages";
 import { CoinsScreen } from "@/components/Coins/CoinsScreen";
 import { PremiumScreen } from "@/components/Premium/PremiumScreen";
 import { Video, Gem, Phone, Flame } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useEffect } from "react";
+import { useEffect, useMemo } from "react";
 import heroBackground from "@/assets/hero-bg.jpg";
 
 interface UserProfile {
@@ -36,6 +46,9 @@ interface UserProfile {
   interests: string[];
   matchPreference: "anyone" | "men" | "women";
   gender: "male" | "female" | "other";
+  languages: string[];
+  region?: string;
+  requireSameLanguage?: boolean;
 }
 
 const Index = () => {
@@ -45,15 +58,21 @@ const Index = () => {
   const [currentScreen, setCurrentScreen] = useState<"home" | "call" | "voice-call" | "post-call" | "chat-detail" | "blurred-profiles" | "premium">("home");
   const [activeTab, setActiveTab] = useState("home");
   const [showCoinModal, setShowCoinModal] = useState(false);
-  const [isPremium, setIsPremium] = useState(false);
-  const [hasUnlimitedCalls, setHasUnlimitedCalls] = useState(false);
-  const [unlimitedCallsExpiry, setUnlimitedCallsExpiry] = useState<Date | null>(null);
-  const [autoRenewEnabled, setAutoRenewEnabled] = useState(false);
+  // The 30-day streak's premium boost isn't granted server-side, so it lasts the session
+  const [hasStreakPremium, setHasStreakPremium] = useState(false);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [isEditingProfile, setIsEditingProfile] = useState(false);
-  const [coinBalance, setCoinBalance] = useState(100);
   const [showStreakModal, setShowStreakModal] = useState(false);
   const [showPremiumModal, setShowPremiumModal] = useState(false);
+  // Everything stored per user is keyed by the auth ID, never the editable username
+  const userId = useAuthUserId() ?? '';
+  const { balance: coinBalance, spend: spendCoins, refundCall: refundCallCoins, claimReward: claimCoinReward, refresh: refreshWallet } = useWallet();
+  const {
+    entitlements,
+    hasUnlimitedCalls,
+    apply: applyServerEntitlements
+  } = useEntitlements();
+  const isPremium = (entitlements?.isPremium ?? false) || hasStreakPremium;
   // Login streak and mystery box hooks
   const { streakData, claimReward } = useLoginStreak();
   const { profiles: blurredProfiles, unlockProfile } = useBlurredProfiles();
@@ -65,11 +84,23 @@ const Index = () => {
     closeMysteryBox 
   } = useMysteryBox();
   
+  // Block list and recently met partners, excluded from matching
+  const blockList = useBlockList(userId);
+
   // Matching hook
+  const matchingProfile = useMemo(() => userProfile ? {
+    interests: userProfile.interests,
+    languages: userProfile.languages,
+    region: userProfile.region,
+    requireSameLanguage: userProfile.requireSameLanguage
+  } : undefined, [userProfile]);
+
   const matching = useMatching({
     userGender: userProfile?.gender || 'male',
-    userId: 'user-' + Date.now(),
-    isPremium
+    userId,
+    isPremium,
+    profile: matchingProfile,
+    getExcludedUserIds: blockList.getExcludedUserIds
   });
   
   const { toast } = useToast();
@@ -85,7 +116,7 @@ const Index = () => {
     ],
     bio: "Music enthusiast, always on the lookout for new tunes and ready to share playlists. Let's discover new sounds and enjoy the rhythm of life! ❤️",
     distance: "2 km away",
-    commonInterests: 4,
+    commonInterests: matching.sharedInterests.length,
     aboutMe: {
       gender: "Woman",
       religion: "Muslims",
@@ -95,24 +126,88 @@ const Index = () => {
     interests: ["🎵 Pop Punk", "☕ Coffee", "🥊 Boxing", "🎮 Fifa Mobile", "⚽ Real Madrid"]
   };
   
-  const [chats] = useState<ChatPreview[]>([
-    { id: "1", name: "Sarah", lastMessage: "Hey there! 👋", time: "2m", unread: 2 },
-    { id: "2", name: "Mike", lastMessage: "Nice talking to you!", time: "1h" },
-    { id: "3", name: "Emma", lastMessage: "See you later", time: "3h" },
-  ]);
-  
-  const [chatData] = useState<Record<string, ChatData>>({
-    "1": {
-      id: "1",
-      name: "Sarah",
-      messages: [
-        { id: "1", sender: "them", text: "Hey there! 👋", time: "10:30" },
-        { id: "2", sender: "me", text: "Hello! How are you?", time: "10:32" },
-        { id: "3", sender: "them", text: "I'm doing great! Thanks for asking", time: "10:33" },
-      ]
-    }
+  // In-call chat from the last call, offered for saving on the post-call screen
+  const [callTranscript, setCallTranscript] = useState<InCallChatMessage[]>([]);
+  const [saveTranscript, setSaveTranscript] = useState(true);
+  // Our side of a call's chat, held until the partner accepts too
+  const [heldTranscript, setHeldTranscript] = useState<{
+    callId: string;
+    partnerId: string;
+    messages: InCallChatMessage[];
+  } | null>(null);
+
+  const conversations = useConversations(userId);
+  const activeConversation = conversations.conversations.find(conversation => conversation.id === activeChatId) ?? null;
+  const activeChat = useChatMessages(activeConversation, userId);
+
+  usePresenceHeartbeat(userId);
+  const partnerIds = conversations.conversations.map(conversation => getPartnerId(conversation, userId));
+  const { presence, now: presenceNow } = usePresence(partnerIds);
+  const setTyping = useTypingIndicator(userId, activeConversation?.id ?? null);
+
+  const chatPreviews = conversations.previews.map((preview, index) => {
+    const partnerPresence = presence[partnerIds[index]] ?? EMPTY_PRESENCE;
+    return {
+      ...preview,
+      online: PresenceService.isOnline(partnerPresence, presenceNow),
+      isTyping: PresenceService.isTypingIn(partnerPresence, preview.id, presenceNow)
+    };
   });
 
+  // The conversation only exists once both sides accept; the second to accept creates it
+  const recordCallDecision = async (accepted: boolean) => {
+    if (!userProfile || !userId || !matching.callId || !matching.partnerId) return;
+
+    try {
+      const conversationId = await ChatService.recordCallDecision(
+        matching.callId,
+        userId,
+        matching.partnerId,
+        { accepted, saveTranscript: accepted && saveTranscript, name: userProfile.username },
+        callTranscript
+      );
+
+      if (conversationId) {
+        toast({
+          title: "It's a match! 💕",
+          description: "You can now chat in Messages.",
+        });
+      } else if (accepted) {
+        if (saveTranscript && callTranscript.length > 0) {
+          setHeldTranscript({ callId: matching.callId, partnerId: matching.partnerId, messages: callTranscript });
+        }
+        toast({
+          title: "Request sent",
+          description: "You'll be able to chat if they accept too.",
+        });
+      }
+    } catch (error) {
+      console.error('Failed to record call decision:', error);
+      toast({
+        title: "Something went wrong",
+        description: "We couldn't save your choice. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Accepting first, we only learn of the match when the conversation shows
+  // up; that's when our side of the transcript can be saved
+  useEffect(() => {
+    if (!heldTranscript || !userId) return;
+
+    const conversationId = ChatService.getConversationId(userId, heldTranscript.partnerId);
+    if (!conversations.conversations.some(conversation => conversation.id === conversationId)) return;
+
+    setHeldTranscript(null);
+    ChatService.saveTranscriptIfAgreed(
+      heldTranscript.callId,
+      userId,
+      heldTranscript.partnerId,
+      heldTranscript.messages
+    ).catch(error => console.error('Failed to save transcript:', error));
+  }, [heldTranscript, conversations.conversations, userId]);
+
   // Handle coin balance click to navigate to coins tab
   useEffect(() => {
     const handleHashChange = () => {
@@ -131,6 +226,23 @@ const Index = () => {
     return () => window.removeEventListener('hashchange', handleHashChange);
   }, []);
 
+  // Follow the search to the other call screen if it was widened to a new call type
+  useEffect(() => {
+    setCurrentScreen(current => {
+      if (current === "call" && matching.callType === "voice") return "voice-call";
+      if (current === "voice-call" && matching.callType === "video") return "call";
+      return current;
+    });
+  }, [matching.callType]);
+
+  // Remember who we were paired with so the next search skips them for a while
+  const { recordMeeting } = blockList;
+  useEffect(() => {
+    if (matching.partnerId) {
+      recordMeeting(matching.partnerId);
+    }
+  }, [matching.partnerId, recordMeeting]);
+
   // Event handlers
   const handleStartMatch = () => {
     if (userProfile) {
@@ -141,12 +253,9 @@ const Index = () => {
         description: explanation.description,
       });
       
-      // Start the matching process
-      matching.startMatching(userProfile.matchPreference).then((result) => {
-        if (result) {
-          setCurrentScreen("call");
-        }
-      });
+      // Start the matching process; the call screen shows the search progress
+      matching.startMatching(userProfile.matchPreference, 'video');
+      setCurrentScreen("call");
     }
   };
 
@@ -159,15 +268,37 @@ const Index = () => {
         description: explanation.description,
       });
       
-      // Start the matching process
-      matching.startMatching(userProfile.matchPreference).then((result) => {
-        if (result) {
-          setCurrentScreen("voice-call");
-        }
-      });
+      // Start the matching process; the call screen shows the search progress
+      matching.startMatching(userProfile.matchPreference, 'voice');
+      setCurrentScreen("voice-call");
     }
   };
 
+  const handleEndCall = () => {
+    if (matching.status !== 'matched') {
+      // Left before anyone was found, so there is no partner to review
+      matching.cancelMatching();
+      setCurrentScreen("home");
+      return;
+    }
+
+    // The match stays around until the post-call screen is dismissed
+    setCurrentScreen("post-call");
+    // Trigger mystery box chance after ending call
+    setTimeout(() => {
+      triggerMysteryBox();
+    }, 1000);
+  };
+
+  // The call screen has already hung up; there's no one to review afterwards
+  const handleBlockPartner = () => {
+    if (matching.partnerId) {
+      blockList.blockUser(matching.partnerId);
+    }
+    matching.endMatch();
+    setCurrentScreen("home");
+  };
+
   const handleBuyCoins = () => {
     setShowCoinModal(true);
   };
@@ -180,9 +311,14 @@ const Index = () => {
     // This is called after successful payment - no action needed here
   };
 
-  const handleCoinPurchaseSuccess = (pack: string, coins: number) => {
-    // Add coins to balance after successful payment
-    setCoinBalance(prev => prev + coins);
+  // Purchases are fulfilled server-side; show what the server says we now hold
+  const applyEntitlements = (entitlements?: EntitlementState) => {
+    refreshWallet();
+    applyServerEntitlements(entitlements);
+  };
+
+  const handleCoinPurchaseSuccess = (pack: string, coins: number, entitlements?: EntitlementState) => {
+    applyEntitlements(entitlements);
     
     toast({
       title: "Coins Added Successfully! 💰",
@@ -190,26 +326,19 @@ const Index = () => {
     });
   };
 
-  const handleSubscription = (plan: string, autoRenew: boolean) => {
+  const handleSubscription = (plan: string, entitlements?: EntitlementState) => {
     if (plan === 'daily-unlimited') {
-      setHasUnlimitedCalls(true);
-      setAutoRenewEnabled(autoRenew);
-      
-      // Set expiry to 24 hours from now
-      const expiry = new Date();
-      expiry.setHours(expiry.getHours() + 24);
-      setUnlimitedCallsExpiry(expiry);
+      applyEntitlements(entitlements);
       
       toast({
         title: "Unlimited Calls Activated! 🎉",
-        description: `Payment successful! You now have unlimited voice calls for 24 hours. ${autoRenew ? 'Auto-renew is enabled.' : ''}`,
+        description: "Payment successful! You now have unlimited voice calls for 24 hours.",
       });
     }
   };
   
-  const handlePremiumSubscribe = (plan: string) => {
-    // Only activate premium after successful payment
-    setIsPremium(true);
+  const handlePremiumSubscribe = (plan: string, entitlements?: EntitlementState) => {
+    applyEntitlements(entitlements);
     setCurrentScreen("home");
     
     toast({
@@ -218,17 +347,18 @@ const Index = () => {
     });
   };
 
-  const handleStreakRewardClaim = (day: number, reward: { type: 'coins' | 'premium'; amount?: number }) => {
-    claimReward(day);
-    
+  const handleStreakRewardClaim = async (day: number, reward: { type: 'coins' | 'premium'; amount?: number }) => {
     if (reward.type === 'coins' && reward.amount) {
-      setCoinBalance(prev => prev + reward.amount!);
+      if (!(await claimCoinReward(reward.amount, 'streak'))) return;
+
+      claimReward(day);
       toast({
         title: "Streak Reward Claimed!",
         description: `You earned ${reward.amount} coins for your ${day}-day streak!`,
       });
     } else if (reward.type === 'premium') {
-      setIsPremium(true);
+      claimReward(day);
+      setHasStreakPremium(true);
       toast({
         title: "Premium Boost Activated!",
         description: "You've unlocked premium features for reaching a 30-day streak!",
@@ -236,10 +366,10 @@ const Index = () => {
     }
   };
 
-  const handleMysteryBoxReward = () => {
+  const handleMysteryBoxReward = async () => {
     if (currentReward) {
       if (currentReward.type === 'coins' && currentReward.amount) {
-        setCoinBalance(prev => prev + currentReward.amount!);
+        if (!(await claimCoinReward(currentReward.amount, 'mystery'))) return;
       }
       
       toast({
@@ -258,15 +388,17 @@ const Index = () => {
   };
 
   const handleCoinsEarned = (amount: number) => {
-    setCoinBalance(prev => prev + amount);
+    claimCoinReward(amount, 'spin');
   };
 
-  const handleSpendCoins = (amount: number) => {
-    setCoinBalance(prev => Math.max(0, prev - amount));
+  const handleSpendCoins = async (amount: number) => {
+    if (!(await spendCoins(amount, 'call'))) return false;
+
     toast({
       title: "Coins spent",
       description: `${amount} coins used for voice call.`,
     });
+    return true;
   };
 
   // SINGLE RETURN STATEMENT WITH CONDITIONAL RENDERING
@@ -304,13 +436,7 @@ const Index = () => {
         <>
           {currentScreen === "call" && (
             <VideoCallScreen
-              onEndCall={() => {
-                setCurrentScreen("post-call");
-                // Trigger mystery box chance after ending call
-                setTimeout(() => {
-                  triggerMysteryBox();
-                }, 1000);
-              }}
+              onEndCall={handleEndCall}
               onReconnect={() => {
                 toast({
                   title: "Reconnecting...",
@@ -323,30 +449,25 @@ const Index = () => {
                   description: "Thank you for keeping our community safe.",
                 });
               }}
-              onBlock={() => {
-                toast({
-                  title: "User blocked",
-                  description: "You won't be matched with this user again.",
-                });
-              }}
+              onBlock={handleBlockPartner}
               coinBalance={coinBalance}
-              onSpendCoins={(amount) => {
-                setCoinBalance(prev => Math.max(0, prev - amount));
-              }}
+              onSpendCoins={spendCoins}
+              onRefundCallCoins={refundCallCoins}
               userProfile={userProfile}
               isPremium={isPremium}
+              matchStatus={matching.status}
+              callId={matching.callId}
+              partnerId={matching.partnerId}
+              widenSuggestion={matching.widenSuggestion}
+              onAcceptWiden={matching.acceptWidening}
+              onDeclineWiden={matching.declineWidening}
+              onTranscriptChange={setCallTranscript}
             />
           )}
 
           {currentScreen === "voice-call" && (
             <VoiceCallActiveScreen
-              onEndCall={() => {
-                setCurrentScreen("post-call");
-                // Trigger mystery box chance after ending call
-                setTimeout(() => {
-                  triggerMysteryBox();
-                }, 1000);
-              }}
+              onEndCall={handleEndCall}
               onReconnect={() => {
                 toast({
                   title: "Reconnecting...",
@@ -359,26 +480,36 @@ const Index = () => {
                   description: "Thank you for keeping our community safe.",
                 });
               }}
-              onBlock={() => {
-                toast({
-                  title: "User blocked",
-                  description: "You won't be matched with this user again.",
-                });
-              }}
+              onBlock={handleBlockPartner}
               coinBalance={coinBalance}
-              onSpendCoins={(amount) => {
-                setCoinBalance(prev => Math.max(0, prev - amount));
-              }}
+              onSpendCoins={spendCoins}
+              onRefundCallCoins={refundCallCoins}
+              userProfile={userProfile}
+              isPremium={isPremium}
+              matchStatus={matching.status}
+              callId={matching.callId}
+              partnerId={matching.partnerId}
+              widenSuggestion={matching.widenSuggestion}
+              onAcceptWiden={matching.acceptWidening}
+              onDeclineWiden={matching.declineWidening}
+              onTranscriptChange={setCallTranscript}
             />
           )}
 
           {currentScreen === "post-call" && (
             <PostCallProfileScreen
               profile={mockCallPartnerProfile}
+              transcriptMessageCount={callTranscript.length}
+              saveTranscript={saveTranscript}
+              onSaveTranscriptChange={setSaveTranscript}
               onReject={() => {
+                recordCallDecision(false);
+                matching.endMatch();
                 setCurrentScreen("home");
               }}
               onAccept={() => {
+                recordCallDecision(true);
+                matching.endMatch();
                 setCurrentScreen("home");
                 setActiveTab("chat");
               }}
@@ -386,23 +517,35 @@ const Index = () => {
           )}
 
           {currentScreen === "chat-detail" && activeChatId && (() => {
-            const chat = chatData[activeChatId];
-            if (!chat) {
-              setCurrentScreen("home");
-              setActiveTab("chat");
+            if (!activeConversation) {
+              if (!conversations.loading) {
+                setCurrentScreen("home");
+                setActiveTab("chat");
+              }
               return null;
             }
-            
+
+            const partnerId = getPartnerId(activeConversation, userId);
+            const partnerPresence = presence[partnerId] ?? EMPTY_PRESENCE;
+
             return (
               <ChatDetailScreen
-                chat={chat}
+                chat={{
+                  id: activeConversation.id,
+                  name: getPartnerName(activeConversation, userId),
+                  messages: activeChat.messages
+                }}
+                presenceLabel={PresenceService.describe(partnerPresence, presenceNow)}
+                isPartnerTyping={PresenceService.isTypingIn(partnerPresence, activeConversation.id, presenceNow)}
+                hasMore={activeChat.hasMore}
+                onLoadOlder={activeChat.loadOlder}
+                onTyping={setTyping}
+                onRetry={activeChat.retryMessage}
                 onBack={() => {
                   setCurrentScreen("home");
                   setActiveTab("chat");
                 }}
-                onSend={(text) => {
-                  // Message sent logic here
-                }}
+                onSend={activeChat.sendMessage}
               />
             );
           })()}
@@ -415,9 +558,11 @@ const Index = () => {
                 setCurrentScreen("home");
                 setActiveTab("profile");
               }}
-              onUnlockProfile={(profileId, cost) => {
+              onUnlockProfile={async (profileId, cost) => {
+                if (!(await spendCoins(cost, 'unlock', `unlock:${profileId}`, profileId))) return false;
+
                 unlockProfile(profileId);
-                setCoinBalance(prev => prev - cost);
+                return true;
               }}
               onBuyCoins={handleBuyCoins}
             />
@@ -496,23 +641,16 @@ const Index = () => {
                     coinBalance={coinBalance}
                     streakData={streakData}
                     hasUnlimitedCalls={hasUnlimitedCalls}
-                    unlimitedCallsExpiry={unlimitedCallsExpiry}
-                    autoRenewEnabled={autoRenewEnabled}
+                    unlimitedCallsExpiry={entitlements?.unlimitedCallsUntil ?? null}
                     onBuyCoins={handleBuyCoins}
                     onOpenStreakModal={() => setShowStreakModal(true)}
                     onOpenSpinWheel={handleOpenSpinWheel}
-                    onManageSubscription={() => {
-                      toast({
-                        title: "Subscription Management",
-                        description: "You can cancel auto-renew anytime in your account settings.",
-                      });
-                    }}
                   />
                 )}
                 
                 {activeTab === "chat" && (
                   <ChatListScreen
-                    chats={chats}
+                    chats={chatPreviews}
                     onOpenChat={(chatId) => {
                       setActiveChatId(chatId);
                       setCurrentScreen("chat-detail");
@@ -528,6 +666,10 @@ const Index = () => {
                     onUpdateProfile={(updatedProfile) => setUserProfile({ ...userProfile, ...updatedProfile })}
                     onBuyCoins={handleBuyCoins}
                     onViewBlurredProfiles={() => setCurrentScreen("blurred-profiles")}
+                    blockedUserIds={blockList.blockedUserIds}
+                    recentPartnerIds={blockList.recentPartners.map(meeting => meeting.userId)}
+                    onBlockUser={blockList.blockUser}
+                    onUnblockUser={blockList.unblockUser}
                   />
                 )}
               </div>
@@ -537,6 +679,7 @@ const Index = () => {
                 activeTab={activeTab} 
                 onTabChange={setActiveTab} 
                 hasNewProfileActivity={blurredProfiles.some(p => !p.isUnlocked)}
+                unreadMessages={conversations.totalUnread}
               />
             </>
           )}
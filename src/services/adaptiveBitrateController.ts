@@ -0,0 +1,129 @@
+import {
+  VIDEO_QUALITY_LEVELS,
+  VideoQualityLevel,
+  DATA_SAVER_BEST_LEVEL,
+  DATA_SAVER_STORAGE_KEY
+} from '@/config/videoQuality';
+import { CallQualitySample } from '@/services/callStatsMonitor';
+
+// Consecutive samples needed before changing level. Stepping down reacts
+// quickly; stepping up waits so quality doesn't flap on a shaky link.
+const DOWNGRADE_SCORE = 2;
+const UPGRADE_AFTER_SAMPLES = 5;
+// Step down when congestion control estimates less than this share of the current cap
+const CONSTRAINED_BITRATE_RATIO = 0.8;
+
+export function isDataSaverEnabled(): boolean {
+  return localStorage.getItem(DATA_SAVER_STORAGE_KEY) === 'true';
+}
+
+export function setDataSaverEnabled(enabled: boolean): void {
+  localStorage.setItem(DATA_SAVER_STORAGE_KEY, String(enabled));
+}
+
+function levelIndex(name: VideoQualityLevel['name']): number {
+  return VIDEO_QUALITY_LEVELS.findIndex(level => level.name === name);
+}
+
+// Drives RTCRtpSender.setParameters for the outgoing video track from call stats
+export class AdaptiveBitrateController {
+  private sender: RTCRtpSender;
+  private currentIndex: number = 0;
+  // Best level allowed; data saver raises it
+  private bestIndex: number = 0;
+  private downgradeScore: number = 0;
+  private upgradeStreak: number = 0;
+  private isApplying: boolean = false;
+
+  constructor(sender: RTCRtpSender, dataSaver: boolean) {
+    this.sender = sender;
+    this.bestIndex = dataSaver ? levelIndex(DATA_SAVER_BEST_LEVEL) : 0;
+    this.currentIndex = this.bestIndex;
+  }
+
+  async start(): Promise<void> {
+    await this.applyLevel(this.currentIndex);
+  }
+
+  getLevel(): VideoQualityLevel {
+    return VIDEO_QUALITY_LEVELS[this.currentIndex];
+  }
+
+  async setDataSaver(enabled: boolean): Promise<void> {
+    this.bestIndex = enabled ? levelIndex(DATA_SAVER_BEST_LEVEL) : 0;
+
+    if (this.currentIndex < this.bestIndex) {
+      await this.applyLevel(this.bestIndex);
+    }
+  }
+
+  handleSample(sample: CallQualitySample): void {
+    if (sample.signalStrength === 0 || this.isApplying) return;
+
+    const level = this.getLevel();
+    const isConstrained = level.videoEnabled &&
+      sample.availableOutgoingBitrateKbps !== null &&
+      sample.availableOutgoingBitrateKbps < level.maxBitrateKbps * CONSTRAINED_BITRATE_RATIO;
+    const isPoor = sample.signalStrength === 1;
+    const isFair = sample.signalStrength === 2 || isConstrained;
+
+    if (isPoor || isFair) {
+      this.downgradeScore += isPoor ? 2 : 1;
+      this.upgradeStreak = 0;
+    } else {
+      this.downgradeScore = 0;
+      this.upgradeStreak = sample.signalStrength === 4 ? this.upgradeStreak + 1 : 0;
+    }
+
+    if (this.downgradeScore >= DOWNGRADE_SCORE) {
+      this.downgradeScore = 0;
+      const next = this.currentIndex + 1;
+      // Only give up on video entirely when the link is actually poor
+      const nextIsAudioOnly = !VIDEO_QUALITY_LEVELS[next]?.videoEnabled;
+      if (next < VIDEO_QUALITY_LEVELS.length && (!nextIsAudioOnly || isPoor)) {
+        this.applyLevel(next);
+      }
+    } else if (this.upgradeStreak >= UPGRADE_AFTER_SAMPLES) {
+      this.upgradeStreak = 0;
+      if (this.currentIndex > this.bestIndex) {
+        this.applyLevel(this.currentIndex - 1);
+      }
+    }
+  }
+
+  private async applyLevel(index: number): Promise<void> {
+    const level = VIDEO_QUALITY_LEVELS[index];
+    this.isApplying = true;
+
+    try {
+      const parameters = this.sender.getParameters();
+      if (!parameters.encodings || parameters.encodings.length === 0) {
+        parameters.encodings = [{}];
+      }
+
+      parameters.encodings.forEach((encoding) => {
+        encoding.active = level.videoEnabled;
+        if (level.videoEnabled) {
+          encoding.maxBitrate = level.maxBitrateKbps * 1000;
+          encoding.scaleResolutionDownBy = level.scaleResolutionDownBy;
+          encoding.maxFramerate = level.maxFramerate;
+        }
+      });
+
+      await this.sender.setParameters(parameters);
+
+      const changed = index !== this.currentIndex;
+      this.currentIndex = index;
+      console.log('Video quality level:', level.name);
+      if (changed) {
+        this.onLevelChange?.(level);
+      }
+    } catch (error) {
+      console.error('Failed to apply video quality level:', error);
+    } finally {
+      this.isApplying = false;
+    }
+  }
+
+  onLevelChange?: (level: VideoQualityLevel) => void;
+}
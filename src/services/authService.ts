@@ -2,11 +2,13 @@ import {
   signInWithEmailAndPassword, 
   createUserWithEmailAndPassword,
   signOut,
+  signInWithCustomToken,
   onAuthStateChanged,
   User,
   updateProfile
 } from 'firebase/auth';
 import { auth } from '@/config/firebase';
+import { supabase } from '@/integrations/supabase/client';
 
 export class AuthService {
   // Sign up with email and password
@@ -44,6 +46,20 @@ export class AuthService {
     }
   }
 
+  // Sign Firestore in as the Supabase user, with a custom token for the same
+  // ID from the firebase-token function, so security rules see that ID
+  static async signInAsSupabaseUser(supabaseUserId: string): Promise<User> {
+    if (auth.currentUser?.uid === supabaseUserId) return auth.currentUser;
+
+    const { data, error } = await supabase.functions.invoke('firebase-token');
+    if (error || !data.success) {
+      throw new Error(data?.error || 'Failed to get Firebase token');
+    }
+
+    const userCredential = await signInWithCustomToken(auth, data.token);
+    return userCredential.user;
+  }
+
   // Get current user
   static getCurrentUser(): User | null {
     return auth.currentUser;
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { collection, addDoc, getDocs, Timestamp } from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import { CallMatchingService, MatchingRequest } from '@/services/callMatchingService';
+
+// Many users joining the real queue at once, against the Firestore emulator:
+//   firebase emulators:start --only firestore
+//   FIRESTORE_EMULATOR_HOST=localhost:8080 npx vitest run src/services/callMatchingService.emulator.test.ts
+// Skipped when no emulator is configured.
+const PROJECT_ID = 'demo-matching';
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+vi.mock('@/config/firebase', async () => {
+  const { initializeApp } = await import('firebase/app');
+  const { getFirestore, connectFirestoreEmulator } = await import('firebase/firestore');
+  const [host, port] = (process.env.FIRESTORE_EMULATOR_HOST ?? 'localhost:8080').split(':');
+  const db = getFirestore(initializeApp({ projectId: 'demo-matching' }, 'matching-emulator'));
+  connectFirestoreEmulator(db, host, Number(port));
+  return { db };
+});
+
+interface CallDoc {
+  callerId: string;
+  receiverId: string;
+}
+
+// This run is about claim races, not permissions (firestoreRules.emulator.test.ts
+// covers those), so the project gets open rules instead of firestore.rules
+async function openRules(): Promise<void> {
+  const content = "rules_version = '2'; service cloud.firestore { match /{document=**} { allow read, write: if true; } }";
+  await fetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}:securityRules`, {
+    method: 'PUT',
+    body: JSON.stringify({ rules: { files: [{ content }] } })
+  });
+}
+
+async function clearEmulator(): Promise<void> {
+  await fetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, {
+    method: 'DELETE'
+  });
+}
+
+async function readAll<T>(name: string): Promise<(T & { id: string })[]> {
+  const snapshot = await getDocs(collection(db, name));
+  return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as T & { id: string });
+}
+
+describe.skipIf(!emulatorHost)('CallMatchingService under concurrent joiners', () => {
+  const services: { service: CallMatchingService; requestId: string | null }[] = [];
+
+  beforeAll(async () => {
+    await openRules();
+  });
+
+  beforeEach(async () => {
+    await clearEmulator();
+  });
+
+  afterAll(async () => {
+    // Stop listeners and timers for anyone still waiting
+    await Promise.all(services.map(({ service, requestId }) => requestId && service.cancelMatching(requestId)));
+    await clearEmulator();
+  });
+
+  it('never gives a waiting request, or a joiner, more than one partner', async () => {
+    const WAITING = 15;
+    const JOINERS = 40;
+
+    // Oldest first, and more than one page of them
+    for (let index = 0; index < WAITING; index++) {
+      await addDoc(collection(db, 'matchingRequests'), {
+        userId: `waiting-${index}`,
+        userGender: 'female',
+        preferredGender: 'anyone',
+        isPremium: false,
+        callType: 'video',
+        interests: [],
+        languages: [],
+        region: null,
+        requireSameLanguage: false,
+        status: 'waiting',
+        createdAt: Timestamp.fromMillis(Date.now() - (WAITING - index) * 1000)
+      });
+    }
+
+    const matchesSeen = new Map<string, string[]>();
+    await Promise.all(Array.from({ length: JOINERS }, async (_, index) => {
+      const userId = `joiner-${index}`;
+      const service = new CallMatchingService();
+      service.setPolicy({ widenGenderAfterMs: null, switchCallTypeAfterMs: null });
+      service.onMatchFound = (callId) => {
+        matchesSeen.set(userId, [...(matchesSeen.get(userId) ?? []), callId]);
+      };
+      const entry = { service, requestId: null as string | null };
+      services.push(entry);
+      entry.requestId = await service.startMatching(userId, 'male', 'anyone', false, 'video');
+    }));
+
+    const calls = await readAll<CallDoc>('calls');
+    const requests = await readAll<MatchingRequest>('matchingRequests');
+
+    // Every call pairs two different people, and nobody is in two calls
+    const participants = calls.flatMap(call => [call.callerId, call.receiverId]);
+    expect(calls.every(call => call.callerId !== call.receiverId)).toBe(true);
+    expect(new Set(participants).size).toBe(participants.length);
+
+    // Every matched request points at exactly the call made for it
+    for (const request of requests.filter(request => request.status === 'matched')) {
+      const call = calls.find(candidate => candidate.id === request.callId);
+      expect(call).toMatchObject({ receiverId: request.userId, callerId: request.matchedWith });
+    }
+    expect(requests.filter(request => request.status === 'matched')).toHaveLength(calls.length);
+
+    // A joiner that lost every claim it tried is waiting in the queue instead
+    for (let index = 0; index < JOINERS; index++) {
+      const userId = `joiner-${index}`;
+      const placed = participants.includes(userId) || requests.some(request => request.userId === userId);
+      expect(placed).toBe(true);
+    }
+
+    // Each joiner heard about at most one match
+    expect([...matchesSeen.values()].every(callIds => callIds.length === 1)).toBe(true);
+  }, 60000);
+});
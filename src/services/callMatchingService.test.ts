@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CallMatchingService } from '@/services/callMatchingService';
+
+interface FakeRequest {
+  userId: string;
+  userGender: 'male' | 'female' | 'other';
+  preferredGender: 'anyone' | 'men' | 'women';
+  isPremium: boolean;
+  callType: 'video' | 'voice';
+  status: 'waiting' | 'matched';
+  createdAt: { toMillis(): number };
+}
+
+interface FakeDoc {
+  id: string;
+  data(): FakeRequest;
+}
+
+// An ordered waiting queue, read back a page at a time like Firestore would
+const firestore = vi.hoisted(() => ({
+  queue: [] as { id: string; data(): unknown }[],
+  reads: 0,
+  relations: {} as Record<string, { blocked?: string[] }>,
+  relationsRead: [] as string[],
+  added: [] as unknown[],
+  claimed: [] as string[]
+}));
+
+vi.mock('@/config/firebase', () => ({ db: {} }));
+vi.mock('firebase/firestore', () => ({
+  collection: (_db: unknown, name: string) => name,
+  doc: (...args: unknown[]) => args.length === 3
+    ? { collection: args[1], id: args[2] }
+    : { collection: args[0], id: 'new-call' },
+  query: (_collection: unknown, ...constraints: unknown[]) => constraints,
+  where: () => ({}),
+  orderBy: () => ({}),
+  limit: (count: number) => ({ limit: count }),
+  startAfter: (after: unknown) => ({ startAfter: after }),
+  getDocs: async (constraints: { limit?: number; startAfter?: unknown }[]) => {
+    firestore.reads++;
+    const after = constraints.find(constraint => constraint.startAfter)?.startAfter;
+    const count = constraints.find(constraint => constraint.limit)?.limit ?? Infinity;
+    const start = after ? firestore.queue.indexOf(after as FakeDoc) + 1 : 0;
+    return { docs: firestore.queue.slice(start, start + count) };
+  },
+  runTransaction: async (_db: unknown, update: (transaction: unknown) => Promise<unknown>) => update({
+    get: async (ref: { collection: string; id: string }) => {
+      if (ref.collection === 'userRelations') firestore.relationsRead.push(ref.id);
+      const found = ref.collection === 'userRelations'
+        ? firestore.relations[ref.id]
+        : firestore.queue.find(queued => queued.id === ref.id)?.data();
+      return { exists: () => !!found, data: () => found };
+    },
+    set: () => {},
+    // Refuses a claim the owner's exclusions rule out, as the security rules do
+    update: (ref: { id: string }, data: { matchedWith: string }) => {
+      const owner = (firestore.queue.find(queued => queued.id === ref.id)?.data() as FakeRequest | undefined)?.userId;
+      if (owner && firestore.relations[owner]?.blocked?.includes(data.matchedWith)) {
+        throw new Error('Missing or insufficient permissions.');
+      }
+      firestore.claimed.push(ref.id);
+    },
+    delete: () => {}
+  }),
+  addDoc: async (_collection: unknown, data: unknown) => {
+    firestore.added.push(data);
+    return { id: 'own-request' };
+  },
+  onSnapshot: () => () => {},
+  deleteDoc: async () => {},
+  Timestamp: { now: () => ({ toMillis: () => Date.now() }) }
+}));
+
+function waiting(id: string, overrides: Partial<FakeRequest> = {}): FakeDoc {
+  const request: FakeRequest = {
+    userId: id,
+    userGender: 'female',
+    preferredGender: 'anyone',
+    isPremium: false,
+    callType: 'video',
+    status: 'waiting',
+    createdAt: { toMillis: () => 0 },
+    ...overrides
+  };
+  return { id, data: () => request };
+}
+
+// Premium users who only want women, so a man can't take their request
+function unreachable(count: number): FakeDoc[] {
+  return Array.from({ length: count }, (_, index) =>
+    waiting(`premium-${index}`, { preferredGender: 'women', isPremium: true })
+  );
+}
+
+describe('CallMatchingService queue search', () => {
+  beforeEach(() => {
+    firestore.queue = [];
+    firestore.reads = 0;
+    firestore.relations = {};
+    firestore.relationsRead = [];
+    firestore.added = [];
+    firestore.claimed = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('pages past a full page of incompatible requests to find a match', async () => {
+    firestore.queue = [...unreachable(10), waiting('eleventh')];
+    const service = new CallMatchingService();
+    const onMatchFound = vi.fn();
+    service.onMatchFound = onMatchFound;
+
+    const callId = await service.startMatching('joiner', 'male', 'anyone', false, 'video');
+
+    expect(callId).toBe('new-call');
+    expect(firestore.claimed).toEqual(['eleventh']);
+    expect(onMatchFound).toHaveBeenCalledWith('new-call', 'eleventh', { sharedInterests: [] });
+    expect(firestore.added).toEqual([]);
+  });
+
+  it('stops at the end of the queue', async () => {
+    firestore.queue = unreachable(3);
+    const service = new CallMatchingService();
+
+    const requestId = await service.startMatching('joiner', 'male', 'anyone', false, 'video');
+    await service.cancelMatching(requestId);
+
+    expect(firestore.reads).toBe(1);
+    expect(requestId).toBe('own-request');
+  });
+
+  it('gives up after a bounded number of pages and waits in the queue', async () => {
+    firestore.queue = unreachable(100);
+    const service = new CallMatchingService();
+
+    const requestId = await service.startMatching('joiner', 'male', 'anyone', false, 'video');
+    await service.cancelMatching(requestId);
+
+    expect(firestore.reads).toBe(5);
+    expect(firestore.claimed).toEqual([]);
+    expect(firestore.added).toMatchObject([{ userId: 'joiner', status: 'waiting' }]);
+  });
+
+  it('moves on when the rules refuse a request whose owner blocked us, without reading their block list', async () => {
+    firestore.queue = [waiting('blocker'), waiting('friendly')];
+    firestore.relations = { blocker: { blocked: ['joiner'] } };
+    const service = new CallMatchingService();
+    const onMatchFound = vi.fn();
+    service.onMatchFound = onMatchFound;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await service.startMatching('joiner', 'male', 'anyone', false, 'video');
+
+    expect(firestore.claimed).toEqual(['friendly']);
+    expect(onMatchFound).toHaveBeenCalledWith('new-call', 'friendly', { sharedInterests: [] });
+    expect(firestore.relationsRead.every(userId => userId === 'joiner')).toBe(true);
+  });
+
+  it("doesn't claim a request from someone we blocked", async () => {
+    firestore.queue = [waiting('blocked-by-us'), waiting('friendly')];
+    firestore.relations = { joiner: { blocked: ['blocked-by-us'] } };
+    const service = new CallMatchingService();
+
+    await service.startMatching('joiner', 'male', 'anyone', false, 'video');
+
+    expect(firestore.claimed).toEqual(['friendly']);
+  });
+
+  it('keeps our own exclusions off the request we queue', async () => {
+    const service = new CallMatchingService();
+
+    const requestId = await service.startMatching('joiner', 'male', 'anyone', false, 'video', {
+      interests: [],
+      languages: [],
+      excludedUserIds: ['someone']
+    });
+    await service.cancelMatching(requestId);
+
+    expect(firestore.added).toHaveLength(1);
+    expect(firestore.added[0]).not.toHaveProperty('excludedUserIds');
+  });
+});
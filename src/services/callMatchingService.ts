@@ -2,17 +2,22 @@ import {
   collection, 
   doc, 
   addDoc, 
-  updateDoc, 
   deleteDoc, 
+  getDocs,
   onSnapshot, 
   query, 
   where,
   orderBy,
   limit,
+  startAfter,
+  runTransaction,
   Timestamp,
-  DocumentData 
+  QueryDocumentSnapshot
 } from 'firebase/firestore';
 import { db } from '@/config/firebase';
+import { MatchingBackend, MatchingWidenStep, MatchingProfile, MatchDetails } from '@/services/matchingService';
+import { UserRelationsService } from '@/services/userRelationsService';
+import { rankCandidates, getSharedInterests, sharesLanguage, acceptsGender } from '@/utils/matchScoring';
 
 export interface MatchingRequest {
   id: string;
@@ -21,15 +26,62 @@ export interface MatchingRequest {
   preferredGender: 'anyone' | 'men' | 'women';
   isPremium: boolean;
   callType: 'video' | 'voice';
+  interests?: string[];
+  languages?: string[];
+  region?: string | null;
+  requireSameLanguage?: boolean;
   status: 'waiting' | 'matched' | 'cancelled';
   createdAt: Timestamp;
   matchedWith?: string;
   callId?: string;
+  sharedInterests?: string[];
 }
 
-export class CallMatchingService {
+// How long a search may run and when it may be widened. Widening steps are
+// only offered to the user; nothing changes until acceptWidening is called.
+export interface MatchingPolicy {
+  maxWaitMs: number;
+  // Offer to drop a premium gender preference after this long (null: never)
+  widenGenderAfterMs: number | null;
+  // Offer to switch between video and voice after this long (null: never)
+  switchCallTypeAfterMs: number | null;
+}
+
+export const DEFAULT_MATCHING_POLICY: MatchingPolicy = {
+  maxWaitMs: 90000,
+  widenGenderAfterMs: 20000,
+  switchCallTypeAfterMs: 45000
+};
+
+interface SearchParams {
+  userId: string;
+  userGender: 'male' | 'female' | 'other';
+  preferredGender: 'anyone' | 'men' | 'women';
+  isPremium: boolean;
+  callType: 'video' | 'voice';
+  profile: MatchingProfile;
+}
+
+interface ActiveSearch extends SearchParams {
+  requestId: string;
+  startedAt: number;
+  offeredSteps: MatchingWidenStep[];
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+// How many times Firestore may retry a claim transaction under contention
+const MAX_CLAIM_ATTEMPTS = 3;
+
+// Waiting requests are read a page at a time, and only so many pages are read
+// before giving up and joining the queue ourselves
+const MATCH_PAGE_SIZE = 10;
+const MAX_MATCH_PAGES = 5;
+
+export class CallMatchingService implements MatchingBackend {
   private static instance: CallMatchingService;
   private matchingUnsubscribe: (() => void) | null = null;
+  private policy: MatchingPolicy = DEFAULT_MATCHING_POLICY;
+  private activeSearch: ActiveSearch | null = null;
 
   static getInstance(): CallMatchingService {
     if (!CallMatchingService.instance) {
@@ -38,75 +90,230 @@ export class CallMatchingService {
     return CallMatchingService.instance;
   }
 
+  setPolicy(policy: Partial<MatchingPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
   // Start looking for a match
   async startMatching(
     userId: string,
     userGender: 'male' | 'female' | 'other',
     preferredGender: 'anyone' | 'men' | 'women',
     isPremium: boolean,
-    callType: 'video' | 'voice'
+    callType: 'video' | 'voice',
+    profile?: MatchingProfile
+  ): Promise<string> {
+    this.stopActiveSearch();
+    const matchingProfile: MatchingProfile = {
+      interests: profile?.interests ?? [],
+      languages: profile?.languages ?? [],
+      region: profile?.region,
+      // Language as a hard filter is a premium feature
+      requireSameLanguage: isPremium && !!profile?.requireSameLanguage,
+      excludedUserIds: profile?.excludedUserIds ?? []
+    };
+    return this.enqueue({ userId, userGender, preferredGender, isPremium, callType, profile: matchingProfile }, Date.now(), []);
+  }
+
+  // Claim a compatible waiting request, or wait in the queue ourselves
+  private async enqueue(
+    params: SearchParams,
+    startedAt: number,
+    offeredSteps: MatchingWidenStep[]
   ): Promise<string> {
+    const { userId, userGender, preferredGender, isPremium, callType, profile } = params;
+
     try {
-      // First, try to find an existing match
-      const existingMatch = await this.findExistingMatch(userGender, preferredGender, isPremium, callType);
-      
-      if (existingMatch) {
-        // Join existing match
-        await this.joinMatch(existingMatch.id, userId);
-        return existingMatch.callId || existingMatch.id;
-      } else {
-        // Create new matching request
-        const matchingDoc = await addDoc(collection(db, 'matchingRequests'), {
-          userId,
-          userGender,
-          preferredGender,
-          isPremium,
-          callType,
-          status: 'waiting',
-          createdAt: Timestamp.now()
-        });
+      // First, try to claim an existing compatible request, best scored first.
+      // Another joiner may claim the same one concurrently, so fall through to
+      // the next candidate whenever a claim is lost.
+      const candidates = await this.findExistingMatches(userId, userGender, preferredGender, isPremium, callType, profile);
 
-        // Listen for matches
-        this.listenForMatch(matchingDoc.id, userId);
-        
-        return matchingDoc.id;
+      for (const candidate of candidates) {
+        const details: MatchDetails = {
+          sharedInterests: getSharedInterests(profile.interests, candidate.interests)
+        };
+        const callId = await this.joinMatch(candidate.id, userId, details);
+        if (callId) {
+          this.onMatchFound?.(callId, candidate.userId, details);
+          return callId;
+        }
       }
+
+      // Create new matching request
+      const matchingDoc = await addDoc(collection(db, 'matchingRequests'), {
+        userId,
+        userGender,
+        preferredGender,
+        isPremium,
+        callType,
+        interests: profile.interests,
+        languages: profile.languages,
+        region: profile.region ?? null,
+        requireSameLanguage: !!profile.requireSameLanguage,
+        status: 'waiting',
+        createdAt: Timestamp.now()
+      });
+
+      // Listen for matches
+      this.listenForMatch(matchingDoc.id, userId);
+
+      this.activeSearch = {
+        ...params,
+        requestId: matchingDoc.id,
+        startedAt,
+        offeredSteps,
+        timers: []
+      };
+      this.scheduleSearchTimers(this.activeSearch);
+      
+      return matchingDoc.id;
     } catch (error: any) {
       throw new Error(`Failed to start matching: ${error.message}`);
     }
   }
 
-  // Find an existing compatible match
-  private async findExistingMatch(
+  // Schedule the widening offers and the give-up timer, relative to when the
+  // search first started so requeueing after a widen keeps the same deadline
+  private scheduleSearchTimers(search: ActiveSearch): void {
+    const elapsed = Date.now() - search.startedAt;
+    const steps: [MatchingWidenStep, number | null][] = [
+      ['gender', search.isPremium && search.preferredGender !== 'anyone' ? this.policy.widenGenderAfterMs : null],
+      ['callType', this.policy.switchCallTypeAfterMs]
+    ];
+
+    for (const [step, afterMs] of steps) {
+      if (afterMs === null || search.offeredSteps.includes(step)) continue;
+
+      search.timers.push(setTimeout(() => {
+        search.offeredSteps.push(step);
+        this.onWidenSuggested?.(step);
+      }, Math.max(0, afterMs - elapsed)));
+    }
+
+    search.timers.push(setTimeout(() => {
+      this.expireSearch(search);
+    }, Math.max(0, this.policy.maxWaitMs - elapsed)));
+  }
+
+  // Accept a widening step the user was offered: withdraw the waiting request
+  // and queue again with the relaxed filter
+  async acceptWidening(step: MatchingWidenStep): Promise<string | null> {
+    const search = this.activeSearch;
+    if (!search) return null;
+
+    // If someone claimed the request meanwhile, the match listener reports it
+    if (!(await this.withdrawRequest(search.requestId))) return null;
+    this.stopActiveSearch();
+
+    const params: SearchParams = {
+      userId: search.userId,
+      userGender: search.userGender,
+      preferredGender: step === 'gender' ? 'anyone' : search.preferredGender,
+      isPremium: search.isPremium,
+      profile: search.profile,
+      callType: step === 'callType'
+        ? (search.callType === 'video' ? 'voice' : 'video')
+        : search.callType
+    };
+
+    return this.enqueue(params, search.startedAt, search.offeredSteps);
+  }
+
+  private async expireSearch(search: ActiveSearch): Promise<void> {
+    if (this.activeSearch !== search) return;
+
+    if (await this.withdrawRequest(search.requestId)) {
+      this.stopActiveSearch();
+      this.onTimeout?.();
+    }
+  }
+
+  // Delete a request only if it is still waiting, so a concurrent claim wins
+  private async withdrawRequest(matchingRequestId: string): Promise<boolean> {
+    try {
+      const matchingRef = doc(db, 'matchingRequests', matchingRequestId);
+
+      return await runTransaction(db, async (transaction) => {
+        const matchingSnap = await transaction.get(matchingRef);
+
+        if (!matchingSnap.exists() || matchingSnap.data().status !== 'waiting') {
+          return false;
+        }
+
+        transaction.delete(matchingRef);
+        return true;
+      });
+    } catch (error) {
+      console.error('Failed to withdraw matching request:', error);
+      return false;
+    }
+  }
+
+  // Stop timers and the match listener for the current search
+  private stopActiveSearch(): void {
+    if (this.activeSearch) {
+      this.activeSearch.timers.forEach(timer => clearTimeout(timer));
+      this.activeSearch = null;
+    }
+
+    if (this.matchingUnsubscribe) {
+      this.matchingUnsubscribe();
+      this.matchingUnsubscribe = null;
+    }
+  }
+
+  // Find existing compatible requests among the oldest waiting, best match first.
+  // Exclusions, gender and language can't all be expressed in the query, so
+  // page through the queue until a page turns up someone compatible.
+  private async findExistingMatches(
+    userId: string,
     userGender: 'male' | 'female' | 'other',
     preferredGender: 'anyone' | 'men' | 'women',
     isPremium: boolean,
-    callType: 'video' | 'voice'
-  ): Promise<DocumentData | null> {
+    callType: 'video' | 'voice',
+    profile: MatchingProfile
+  ): Promise<MatchingRequest[]> {
     try {
-      // Look for waiting requests that are compatible
-      let matchQuery = query(
-        collection(db, 'matchingRequests'),
-        where('status', '==', 'waiting'),
-        where('callType', '==', callType),
-        orderBy('createdAt', 'asc'),
-        limit(10)
-      );
+      const compatible: MatchingRequest[] = [];
+      let lastDoc: QueryDocumentSnapshot | null = null;
 
-      const snapshot = await getDocs(matchQuery);
-      
-      for (const docSnap of snapshot.docs) {
-        const request = { id: docSnap.id, ...docSnap.data() } as MatchingRequest;
-        
-        if (this.isCompatibleMatch(request, userGender, preferredGender, isPremium)) {
-          return request;
-        }
+      for (let page = 0; page < MAX_MATCH_PAGES && compatible.length === 0; page++) {
+        const matchQuery = query(
+          collection(db, 'matchingRequests'),
+          where('status', '==', 'waiting'),
+          where('callType', '==', callType),
+          orderBy('createdAt', 'asc'),
+          ...(lastDoc ? [startAfter(lastDoc)] : []),
+          limit(MATCH_PAGE_SIZE)
+        );
+
+        const snapshot = await getDocs(matchQuery);
+
+        compatible.push(...snapshot.docs
+          .map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as MatchingRequest)
+          .filter(request =>
+            request.userId !== userId &&
+            !this.isExcluded(request, profile) &&
+            this.isCompatibleMatch(request, userGender, preferredGender, isPremium) &&
+            this.isLanguageCompatible(request, profile)
+          ));
+
+        // A short page means we've reached the end of the queue
+        if (snapshot.docs.length < MATCH_PAGE_SIZE) break;
+        lastDoc = snapshot.docs[snapshot.docs.length - 1];
       }
 
-      return null;
+      return rankCandidates(profile, compatible, request => ({
+        interests: request.interests,
+        languages: request.languages,
+        region: request.region ?? undefined,
+        isPremium: request.isPremium,
+        waitingSince: request.createdAt.toMillis()
+      }));
     } catch (error: any) {
       console.error('Error finding existing match:', error);
-      return null;
+      return [];
     }
   }
 
@@ -118,14 +325,14 @@ export class CallMatchingService {
     newUserIsPremium: boolean
   ): boolean {
     // Check if existing user would accept new user
-    const existingUserAccepts = this.wouldAcceptGender(
+    const existingUserAccepts = acceptsGender(
       existingRequest.preferredGender,
       existingRequest.isPremium,
       newUserGender
     );
 
     // Check if new user would accept existing user
-    const newUserAccepts = this.wouldAcceptGender(
+    const newUserAccepts = acceptsGender(
       newUserPreference,
       newUserIsPremium,
       existingRequest.userGender
@@ -134,50 +341,74 @@ export class CallMatchingService {
     return existingUserAccepts && newUserAccepts;
   }
 
-  private wouldAcceptGender(
-    preference: 'anyone' | 'men' | 'women',
-    isPremium: boolean,
-    targetGender: 'male' | 'female' | 'other'
-  ): boolean {
-    // Free users accept anyone
-    if (!isPremium) {
-      return true;
-    }
+  // Skip people we've blocked or just met. Whether they've excluded us is
+  // private to them, so that's only checked when claiming their request.
+  private isExcluded(existingRequest: MatchingRequest, profile: MatchingProfile): boolean {
+    return (profile.excludedUserIds ?? []).includes(existingRequest.userId);
+  }
 
-    // Premium users follow their preferences
-    switch (preference) {
-      case 'men':
-        return targetGender === 'male';
-      case 'women':
-        return targetGender === 'female';
-      case 'anyone':
-      default:
-        return true;
-    }
+  // Same-language is a hard filter only for whichever side asked for it
+  private isLanguageCompatible(existingRequest: MatchingRequest, profile: MatchingProfile): boolean {
+    const existingUserAccepts = !existingRequest.requireSameLanguage ||
+      sharesLanguage(existingRequest.languages, profile.languages);
+    const newUserAccepts = !profile.requireSameLanguage ||
+      sharesLanguage(profile.languages, existingRequest.languages);
+
+    return existingUserAccepts && newUserAccepts;
   }
 
-  // Join an existing match
-  private async joinMatch(matchingRequestId: string, userId: string): Promise<void> {
+  // Atomically claim a waiting request and create its call document. Returns
+  // the new call ID, or null if someone else claimed the request first or
+  // either side has excluded the other (a rules denial, for their side).
+  private async joinMatch(matchingRequestId: string, userId: string, details: MatchDetails): Promise<string | null> {
     try {
       const matchingRef = doc(db, 'matchingRequests', matchingRequestId);
-      
-      // Create a call document
-      const callDoc = await addDoc(collection(db, 'calls'), {
-        callerId: userId, // The joiner becomes the caller for WebRTC purposes
-        receiverId: userId, // Will be updated with the original requester
-        status: 'connecting',
-        createdAt: Timestamp.now(),
-        callType: 'video' // Will be updated based on the request
-      });
+      const callRef = doc(collection(db, 'calls'));
 
-      // Update the matching request
-      await updateDoc(matchingRef, {
-        status: 'matched',
-        matchedWith: userId,
-        callId: callDoc.id
-      });
+      return await runTransaction(db, async (transaction) => {
+        const matchingSnap = await transaction.get(matchingRef);
+
+        if (!matchingSnap.exists() || matchingSnap.data().status !== 'waiting') {
+          return null;
+        }
+
+        const request = matchingSnap.data() as MatchingRequest;
+
+        // Exclusions stay in each user's own relations rather than on the
+        // public request. Ours are checked here against current data; the
+        // requester's are private to them, so the security rules refuse the
+        // claim if they've excluded us.
+        const joinerRelations = await transaction.get(doc(db, 'userRelations', userId));
+        if (UserRelationsService.excludes(UserRelationsService.fromData(joinerRelations.data()), request.userId)) {
+          return null;
+        }
+
+        // Create a call document. The joiner becomes the caller and sends the
+        // WebRTC offer; the original requester receives and answers it.
+        transaction.set(callRef, {
+          callerId: userId,
+          receiverId: request.userId,
+          status: 'connecting',
+          createdAt: Timestamp.now(),
+          callType: request.callType,
+          sharedInterests: details.sharedInterests
+        });
+
+        // Move the request from waiting to matched
+        transaction.update(matchingRef, {
+          status: 'matched',
+          matchedWith: userId,
+          callId: callRef.id,
+          sharedInterests: details.sharedInterests
+        });
+
+        return callRef.id;
+      }, { maxAttempts: MAX_CLAIM_ATTEMPTS });
     } catch (error: any) {
-      throw new Error(`Failed to join match: ${error.message}`);
+      // Contention outlasted the retries, or the rules refused the claim; let
+      // the caller try the next candidate
+      console.error('Failed to join match:', error);
+      return null;
     }
   }
 
@@ -190,14 +421,13 @@ export class CallMatchingService {
         const data = docSnap.data() as MatchingRequest;
         
         if (data.status === 'matched' && data.matchedWith && data.callId) {
+          // Clean up listener and search timers
+          this.stopActiveSearch();
+
           // Match found!
-          this.onMatchFound?.(data.callId, data.matchedWith);
-          
-          // Clean up listener
-          if (this.matchingUnsubscribe) {
-            this.matchingUnsubscribe();
-            this.matchingUnsubscribe = null;
-          }
+          this.onMatchFound?.(data.callId, data.matchedWith, {
+            sharedInterests: data.sharedInterests ?? []
+          });
         }
       }
     });
@@ -206,12 +436,8 @@ export class CallMatchingService {
   // Cancel matching
   async cancelMatching(matchingRequestId: string): Promise<void> {
     try {
+      this.stopActiveSearch();
       await deleteDoc(doc(db, 'matchingRequests', matchingRequestId));
-      
-      if (this.matchingUnsubscribe) {
-        this.matchingUnsubscribe();
-        this.matchingUnsubscribe = null;
-      }
     } catch (error: any) {
       console.error('Failed to cancel matching:', error);
     }
@@ -238,11 +464,10 @@ export class CallMatchingService {
   }
 
   // Event handlers
-  onMatchFound?: (callId: string, partnerId: string) => void;
+  onMatchFound?: (callId: string, partnerId: string, details?: MatchDetails) => void;
+  onWidenSuggested?: (step: MatchingWidenStep) => void;
+  onTimeout?: () => void;
   onError?: (error: string) => void;
 }
 
-// Import getDocs for cleanup function
-import { getDocs } from 'firebase/firestore';
-
 export const callMatchingService = CallMatchingService.getInstance();
\ No newline at end of file
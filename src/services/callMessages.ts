@@ -0,0 +1,55 @@
+// Messages the two peers exchange over the call's data channel, as opposed to
+// SignalMessage which only carries connection setup
+export type CallMessage =
+  | { type: 'continue-vote'; continueCall: boolean }
+  // Sent once both voted yes: whether our side paid for the continuation
+  | { type: 'continue-charged'; charged: boolean }
+  | { type: 'reaction'; id: string; emoji: string }
+  | { type: 'chat'; id: string; text: string; sentAt: number }
+  | { type: 'typing'; isTyping: boolean }
+  // Confirms a message with an id arrived; the sender waits for it before charging coins
+  | { type: 'ack'; id: string };
+
+export const CALL_DATA_CHANNEL_LABEL = 'call';
+
+// Enough for any single emoji, including multi-codepoint sequences
+const MAX_REACTION_LENGTH = 16;
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+// A chat line as kept by each side during the call
+export interface InCallChatMessage {
+  id: string;
+  sender: 'me' | 'them';
+  text: string;
+  sentAt: number;
+}
+
+type MessageFields = Record<string, unknown>;
+
+const CALL_MESSAGE_VALIDATORS: { [T in CallMessage['type']]: (message: MessageFields) => boolean } = {
+  'continue-vote': (message) => typeof message.continueCall === 'boolean',
+  'continue-charged': (message) => typeof message.charged === 'boolean',
+  'reaction': (message) => typeof message.id === 'string' &&
+    typeof message.emoji === 'string' &&
+    message.emoji.length <= MAX_REACTION_LENGTH,
+  'chat': (message) => typeof message.id === 'string' &&
+    typeof message.text === 'string' &&
+    message.text.length <= MAX_CHAT_MESSAGE_LENGTH &&
+    typeof message.sentAt === 'number',
+  'typing': (message) => typeof message.isTyping === 'boolean',
+  'ack': (message) => typeof message.id === 'string'
+};
+
+// Data channel payloads come from the other client, so drop anything we don't understand
+export function parseCallMessage(data: unknown): CallMessage | null {
+  if (typeof data !== 'string') return null;
+
+  try {
+    const message = JSON.parse(data);
+    const validate = CALL_MESSAGE_VALIDATORS[message?.type as CallMessage['type']];
+    return validate?.(message) ? message as CallMessage : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,241 @@
+// Samples RTCPeerConnection.getStats() during a call and turns the cumulative
+// counters into per-interval quality figures.
+
+// 0 means no data yet; 1 (poor) to 4 (excellent) otherwise
+export type SignalStrength = 0 | 1 | 2 | 3 | 4;
+
+export interface CallQualitySample {
+  timestamp: number;
+  rttMs: number | null;
+  // Inbound packets lost over the last interval, across audio and video
+  packetLossPercent: number | null;
+  jitterMs: number | null;
+  inboundBitrateKbps: number | null;
+  outboundBitrateKbps: number | null;
+  // Congestion control's estimate of what we can send right now
+  availableOutgoingBitrateKbps: number | null;
+  // Remote video as we receive it; null on voice calls
+  frameRate: number | null;
+  frameWidth: number | null;
+  frameHeight: number | null;
+  localCandidateType: string | null;
+  remoteCandidateType: string | null;
+  signalStrength: SignalStrength;
+}
+
+export interface CallQualitySummary {
+  sampleCount: number;
+  durationMs: number;
+  avgRttMs: number | null;
+  maxRttMs: number | null;
+  avgPacketLossPercent: number | null;
+  avgJitterMs: number | null;
+  avgInboundBitrateKbps: number | null;
+  avgOutboundBitrateKbps: number | null;
+  avgFrameRate: number | null;
+  // Share of samples with poor signal (strength 1)
+  poorSignalRatio: number;
+  lastResolution: string | null;
+  localCandidateType: string | null;
+  remoteCandidateType: string | null;
+}
+
+interface Counters {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+export const STATS_SAMPLE_INTERVAL_MS = 2000;
+
+// The candidate pair ICE settled on. Firefox has no transport stats and flags the pair instead.
+export function findSelectedCandidatePair(stats: RTCStatsReport): RTCIceCandidatePairStats | null {
+  let selectedPair: RTCIceCandidatePairStats | null = null;
+
+  stats.forEach((report) => {
+    if (report.type === 'transport' && report.selectedCandidatePairId) {
+      selectedPair = stats.get(report.selectedCandidatePairId);
+    }
+  });
+
+  if (!selectedPair) {
+    stats.forEach((report) => {
+      if (report.type === 'candidate-pair' && (report.selected || (report.nominated && report.state === 'succeeded'))) {
+        selectedPair = report;
+      }
+    });
+  }
+
+  return selectedPair;
+}
+
+// Thresholds follow common VoIP guidance: loss above a few percent or
+// round trips over a few hundred milliseconds are noticeable
+export function getSignalStrength(rttMs: number | null, packetLossPercent: number | null): SignalStrength {
+  if (rttMs === null && packetLossPercent === null) return 0;
+
+  const rtt = rttMs ?? 0;
+  const loss = packetLossPercent ?? 0;
+
+  if (loss > 10 || rtt > 800) return 1;
+  if (loss > 5 || rtt > 400) return 2;
+  if (loss > 2 || rtt > 200) return 3;
+  return 4;
+}
+
+function average(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return null;
+  return Math.round((present.reduce((sum, value) => sum + value, 0) / present.length) * 10) / 10;
+}
+
+export class CallStatsMonitor {
+  private peerConnection: RTCPeerConnection;
+  private intervalMs: number;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private previous: Counters | null = null;
+  private samples: CallQualitySample[] = [];
+  private startedAt: number = 0;
+
+  constructor(peerConnection: RTCPeerConnection, intervalMs: number = STATS_SAMPLE_INTERVAL_MS) {
+    this.peerConnection = peerConnection;
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    if (this.interval) return;
+
+    this.startedAt = Date.now();
+    this.interval = setInterval(() => {
+      this.sample();
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  getLatestSample(): CallQualitySample | null {
+    return this.samples[this.samples.length - 1] ?? null;
+  }
+
+  getSummary(): CallQualitySummary {
+    const samples = this.samples;
+    const last = this.getLatestSample();
+    const rtts = samples.map(sample => sample.rttMs).filter((rtt): rtt is number => rtt !== null);
+    const poorSamples = samples.filter(sample => sample.signalStrength === 1).length;
+
+    return {
+      sampleCount: samples.length,
+      durationMs: this.startedAt ? Date.now() - this.startedAt : 0,
+      avgRttMs: average(samples.map(sample => sample.rttMs)),
+      maxRttMs: rtts.length > 0 ? Math.max(...rtts) : null,
+      avgPacketLossPercent: average(samples.map(sample => sample.packetLossPercent)),
+      avgJitterMs: average(samples.map(sample => sample.jitterMs)),
+      avgInboundBitrateKbps: average(samples.map(sample => sample.inboundBitrateKbps)),
+      avgOutboundBitrateKbps: average(samples.map(sample => sample.outboundBitrateKbps)),
+      avgFrameRate: average(samples.map(sample => sample.frameRate)),
+      poorSignalRatio: samples.length > 0 ? Math.round((poorSamples / samples.length) * 100) / 100 : 0,
+      lastResolution: last?.frameWidth && last?.frameHeight ? `${last.frameWidth}x${last.frameHeight}` : null,
+      localCandidateType: last?.localCandidateType ?? null,
+      remoteCandidateType: last?.remoteCandidateType ?? null
+    };
+  }
+
+  private async sample(): Promise<void> {
+    if (this.peerConnection.connectionState === 'closed') {
+      this.stop();
+      return;
+    }
+
+    try {
+      const stats = await this.peerConnection.getStats();
+      const now = Date.now();
+
+      const counters: Counters = { timestamp: now, bytesReceived: 0, bytesSent: 0, packetsReceived: 0, packetsLost: 0 };
+      let jitterMs: number | null = null;
+      let remoteRttMs: number | null = null;
+      let frameRate: number | null = null;
+      let frameWidth: number | null = null;
+      let frameHeight: number | null = null;
+
+      stats.forEach((report) => {
+        if (report.type === 'inbound-rtp') {
+          counters.bytesReceived += report.bytesReceived ?? 0;
+          counters.packetsReceived += report.packetsReceived ?? 0;
+          counters.packetsLost += report.packetsLost ?? 0;
+
+          if (typeof report.jitter === 'number') {
+            // Report the worse of the audio and video streams
+            jitterMs = Math.max(jitterMs ?? 0, report.jitter * 1000);
+          }
+
+          if (report.kind === 'video') {
+            frameRate = report.framesPerSecond ?? null;
+            frameWidth = report.frameWidth ?? null;
+            frameHeight = report.frameHeight ?? null;
+          }
+        } else if (report.type === 'outbound-rtp') {
+          counters.bytesSent += report.bytesSent ?? 0;
+        } else if (report.type === 'remote-inbound-rtp' && typeof report.roundTripTime === 'number') {
+          remoteRttMs = report.roundTripTime * 1000;
+        }
+      });
+
+      const selectedPair = findSelectedCandidatePair(stats);
+      const pairRttMs = typeof selectedPair?.currentRoundTripTime === 'number'
+        ? selectedPair.currentRoundTripTime * 1000
+        : null;
+      const rttMs = pairRttMs ?? remoteRttMs;
+      const availableOutgoingBitrateKbps = typeof selectedPair?.availableOutgoingBitrate === 'number'
+        ? Math.round(selectedPair.availableOutgoingBitrate / 1000)
+        : null;
+
+      // Bitrate and loss are deltas against the previous sample
+      const previous = this.previous;
+      this.previous = counters;
+
+      let inboundBitrateKbps: number | null = null;
+      let outboundBitrateKbps: number | null = null;
+      let packetLossPercent: number | null = null;
+
+      if (previous) {
+        const seconds = (now - previous.timestamp) / 1000;
+        inboundBitrateKbps = Math.round(((counters.bytesReceived - previous.bytesReceived) * 8) / 1000 / seconds);
+        outboundBitrateKbps = Math.round(((counters.bytesSent - previous.bytesSent) * 8) / 1000 / seconds);
+
+        const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+        const received = Math.max(0, counters.packetsReceived - previous.packetsReceived);
+        packetLossPercent = lost + received > 0 ? Math.round((lost / (lost + received)) * 1000) / 10 : 0;
+      }
+
+      const sample: CallQualitySample = {
+        timestamp: now,
+        rttMs: rttMs !== null ? Math.round(rttMs) : null,
+        packetLossPercent,
+        jitterMs: jitterMs !== null ? Math.round(jitterMs) : null,
+        inboundBitrateKbps,
+        outboundBitrateKbps,
+        availableOutgoingBitrateKbps,
+        frameRate,
+        frameWidth,
+        frameHeight,
+        localCandidateType: selectedPair ? stats.get(selectedPair.localCandidateId)?.candidateType ?? null : null,
+        remoteCandidateType: selectedPair ? stats.get(selectedPair.remoteCandidateId)?.candidateType ?? null : null,
+        signalStrength: getSignalStrength(rttMs, packetLossPercent)
+      };
+
+      this.samples.push(sample);
+      this.onSample?.(sample);
+    } catch (error) {
+      console.error('Failed to sample call stats:', error);
+    }
+  }
+
+  onSample?: (sample: CallQualitySample) => void;
+}
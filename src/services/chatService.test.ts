@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChatService } from '@/services/chatService';
+import type { InCallChatMessage } from '@/services/callMessages';
+
+// Documents by path, and the writes made to them
+const firestore = vi.hoisted(() => ({
+  docs: {} as Record<string, Record<string, unknown>>,
+  sets: [] as { path: string; data: Record<string, unknown> }[],
+  updates: [] as { path: string; data: Record<string, unknown> }[]
+}));
+
+vi.mock('@/config/firebase', () => ({ db: {} }));
+vi.mock('firebase/firestore', () => {
+  const snapshot = (path: string) => ({
+    exists: () => path in firestore.docs,
+    data: () => firestore.docs[path]
+  });
+
+  return {
+    collection: (_db: unknown, path: string) => ({ path }),
+    doc: (parent: { path?: string }, ...segments: string[]) => ({
+      path: [parent.path, ...segments].filter(Boolean).join('/')
+    }),
+    getDoc: async (ref: { path: string }) => snapshot(ref.path),
+    runTransaction: async (_db: unknown, update: (transaction: unknown) => Promise<unknown>) => update({
+      get: async (ref: { path: string }) => snapshot(ref.path),
+      set: (ref: { path: string }, data: Record<string, unknown>) => {
+        firestore.sets.push({ path: ref.path, data });
+      },
+      update: (ref: { path: string }, data: Record<string, unknown>) => {
+        firestore.updates.push({ path: ref.path, data });
+      }
+    }),
+    Timestamp: {
+      now: () => ({ toMillis: () => 5000 }),
+      fromMillis: (millis: number) => ({ toMillis: () => millis })
+    }
+  };
+});
+
+const transcript: InCallChatMessage[] = [
+  { id: 'm1', sender: 'them', text: 'hi', sentAt: 1000 },
+  { id: 'm2', sender: 'me', text: 'hello', sentAt: 2000 },
+  { id: 'm3', sender: 'them', text: 'bye', sentAt: 3000 }
+];
+
+const savedMessages = () => firestore.sets.filter(({ path }) => path.includes('/messages/'));
+
+describe('ChatService transcripts', () => {
+  beforeEach(() => {
+    firestore.docs = {};
+    firestore.sets = [];
+    firestore.updates = [];
+  });
+
+  it('saves only our own messages when we complete the match', async () => {
+    firestore.docs['callDecisions/call-1'] = {
+      decisions: { bob: { accepted: true, saveTranscript: true } }
+    };
+
+    const conversationId = await ChatService.recordCallDecision(
+      'call-1', 'alice', 'bob', { accepted: true, saveTranscript: true }, transcript
+    );
+
+    expect(conversationId).toBe('alice_bob');
+    expect(savedMessages()).toEqual([
+      { path: 'conversations/alice_bob/messages/m2', data: expect.objectContaining({ senderId: 'alice', text: 'hello' }) }
+    ]);
+  });
+
+  it("keys the conversation by user ID and keeps each side's name for display", async () => {
+    firestore.docs['callDecisions/call-1'] = {
+      decisions: { 'uid-bob': { accepted: true, saveTranscript: false, name: 'Bob' } }
+    };
+
+    await ChatService.recordCallDecision(
+      'call-1', 'uid-alice', 'uid-bob', { accepted: true, saveTranscript: false, name: 'Alice' }
+    );
+
+    expect(firestore.sets).toContainEqual({
+      path: 'conversations/uid-alice_uid-bob',
+      data: expect.objectContaining({
+        participants: ['uid-alice', 'uid-bob'],
+        participantNames: { 'uid-alice': 'Alice', 'uid-bob': 'Bob' }
+      })
+    });
+  });
+
+  it('saves our side later only if both asked to keep the transcript', async () => {
+    firestore.docs['callDecisions/call-1'] = {
+      decisions: {
+        alice: { accepted: true, saveTranscript: true },
+        bob: { accepted: true, saveTranscript: false }
+      }
+    };
+
+    await ChatService.saveTranscriptIfAgreed('call-1', 'alice', 'bob', transcript);
+
+    expect(savedMessages()).toEqual([]);
+  });
+
+  it("doesn't move the last message back behind the partner's", async () => {
+    firestore.docs['callDecisions/call-1'] = {
+      decisions: {
+        alice: { accepted: true, saveTranscript: true },
+        bob: { accepted: true, saveTranscript: true }
+      }
+    };
+    firestore.docs['conversations/alice_bob'] = {
+      lastMessage: { text: 'bye', senderId: 'bob', sentAt: { toMillis: () => 3000 } }
+    };
+
+    await ChatService.saveTranscriptIfAgreed('call-1', 'alice', 'bob', transcript);
+
+    expect(savedMessages().map(({ path }) => path)).toEqual(['conversations/alice_bob/messages/m2']);
+    expect(firestore.updates).toEqual([]);
+  });
+});
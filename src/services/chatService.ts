@@ -0,0 +1,239 @@
+import {
+  doc,
+  collection,
+  getDoc,
+  updateDoc,
+  runTransaction,
+  writeBatch,
+  increment,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import { InCallChatMessage } from '@/services/callMessages';
+
+// conversations/{conversationId}, with messages in its `messages` subcollection
+export interface Conversation {
+  id: string;
+  participants: string[];
+  // Display names by participant ID, as each side gave it when accepting
+  participantNames?: Record<string, string>;
+  lastMessage: { text: string; senderId: string; sentAt: Timestamp } | null;
+  // Unread message count per participant
+  unreadCounts: Record<string, number>;
+  // Per participant, the sentAt of the newest message their client has received / opened.
+  // Sender timestamps are used on purpose so clock skew can't mark future messages.
+  deliveredUpTo?: Record<string, Timestamp>;
+  readUpTo?: Record<string, Timestamp>;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface ChatMessageDoc {
+  id: string;
+  senderId: string;
+  text: string;
+  createdAt: Timestamp;
+}
+
+// Each side's post-call choice, stored at callDecisions/{callId}
+interface CallDecision {
+  accepted: boolean;
+  saveTranscript: boolean;
+  // Shown to the partner in their chat list
+  name?: string;
+}
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+export class ChatService {
+  // One conversation per pair of users, whichever side created it
+  static getConversationId(userId: string, partnerId: string): string {
+    return [userId, partnerId].sort().join('_');
+  }
+
+  static getMessagesPath(conversationId: string): string {
+    return `conversations/${conversationId}/messages`;
+  }
+
+  // Record this user's accept/reject after a call. The conversation is created
+  // once both sides have accepted; returns its ID if that happened now or before.
+  static async recordCallDecision(
+    callId: string,
+    userId: string,
+    partnerId: string,
+    decision: CallDecision,
+    transcript: InCallChatMessage[] = []
+  ): Promise<string | null> {
+    try {
+      const decisionRef = doc(db, 'callDecisions', callId);
+      const conversationId = this.getConversationId(userId, partnerId);
+      const conversationRef = doc(db, 'conversations', conversationId);
+
+      const result = await runTransaction(db, async (transaction) => {
+        const decisionSnap = await transaction.get(decisionRef);
+        const conversationSnap = await transaction.get(conversationRef);
+        const decisions: Record<string, CallDecision> = decisionSnap.exists()
+          ? decisionSnap.data().decisions ?? {}
+          : {};
+        const partnerDecision = decisions[partnerId];
+
+        transaction.set(decisionRef, {
+          participants: [userId, partnerId].sort(),
+          decisions: { [userId]: decision },
+          updatedAt: Timestamp.now()
+        }, { merge: true });
+
+        const isMutual = decision.accepted && partnerDecision?.accepted === true;
+        if (isMutual && !conversationSnap.exists()) {
+          const now = Timestamp.now();
+          transaction.set(conversationRef, {
+            participants: [userId, partnerId].sort(),
+            participantNames: {
+              [userId]: decision.name ?? '',
+              [partnerId]: partnerDecision.name ?? ''
+            },
+            lastMessage: null,
+            unreadCounts: { [userId]: 0, [partnerId]: 0 },
+            createdAt: now,
+            updatedAt: now
+          });
+        }
+
+        return {
+          isMutual,
+          saveTranscript: isMutual && decision.saveTranscript && partnerDecision.saveTranscript
+        };
+      });
+
+      if (!result.isMutual) return null;
+
+      // Each side saves only its own messages. The partner saves theirs once
+      // they see the conversation (saveTranscriptIfAgreed).
+      if (result.saveTranscript) {
+        await this.saveOwnTranscript(conversationId, userId, transcript);
+      }
+      return conversationId;
+    } catch (error: unknown) {
+      throw new Error(`Failed to record call decision: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Generated up front so a retried send overwrites rather than duplicates
+  static newMessageId(conversationId: string): string {
+    return doc(collection(db, this.getMessagesPath(conversationId))).id;
+  }
+
+  static async sendMessage(
+    conversationId: string,
+    senderId: string,
+    recipientId: string,
+    text: string,
+    messageId: string = this.newMessageId(conversationId),
+    sentAt: Timestamp = Timestamp.now()
+  ): Promise<void> {
+    try {
+      const trimmed = text.trim().slice(0, MAX_MESSAGE_LENGTH);
+      if (!trimmed) return;
+
+      const batch = writeBatch(db);
+      batch.set(doc(db, this.getMessagesPath(conversationId), messageId), {
+        senderId,
+        text: trimmed,
+        createdAt: sentAt
+      });
+      batch.update(doc(db, 'conversations', conversationId), {
+        lastMessage: { text: trimmed, senderId, sentAt },
+        [`unreadCounts.${recipientId}`]: increment(1),
+        updatedAt: sentAt
+      });
+      await batch.commit();
+    } catch (error: unknown) {
+      throw new Error(`Failed to send message: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  static async markDelivered(conversationId: string, userId: string, upTo: Timestamp): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'conversations', conversationId), {
+        [`deliveredUpTo.${userId}`]: upTo
+      });
+    } catch (error) {
+      console.error('Failed to mark conversation as delivered:', error);
+    }
+  }
+
+  static async markAsRead(conversationId: string, userId: string, upTo: Timestamp | null): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'conversations', conversationId), {
+        [`unreadCounts.${userId}`]: 0,
+        ...(upTo ? {
+          [`deliveredUpTo.${userId}`]: upTo,
+          [`readUpTo.${userId}`]: upTo
+        } : {})
+      });
+    } catch (error) {
+      console.error('Failed to mark conversation as read:', error);
+    }
+  }
+
+  // For whoever accepted first: once the conversation exists, save our side
+  // of the call's chat if both sides asked for it
+  static async saveTranscriptIfAgreed(
+    callId: string,
+    userId: string,
+    partnerId: string,
+    transcript: InCallChatMessage[]
+  ): Promise<void> {
+    try {
+      const decisionSnap = await getDoc(doc(db, 'callDecisions', callId));
+      const decisions: Record<string, CallDecision> = decisionSnap.exists()
+        ? decisionSnap.data().decisions ?? {}
+        : {};
+      const agreed = [userId, partnerId].every(participant =>
+        decisions[participant]?.accepted && decisions[participant]?.saveTranscript
+      );
+
+      if (agreed) {
+        await this.saveOwnTranscript(this.getConversationId(userId, partnerId), userId, transcript);
+      }
+    } catch (error: unknown) {
+      throw new Error(`Failed to save transcript: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Only our own messages: nobody writes messages under the partner's name.
+  // Message IDs are reused so saving the same transcript twice is harmless.
+  private static async saveOwnTranscript(
+    conversationId: string,
+    userId: string,
+    transcript: InCallChatMessage[]
+  ): Promise<void> {
+    const own = transcript.filter(message => message.sender === 'me');
+    if (own.length === 0) return;
+
+    const conversationRef = doc(db, 'conversations', conversationId);
+    const messagesRef = collection(db, this.getMessagesPath(conversationId));
+
+    await runTransaction(db, async (transaction) => {
+      const conversationSnap = await transaction.get(conversationRef);
+      const current = conversationSnap.data()?.lastMessage as Conversation['lastMessage'] | undefined;
+
+      own.forEach((message) => {
+        transaction.set(doc(messagesRef, message.id), {
+          senderId: userId,
+          text: message.text,
+          createdAt: Timestamp.fromMillis(message.sentAt)
+        });
+      });
+
+      // The partner may have saved later messages of theirs already
+      const last = own[own.length - 1];
+      if (!current || current.sentAt.toMillis() < last.sentAt) {
+        transaction.update(conversationRef, {
+          lastMessage: { text: last.text, senderId: userId, sentAt: Timestamp.fromMillis(last.sentAt) },
+          updatedAt: Timestamp.now()
+        });
+      }
+    });
+  }
+}
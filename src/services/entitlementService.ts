@@ -0,0 +1,158 @@
+import { FunctionsFetchError, FunctionsHttpError, RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from "@/integrations/supabase/client";
+import { PaymentService, EntitlementState } from "@/services/paymentService";
+
+export interface EntitlementsStoreState {
+  // null until the server has answered once
+  entitlements: EntitlementState | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// setTimeout can't wait longer than this
+const MAX_TIMER_MS = 2_147_483_647;
+
+// What the user has paid for, as the payments edge function works it out from
+// one-off purchases and Razorpay subscriptions. Screens read premium and
+// unlimited-calls access from here rather than keeping their own flags.
+export class EntitlementService {
+  private static state: EntitlementsStoreState = { entitlements: null, loading: false, error: null };
+  private static listeners = new Set<(state: EntitlementsStoreState) => void>();
+  private static channel: RealtimeChannel | null = null;
+  private static expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  static getState(): EntitlementsStoreState {
+    return this.state;
+  }
+
+  static subscribeToEntitlements(listener: (state: EntitlementsStoreState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+
+    if (this.listeners.size === 1) {
+      this.refresh();
+      this.watchChanges();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        if (this.channel) {
+          supabase.removeChannel(this.channel);
+          this.channel = null;
+        }
+        if (this.expiryTimer) {
+          clearTimeout(this.expiryTimer);
+          this.expiryTimer = null;
+        }
+      }
+    };
+  }
+
+  static async refresh(): Promise<void> {
+    this.setState({ loading: true });
+    try {
+      const data = await this.invoke('get_entitlements', {});
+      this.apply(PaymentService.toEntitlementState(data.entitlements));
+    } catch (error: unknown) {
+      console.error('Failed to load entitlements:', error);
+      this.setState({ loading: false, error: error instanceof Error ? error.message : 'Failed to load entitlements' });
+    }
+  }
+
+  // Takes the state a payment or cancellation response already carries
+  static apply(entitlements?: EntitlementState) {
+    if (!entitlements) return;
+    this.setState({ entitlements, loading: false, error: null });
+    this.scheduleExpiryRefresh(entitlements);
+  }
+
+  // Stops renewal. An active subscription keeps its access until the end of
+  // the cycle that's been paid for.
+  static async cancelSubscription(subscriptionId: string): Promise<EntitlementState> {
+    const data = await this.invoke('cancel_subscription', { subscription_id: subscriptionId });
+    const entitlements = PaymentService.toEntitlementState(data.entitlements);
+    this.apply(entitlements);
+    return entitlements;
+  }
+
+  private static setState(update: Partial<EntitlementsStoreState>) {
+    this.state = { ...this.state, ...update };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  // Access lapses without anything changing on the server, so ask again once
+  // the earliest expiry has passed
+  private static scheduleExpiryRefresh(entitlements: EntitlementState) {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (this.listeners.size === 0) return;
+
+    const now = Date.now();
+    const expiries = [
+      entitlements.premiumUntil,
+      entitlements.unlimitedCallsUntil,
+      ...entitlements.subscriptions.map(subscription => subscription.accessUntil)
+    ]
+      .filter((date): date is Date => !!date && date.getTime() > now)
+      .map(date => date.getTime() - now);
+
+    if (expiries.length === 0) return;
+
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      this.refresh();
+    }, Math.min(Math.min(...expiries) + 1000, MAX_TIMER_MS));
+  }
+
+  // Renewals, failed charges and purchases finished by webhook all land
+  // while the app is open, so follow both tables
+  private static async watchChanges() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || this.channel || this.listeners.size === 0) return;
+
+    this.channel = supabase
+      .channel(`entitlements-${user.id}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'entitlements',
+        filter: `user_id=eq.${user.id}`
+      }, () => {
+        this.refresh();
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'subscriptions',
+        filter: `user_id=eq.${user.id}`
+      }, () => {
+        this.refresh();
+      })
+      .subscribe();
+  }
+
+  // Retries once if the request never reached the server
+  private static async invoke(action: string, body: Record<string, unknown>, isRetry = false) {
+    const { data, error } = await supabase.functions.invoke('razorpay-payments', {
+      body: { action, ...body },
+    });
+
+    if (error instanceof FunctionsFetchError && !isRetry) {
+      return this.invoke(action, body, true);
+    }
+
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new Error(details?.error || 'Entitlements request failed');
+    }
+
+    if (error || !data.success) {
+      throw new Error(data?.error || 'Entitlements request failed');
+    }
+
+    return data;
+  }
+}
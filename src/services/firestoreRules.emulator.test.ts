@@ -0,0 +1,106 @@
+import { describe, it, beforeAll, afterAll, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import {
+  initializeTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc, updateDoc, Timestamp } from 'firebase/firestore';
+
+// firestore.rules against the Firestore emulator:
+//   firebase emulators:start --only firestore
+//   FIRESTORE_EMULATOR_HOST=localhost:8080 npx vitest run src/services/firestoreRules.emulator.test.ts
+// Skipped when no emulator is configured.
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe.skipIf(!emulatorHost)('firestore.rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    const [host, port] = (emulatorHost ?? '').split(':');
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-rules',
+      firestore: {
+        rules: readFileSync(new URL('../../firestore.rules', import.meta.url), 'utf8'),
+        host,
+        port: Number(port)
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+  });
+
+  function seed(path: string, data: Record<string, unknown>): Promise<void> {
+    return testEnv.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), path), data));
+  }
+
+  function as(userId: string) {
+    return testEnv.authenticatedContext(userId).firestore();
+  }
+
+  function claim(joinerId: string) {
+    return updateDoc(doc(as(joinerId), 'matchingRequests/request-1'), {
+      status: 'matched',
+      matchedWith: joinerId,
+      callId: 'call-1',
+      sharedInterests: []
+    });
+  }
+
+  beforeEach(async () => {
+    await seed('matchingRequests/request-1', {
+      userId: 'alice',
+      status: 'waiting',
+      callType: 'video',
+      createdAt: Timestamp.now()
+    });
+  });
+
+  it('keeps block lists and recent meetings readable only by their owner', async () => {
+    await seed('userRelations/alice', { blocked: ['bob'], recentlyMet: [], metAt: {} });
+
+    await assertSucceeds(getDoc(doc(as('alice'), 'userRelations/alice')));
+    await assertFails(getDoc(doc(as('bob'), 'userRelations/alice')));
+  });
+
+  it('lets someone claim a waiting request for themselves', async () => {
+    await assertSucceeds(claim('bob'));
+  });
+
+  it('refuses a claim by someone the owner blocked', async () => {
+    await seed('userRelations/alice', { blocked: ['bob'] });
+
+    await assertFails(claim('bob'));
+  });
+
+  it('refuses a claim on someone the joiner blocked', async () => {
+    await seed('userRelations/bob', { blocked: ['alice'] });
+
+    await assertFails(claim('bob'));
+  });
+
+  it('refuses a claim by someone the owner met within the hour, but not earlier', async () => {
+    await seed('userRelations/alice', { metAt: { bob: Timestamp.now(), carol: Timestamp.fromMillis(Date.now() - 2 * HOUR_MS) } });
+
+    await assertFails(claim('bob'));
+    await assertSucceeds(claim('carol'));
+  });
+
+  it("refuses a claim made in someone else's name", async () => {
+    await assertFails(updateDoc(doc(as('bob'), 'matchingRequests/request-1'), {
+      status: 'matched',
+      matchedWith: 'carol',
+      callId: 'call-1',
+      sharedInterests: []
+    }));
+  });
+});
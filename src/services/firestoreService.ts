@@ -19,6 +19,13 @@ import {
 } from 'firebase/firestore';
 import { db } from '@/config/firebase';
 
+// Ordering and page size for collection queries and subscriptions
+export interface CollectionQueryOptions {
+  orderByField?: string;
+  orderDirection?: 'asc' | 'desc';
+  limitCount?: number;
+}
+
 export class FirestoreService {
   // Create a new document
   static async createDocument(collectionName: string, data: any): Promise<string> {
@@ -111,7 +118,8 @@ export class FirestoreService {
   static subscribeToCollection(
     collectionName: string,
     callback: (documents: DocumentData[]) => void,
-    filters?: { field: string; operator: any; value: any }[]
+    filters?: { field: string; operator: any; value: any }[],
+    options?: CollectionQueryOptions
   ) {
     try {
       let q: Query<DocumentData, DocumentData> | CollectionReference<DocumentData, DocumentData> = collection(db, collectionName);
@@ -122,6 +130,14 @@ export class FirestoreService {
           q = query(q, where(filter.field, filter.operator, filter.value));
         });
       }
+
+      if (options?.orderByField) {
+        q = query(q, orderBy(options.orderByField, options.orderDirection ?? 'desc'));
+      }
+
+      if (options?.limitCount) {
+        q = query(q, limit(options.limitCount));
+      }
       
       return onSnapshot(q, (querySnapshot: QuerySnapshot) => {
         const documents = querySnapshot.docs.map(doc => ({ 
@@ -185,46 +201,4 @@ export class FirestoreService {
       throw new Error(`Failed to update call status: ${error.message}`);
     }
   }
-
-  static async sendSignal(signalData: {
-    type: string;
-    data: any;
-    from: string;
-    to: string;
-    callId: string;
-  }): Promise<void> {
-    try {
-      await addDoc(collection(db, 'signals'), {
-        ...signalData,
-        timestamp: Timestamp.now()
-      });
-    } catch (error: any) {
-      throw new Error(`Failed to send signal: ${error.message}`);
-    }
-  }
-
-  static subscribeToSignals(
-    callId: string,
-    targetUser: string,
-    callback: (signals: DocumentData[]) => void
-  ) {
-    try {
-      const signalsQuery = query(
-        collection(db, 'signals'),
-        where('callId', '==', callId),
-        where('to', '==', targetUser),
-        orderBy('timestamp', 'asc')
-      );
-
-      return onSnapshot(signalsQuery, (snapshot) => {
-        const signals = snapshot.docs.map(doc => ({ 
-          id: doc.id, 
-          ...doc.data() 
-        }));
-        callback(signals);
-      });
-    } catch (error: any) {
-      throw new Error(`Failed to subscribe to signals: ${error.message}`);
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SignalMessage } from '@/services/signalingChannel';
+import { FirestoreSignalingChannel } from '@/services/firestoreSignalingChannel';
+
+interface FakeSignalDoc {
+  callId: string;
+  from: string;
+  message: SignalMessage;
+  timestamp: { toMillis(): number };
+  seq: number;
+}
+
+type SnapshotListener = (snapshot: {
+  docChanges(): { type: 'added' | 'modified' | 'removed'; doc: { data(): FakeSignalDoc } }[];
+}) => void;
+
+const firestore = vi.hoisted(() => ({
+  listener: null as SnapshotListener | null,
+  whereClauses: [] as unknown[][],
+  orderByCalls: 0,
+  added: [] as unknown[]
+}));
+
+vi.mock('@/config/firebase', () => ({ db: {} }));
+vi.mock('firebase/firestore', () => ({
+  collection: () => 'signals',
+  query: () => 'signals-query',
+  where: (...args: unknown[]) => {
+    firestore.whereClauses.push(args);
+    return args;
+  },
+  orderBy: () => {
+    firestore.orderByCalls++;
+  },
+  onSnapshot: (_query: unknown, listener: SnapshotListener) => {
+    firestore.listener = listener;
+    return () => {
+      firestore.listener = null;
+    };
+  },
+  addDoc: async (_collection: unknown, data: unknown) => {
+    firestore.added.push(data);
+  },
+  getDocs: async () => ({ docs: [] }),
+  deleteDoc: async () => {},
+  Timestamp: { now: () => ({ toMillis: () => 1000 }) }
+}));
+
+function signal(from: string, millis: number, seq: number, message: SignalMessage): FakeSignalDoc {
+  return { callId: 'call-1', from, message, timestamp: { toMillis: () => millis }, seq };
+}
+
+function deliver(...docs: FakeSignalDoc[]) {
+  firestore.listener?.({
+    docChanges: () => docs.map(data => ({ type: 'added' as const, doc: { data: () => data } }))
+  });
+}
+
+describe('FirestoreSignalingChannel', () => {
+  beforeEach(() => {
+    firestore.listener = null;
+    firestore.whereClauses = [];
+    firestore.orderByCalls = 0;
+    firestore.added = [];
+  });
+
+  it('queries on the call alone, so no composite index is needed', async () => {
+    const channel = new FirestoreSignalingChannel();
+    await channel.connect('call-1', 'receiver');
+
+    expect(firestore.whereClauses).toEqual([['callId', '==', 'call-1']]);
+    expect(firestore.orderByCalls).toBe(0);
+  });
+
+  it('skips our own messages and delivers the rest in send order', async () => {
+    const channel = new FirestoreSignalingChannel();
+    const received: SignalMessage[] = [];
+    channel.onMessage = (message) => received.push(message);
+    await channel.connect('call-1', 'receiver');
+
+    // Unordered, as documents come back without an orderBy
+    deliver(
+      signal('caller', 2000, 2, { type: 'end-of-candidates' }),
+      signal('receiver', 1500, 0, { type: 'hangup' }),
+      signal('caller', 1000, 1, { type: 'ice-restart-request' }),
+      signal('caller', 1000, 0, { type: 'offer', description: { type: 'offer', sdp: 'v=0' } })
+    );
+
+    expect(received.map(message => message.type)).toEqual(['offer', 'ice-restart-request', 'end-of-candidates']);
+  });
+
+  it('numbers outgoing messages so equal timestamps keep their order', async () => {
+    const channel = new FirestoreSignalingChannel();
+    await channel.connect('call-1', 'caller');
+
+    await channel.send({ type: 'end-of-candidates' });
+    await channel.send({ type: 'hangup' });
+
+    expect(firestore.added).toMatchObject([
+      { from: 'caller', seq: 0, message: { type: 'end-of-candidates' } },
+      { from: 'caller', seq: 1, message: { type: 'hangup' } }
+    ]);
+  });
+});
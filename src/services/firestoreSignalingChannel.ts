@@ -0,0 +1,100 @@
+import {
+  collection,
+  addDoc,
+  deleteDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  where,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import type { SignalingChannel, SignalMessage } from '@/services/signalingChannel';
+
+export interface SignalData {
+  callId: string;
+  from: string;
+  message: SignalMessage;
+  timestamp: Timestamp;
+  // Orders messages from the same sender that share a timestamp
+  seq: number;
+}
+
+function compareSignals(a: SignalData, b: SignalData): number {
+  return a.timestamp.toMillis() - b.timestamp.toMillis() || (a.seq ?? 0) - (b.seq ?? 0);
+}
+
+// Signaling over the Firestore `signals` collection, one document per message
+export class FirestoreSignalingChannel implements SignalingChannel {
+  private callId: string | null = null;
+  private userId: string | null = null;
+  private signalsUnsubscribe: (() => void) | null = null;
+  private seq = 0;
+
+  async connect(callId: string, userId: string): Promise<void> {
+    this.callId = callId;
+    this.userId = userId;
+    this.seq = 0;
+
+    // A single equality filter needs no composite index. Our own messages are
+    // skipped here, and each batch is put in send order before delivery.
+    const signalsQuery = query(
+      collection(db, 'signals'),
+      where('callId', '==', callId)
+    );
+
+    this.signalsUnsubscribe = onSnapshot(signalsQuery, (snapshot) => {
+      snapshot.docChanges()
+        .filter(change => change.type === 'added')
+        .map(change => change.doc.data() as SignalData)
+        .filter(signalData => signalData.from !== userId)
+        .sort(compareSignals)
+        .forEach(signalData => this.onMessage?.(signalData.message));
+    });
+  }
+
+  async send(message: SignalMessage): Promise<void> {
+    if (!this.callId || !this.userId) {
+      throw new Error('Signaling channel is not connected');
+    }
+
+    try {
+      await addDoc(collection(db, 'signals'), {
+        callId: this.callId,
+        from: this.userId,
+        // Firestore rejects undefined fields, which SDP and ICE objects may contain
+        message: JSON.parse(JSON.stringify(message)),
+        timestamp: Timestamp.now(),
+        seq: this.seq++
+      });
+    } catch (error: unknown) {
+      throw new Error(`Failed to send signal: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.signalsUnsubscribe) {
+      this.signalsUnsubscribe();
+      this.signalsUnsubscribe = null;
+    }
+
+    if (this.callId) {
+      try {
+        const signalsQuery = query(
+          collection(db, 'signals'),
+          where('callId', '==', this.callId)
+        );
+
+        const signalsSnapshot = await getDocs(signalsQuery);
+        await Promise.all(signalsSnapshot.docs.map(signalDoc => deleteDoc(signalDoc.ref)));
+      } catch (error) {
+        console.error('Failed to clean up signals:', error);
+      }
+    }
+
+    this.callId = null;
+    this.userId = null;
+  }
+
+  onMessage?: (message: SignalMessage) => void;
+}
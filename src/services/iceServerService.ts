@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  DEFAULT_ICE_SERVERS,
+  TURN_CREDENTIAL_REFRESH_MARGIN_MS,
+  RELAY_ONLY_STORAGE_KEY,
+  RELAY_ONLY_BY_DEFAULT
+} from '@/config/iceServers';
+
+interface CachedIceServers {
+  iceServers: RTCIceServer[];
+  expiresAt: number;
+}
+
+// Builds the RTCConfiguration for each call, with short-lived TURN credentials
+// from the turn-credentials edge function
+export class IceServerService {
+  private static cache: CachedIceServers | null = null;
+
+  static async getRtcConfiguration(): Promise<RTCConfiguration> {
+    const relayOnly = this.isRelayOnly();
+    const iceServers = await this.getIceServers();
+
+    if (relayOnly && !iceServers.some(server => this.isTurnServer(server))) {
+      console.warn('Relay-only mode is on but no TURN server is available; calls will not connect');
+    }
+
+    return {
+      iceServers,
+      iceTransportPolicy: relayOnly ? 'relay' : 'all',
+      iceCandidatePoolSize: 10
+    };
+  }
+
+  static isRelayOnly(): boolean {
+    const stored = localStorage.getItem(RELAY_ONLY_STORAGE_KEY);
+    return stored === null ? RELAY_ONLY_BY_DEFAULT : stored === 'true';
+  }
+
+  static setRelayOnly(enabled: boolean): void {
+    localStorage.setItem(RELAY_ONLY_STORAGE_KEY, String(enabled));
+  }
+
+  private static async getIceServers(): Promise<RTCIceServer[]> {
+    if (this.cache && this.cache.expiresAt - TURN_CREDENTIAL_REFRESH_MARGIN_MS > Date.now()) {
+      return this.cache.iceServers;
+    }
+
+    try {
+      // The function issues credentials to whoever the session belongs to
+      const { data, error } = await supabase.functions.invoke('turn-credentials');
+
+      if (error || !data.success) {
+        throw new Error(data?.error || 'Failed to fetch TURN credentials');
+      }
+
+      this.cache = {
+        iceServers: data.ice_servers,
+        expiresAt: data.expires_at * 1000
+      };
+      return this.cache.iceServers;
+    } catch (error: unknown) {
+      // Without TURN some NATs can't connect, but most calls still will
+      console.error('Falling back to STUN only:', error instanceof Error ? error.message : error);
+      return DEFAULT_ICE_SERVERS;
+    }
+  }
+
+  private static isTurnServer(server: RTCIceServer): boolean {
+    const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+    return urls.some(url => url.startsWith('turn:') || url.startsWith('turns:'));
+  }
+}
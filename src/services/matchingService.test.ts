@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MatchingService } from '@/services/matchingService';
+
+describe('MatchingService', () => {
+  it('tells both the waiting user and the joiner about the match', async () => {
+    const service = new MatchingService();
+    const waiting = vi.fn();
+    const joiner = vi.fn();
+
+    service.onMatchFound = waiting;
+    await service.startMatching('alice', 'female', 'anyone', false, 'video', {
+      interests: ['music', 'chess'],
+      languages: []
+    });
+    expect(waiting).not.toHaveBeenCalled();
+
+    service.onMatchFound = joiner;
+    const callId = await service.startMatching('bob', 'male', 'anyone', false, 'video', {
+      interests: ['chess'],
+      languages: []
+    });
+
+    expect(waiting).toHaveBeenCalledWith(callId, 'bob', { sharedInterests: ['chess'] });
+    expect(joiner).toHaveBeenCalledWith(callId, 'alice', { sharedInterests: ['chess'] });
+    expect(service.getMatchingStats().totalOnline).toBe(0);
+  });
+
+  it("doesn't notify someone who left the pool", async () => {
+    const service = new MatchingService();
+    const waiting = vi.fn();
+
+    service.onMatchFound = waiting;
+    const requestId = await service.startMatching('alice', 'female', 'anyone', false, 'video');
+    await service.cancelMatching(requestId);
+
+    service.onMatchFound = vi.fn();
+    await service.startMatching('bob', 'male', 'anyone', false, 'video');
+
+    expect(waiting).not.toHaveBeenCalled();
+  });
+
+  it('only pairs users looking for the same kind of call', async () => {
+    const service = new MatchingService();
+    const joiner = vi.fn();
+
+    await service.startMatching('erin', 'female', 'anyone', false, 'video');
+
+    service.onMatchFound = joiner;
+    const requestId = await service.startMatching('frank', 'male', 'anyone', false, 'voice');
+
+    expect(joiner).not.toHaveBeenCalled();
+    expect(requestId).toBe('frank');
+    expect(service.getMatchingStats().totalOnline).toBe(2);
+  });
+
+  it('keeps a premium user waiting rather than ignoring their gender preference', async () => {
+    const service = new MatchingService();
+    const joiner = vi.fn();
+
+    await service.startMatching('carol', 'female', 'anyone', false, 'video');
+
+    service.onMatchFound = joiner;
+    const requestId = await service.startMatching('dave', 'male', 'men', true, 'video');
+
+    expect(joiner).not.toHaveBeenCalled();
+    expect(requestId).toBe('dave');
+    expect(service.getMatchingStats().totalOnline).toBe(2);
+  });
+});
@@ -1,25 +1,83 @@
+import { rankCandidates, getSharedInterests, sharesLanguage, acceptsGender } from '@/utils/matchScoring';
+
 // Matching service to handle gender-based matching logic
 export interface MatchingPreferences {
   userGender: 'male' | 'female' | 'other';
   preferredGender: 'anyone' | 'men' | 'women';
   isPremium: boolean;
   userId: string;
+  callType: 'video' | 'voice';
+  interests?: string[];
+  languages?: string[];
+  region?: string;
+  // Premium only: never match someone without a common language
+  requireSameLanguage?: boolean;
+  // Blocked and recently met users, never matched in either direction
+  excludedUserIds?: string[];
 }
 
 export interface MatchCandidate {
   id: string;
   gender: 'male' | 'female' | 'other';
+  callType: 'video' | 'voice';
   isOnline: boolean;
   lastActive: Date;
+  interests?: string[];
+  languages?: string[];
+  region?: string;
+  excludedUserIds?: string[];
   preferences: {
     preferredGender: 'anyone' | 'men' | 'women';
     isPremium: boolean;
+    requireSameLanguage?: boolean;
   };
 }
 
-export class MatchingService {
+// Profile details used to rank candidates, beyond the gender filter
+export interface MatchingProfile {
+  interests: string[];
+  languages: string[];
+  region?: string;
+  // Premium only: never match someone without a common language
+  requireSameLanguage?: boolean;
+  // Blocked and recently met users, never matched in either direction
+  excludedUserIds?: string[];
+}
+
+// What both sides learn about each other when a match is made
+export interface MatchDetails {
+  sharedInterests: string[];
+}
+
+// Ways a long-running search can be widened, in the order they are offered
+export type MatchingWidenStep = 'gender' | 'callType';
+
+// A matching queue that useMatching can run against. CallMatchingService is the
+// Firestore-backed implementation; MatchingService is the in-memory one for tests.
+export interface MatchingBackend {
+  startMatching(
+    userId: string,
+    userGender: 'male' | 'female' | 'other',
+    preferredGender: 'anyone' | 'men' | 'women',
+    isPremium: boolean,
+    callType: 'video' | 'voice',
+    profile?: MatchingProfile
+  ): Promise<string>;
+  cancelMatching(matchingRequestId: string): Promise<void>;
+  // Optional search policy support; returns the new request ID or call ID
+  acceptWidening?(step: MatchingWidenStep): Promise<string | null>;
+  onMatchFound?: (callId: string, partnerId: string, details?: MatchDetails) => void;
+  onWidenSuggested?: (step: MatchingWidenStep) => void;
+  onTimeout?: () => void;
+  onError?: (error: string) => void;
+}
+
+export class MatchingService implements MatchingBackend {
   private static instance: MatchingService;
   private onlineUsers: Map<string, MatchCandidate> = new Map();
+  // Match handlers of users waiting in the pool, so whoever pairs with them
+  // can tell both sides
+  private waitingHandlers: Map<string, MatchingBackend['onMatchFound']> = new Map();
 
   static getInstance(): MatchingService {
     if (!MatchingService.instance) {
@@ -40,6 +98,7 @@ export class MatchingService {
   // Remove user from online pool
   removeUserFromPool(userId: string): void {
     this.onlineUsers.delete(userId);
+    this.waitingHandlers.delete(userId);
   }
 
   // Find a match based on preferences
@@ -48,6 +107,8 @@ export class MatchingService {
       .filter(candidate => 
         candidate.id !== userPreferences.userId && 
         candidate.isOnline &&
+        candidate.callType === userPreferences.callType &&
+        !this.isExcluded(userPreferences, candidate) &&
         this.isCompatibleMatch(userPreferences, candidate)
       );
 
@@ -55,18 +116,23 @@ export class MatchingService {
       return null;
     }
 
-    // For premium users, prioritize their preferences
-    if (userPreferences.isPremium) {
-      return this.findPremiumMatch(userPreferences, availableUsers);
-    } else {
-      // For free users, return random match regardless of gender
-      return this.findRandomMatch(availableUsers);
-    }
+    // Gender preferences were applied by isCompatibleMatch; rank the rest
+    return this.findBestMatch(userPreferences, availableUsers);
+  }
+
+  // Either side may have blocked or recently met the other
+  private isExcluded(userPrefs: MatchingPreferences, candidate: MatchCandidate): boolean {
+    return (userPrefs.excludedUserIds ?? []).includes(candidate.id) ||
+      (candidate.excludedUserIds ?? []).includes(userPrefs.userId);
   }
 
   private isCompatibleMatch(userPrefs: MatchingPreferences, candidate: MatchCandidate): boolean {
-    // Check if the candidate would accept this user
-    const candidateWouldAccept = this.wouldAcceptUser(candidate.preferences, userPrefs.userGender);
+    // Check if the candidate would accept this user, including a premium
+    // candidate's same-language requirement
+    const candidateWouldAccept = acceptsGender(candidate.preferences.preferredGender, candidate.preferences.isPremium, userPrefs.userGender) &&
+      (!candidate.preferences.isPremium ||
+        !candidate.preferences.requireSameLanguage ||
+        sharesLanguage(candidate.languages, userPrefs.languages));
     
     // For free users, they accept anyone, so we only check if candidate accepts them
     if (!userPrefs.isPremium) {
@@ -74,56 +140,87 @@ export class MatchingService {
     }
 
     // For premium users, check both directions
-    const userWouldAccept = this.wouldAcceptUser(
-      { preferredGender: userPrefs.preferredGender, isPremium: userPrefs.isPremium },
-      candidate.gender
-    );
+    const userWouldAccept = acceptsGender(userPrefs.preferredGender, userPrefs.isPremium, candidate.gender);
 
-    return userWouldAccept && candidateWouldAccept;
-  }
+    const userLanguageOk = !userPrefs.requireSameLanguage || sharesLanguage(userPrefs.languages, candidate.languages);
 
-  private wouldAcceptUser(preferences: { preferredGender: string; isPremium: boolean }, userGender: string): boolean {
-    // Free users accept anyone
-    if (!preferences.isPremium) {
-      return true;
-    }
+    return userWouldAccept && candidateWouldAccept && userLanguageOk;
+  }
 
-    // Premium users follow their preferences
-    switch (preferences.preferredGender) {
-      case 'men':
-        return userGender === 'male';
-      case 'women':
-        return userGender === 'female';
-      case 'anyone':
-      default:
-        return true;
-    }
+  // Rank by shared interests and language, region, time waiting in the pool and premium priority
+  private findBestMatch(userPrefs: MatchingPreferences, candidates: MatchCandidate[]): MatchCandidate {
+    return rankCandidates(userPrefs, candidates, candidate => ({
+      interests: candidate.interests,
+      languages: candidate.languages,
+      region: candidate.region,
+      isPremium: candidate.preferences.isPremium,
+      waitingSince: candidate.lastActive.getTime()
+    }))[0];
   }
 
-  private findPremiumMatch(userPrefs: MatchingPreferences, candidates: MatchCandidate[]): MatchCandidate {
-    // Filter candidates based on user's gender preference
-    let filteredCandidates = candidates;
+  // Local matching backend: pair with someone already in the pool, or wait in it
+  async startMatching(
+    userId: string,
+    userGender: 'male' | 'female' | 'other',
+    preferredGender: 'anyone' | 'men' | 'women',
+    isPremium: boolean,
+    callType: 'video' | 'voice',
+    profile?: MatchingProfile
+  ): Promise<string> {
+    const interests = profile?.interests ?? [];
+    const languages = profile?.languages ?? [];
+    const requireSameLanguage = isPremium && !!profile?.requireSameLanguage;
+    const excludedUserIds = profile?.excludedUserIds ?? [];
+    const match = this.findMatch({
+      userId,
+      userGender,
+      preferredGender,
+      isPremium,
+      callType,
+      interests,
+      languages,
+      region: profile?.region,
+      requireSameLanguage,
+      excludedUserIds
+    });
 
-    if (userPrefs.preferredGender === 'men') {
-      filteredCandidates = candidates.filter(c => c.gender === 'male');
-    } else if (userPrefs.preferredGender === 'women') {
-      filteredCandidates = candidates.filter(c => c.gender === 'female');
+    if (match) {
+      const notifyWaiting = this.waitingHandlers.get(match.id);
+      this.removeUserFromPool(match.id);
+      const callId = `local-${callType}-${Date.now()}`;
+      const details: MatchDetails = {
+        sharedInterests: getSharedInterests(interests, match.interests)
+      };
+      notifyWaiting?.(callId, userId, details);
+      this.onMatchFound?.(callId, match.id, details);
+      return callId;
     }
 
-    // If no matches found with preference, fall back to anyone
-    if (filteredCandidates.length === 0) {
-      filteredCandidates = candidates;
-    }
+    this.addUserToPool({
+      id: userId,
+      gender: userGender,
+      callType,
+      isOnline: true,
+      lastActive: new Date(),
+      interests,
+      languages,
+      region: profile?.region,
+      excludedUserIds,
+      preferences: { preferredGender, isPremium, requireSameLanguage }
+    });
+    this.waitingHandlers.set(userId, this.onMatchFound);
 
-    // Return random from filtered candidates
-    return filteredCandidates[Math.floor(Math.random() * filteredCandidates.length)];
+    return userId;
   }
 
-  private findRandomMatch(candidates: MatchCandidate[]): MatchCandidate {
-    // Return completely random match for free users
-    return candidates[Math.floor(Math.random() * candidates.length)];
+  async cancelMatching(matchingRequestId: string): Promise<void> {
+    this.removeUserFromPool(matchingRequestId);
   }
 
+  // Event handlers
+  onMatchFound?: (callId: string, partnerId: string, details?: MatchDetails) => void;
+  onError?: (error: string) => void;
+
   // Get matching statistics
   getMatchingStats(): {
     totalOnline: number;
@@ -144,46 +241,6 @@ export class MatchingService {
       freeUsers: users.filter(u => !u.preferences.isPremium).length,
     };
   }
-
-  // Simulate finding a match (for demo purposes)
-  simulateMatch(userPrefs: MatchingPreferences): {
-    success: boolean;
-    matchType: 'targeted' | 'random';
-    partnerGender: 'male' | 'female' | 'other';
-    message: string;
-  } {
-    const genders: ('male' | 'female' | 'other')[] = ['male', 'female', 'other'];
-    
-    if (userPrefs.isPremium) {
-      // Premium users get their preferred gender (if specified)
-      let targetGender: 'male' | 'female' | 'other';
-      
-      if (userPrefs.preferredGender === 'men') {
-        targetGender = 'male';
-      } else if (userPrefs.preferredGender === 'women') {
-        targetGender = 'female';
-      } else {
-        targetGender = genders[Math.floor(Math.random() * genders.length)];
-      }
-
-      return {
-        success: true,
-        matchType: 'targeted',
-        partnerGender: targetGender,
-        message: `Found a ${targetGender} user matching your preferences!`
-      };
-    } else {
-      // Free users get random gender
-      const randomGender = genders[Math.floor(Math.random() * genders.length)];
-      
-      return {
-        success: true,
-        matchType: 'random',
-        partnerGender: randomGender,
-        message: `Connected with a random ${randomGender} user!`
-      };
-    }
-  }
 }
 
 export const matchingService = MatchingService.getInstance();
\ No newline at end of file
@@ -0,0 +1,84 @@
+export type MediaDeviceRole = 'audioinput' | 'videoinput' | 'audiooutput';
+
+export interface MediaDeviceOption {
+  deviceId: string;
+  label: string;
+}
+
+export interface AvailableDevices {
+  audioInputs: MediaDeviceOption[];
+  videoInputs: MediaDeviceOption[];
+  audioOutputs: MediaDeviceOption[];
+}
+
+const PREFERRED_DEVICES_STORAGE_KEY = 'preferredMediaDevices';
+
+// Device enumeration and the user's remembered camera, microphone and speaker
+export class MediaDeviceService {
+  static async listDevices(): Promise<AvailableDevices> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+
+    // Labels are empty until the user has granted media permission
+    const toOptions = (kind: MediaDeviceRole, fallbackLabel: string) => devices
+      .filter(device => device.kind === kind && device.deviceId)
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        label: device.label || `${fallbackLabel} ${index + 1}`
+      }));
+
+    return {
+      audioInputs: toOptions('audioinput', 'Microphone'),
+      videoInputs: toOptions('videoinput', 'Camera'),
+      audioOutputs: toOptions('audiooutput', 'Speaker')
+    };
+  }
+
+  static getPreferredDevice(role: MediaDeviceRole): string | null {
+    try {
+      const saved = JSON.parse(localStorage.getItem(PREFERRED_DEVICES_STORAGE_KEY) || '{}');
+      return saved[role] ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  static setPreferredDevice(role: MediaDeviceRole, deviceId: string | null): void {
+    let saved: Partial<Record<MediaDeviceRole, string>> = {};
+    try {
+      saved = JSON.parse(localStorage.getItem(PREFERRED_DEVICES_STORAGE_KEY) || '{}');
+    } catch {
+      saved = {};
+    }
+
+    if (deviceId) {
+      saved[role] = deviceId;
+    } else {
+      delete saved[role];
+    }
+    localStorage.setItem(PREFERRED_DEVICES_STORAGE_KEY, JSON.stringify(saved));
+  }
+
+  // Output selection needs setSinkId, which Safari and Firefox on Android lack
+  static supportsAudioOutputSelection(): boolean {
+    return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+  }
+
+  // Phones expose the loudspeaker as its own output, labelled e.g. "Speakerphone"
+  static async findSpeakerphone(): Promise<string | null> {
+    if (!this.supportsAudioOutputSelection()) return null;
+
+    const { audioOutputs } = await this.listDevices();
+    const speaker = audioOutputs.find(device => /speaker/i.test(device.label) && device.deviceId !== 'default');
+    return speaker?.deviceId ?? null;
+  }
+
+  static async applyAudioOutput(element: HTMLMediaElement, deviceId: string): Promise<void> {
+    if (!this.supportsAudioOutputSelection()) return;
+
+    try {
+      await (element as HTMLMediaElement & { setSinkId(id: string): Promise<void> }).setSinkId(deviceId);
+    } catch (error) {
+      console.error('Failed to switch audio output:', error);
+    }
+  }
+}
@@ -1,3 +1,4 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from "@/integrations/supabase/client";
 import { RAZORPAY_KEY_ID, PAYMENT_CONFIG } from '@/config/payments';
 
@@ -7,23 +8,156 @@ declare global {
   }
 }
 
+export type SubscriptionStatus =
+  | 'created'
+  | 'authenticated'
+  | 'active'
+  | 'pending'
+  | 'halted'
+  | 'cancelled'
+  | 'completed'
+  | 'expired'
+  | 'paused';
+
+// A Razorpay subscription that's running or still granting access
+export interface Subscription {
+  id: string;
+  productId: string;
+  productType: 'premium' | 'unlimited_calls';
+  status: SubscriptionStatus;
+  currentEnd: Date | null;
+  // Set while Razorpay retries a failed renewal; access lasts until then
+  graceUntil: Date | null;
+  cancelAtPeriodEnd: boolean;
+  accessUntil: Date | null;
+  autoRenews: boolean;
+}
+
+// As returned by the payments edge function
+interface SubscriptionResponse {
+  id: string;
+  product_id: string;
+  product_type: Subscription['productType'];
+  status: SubscriptionStatus;
+  current_end: string | null;
+  grace_until: string | null;
+  cancel_at_period_end: boolean;
+  access_until: string | null;
+}
+
+// As returned by the payments edge function
+interface EntitlementResponse {
+  is_premium: boolean;
+  premium_until: string | null;
+  premium_lifetime: boolean;
+  has_unlimited_calls: boolean;
+  unlimited_calls_until: string | null;
+  coin_balance: number;
+  subscriptions: SubscriptionResponse[];
+}
+
+// What the user holds, as the server works it out from purchases and subscriptions
+export interface EntitlementState {
+  isPremium: boolean;
+  premiumUntil: Date | null;
+  premiumLifetime: boolean;
+  hasUnlimitedCalls: boolean;
+  unlimitedCallsUntil: Date | null;
+  coinBalance: number;
+  subscriptions: Subscription[];
+}
+
 export interface PaymentResult {
   success: boolean;
   error?: string;
   paymentId?: string;
   orderId?: string;
+  entitlements?: EntitlementState;
   data?: any;
 }
 
+export type ProductType = 'coins' | 'premium' | 'unlimited_calls';
+
+// A purchasable product from the server's catalog, for display only; the
+// server prices orders itself from the product ID
+export interface CatalogProduct {
+  id: string;
+  type: ProductType;
+  price: number;
+  originalPrice: number | null;
+  currency: string;
+  duration: string | null;
+  badge: string | null;
+  coins: number;
+  bonusCoins: number;
+  // Set for products that can be bought as an auto-renewing subscription
+  recurring: { period: 'daily' | 'weekly' | 'monthly'; interval: number } | null;
+}
+
+// A catalog product as returned by the payments edge function
+interface CatalogProductResponse {
+  id: string;
+  type: ProductType;
+  price: number;
+  original_price: number | null;
+  currency: string;
+  duration: string | null;
+  badge: string | null;
+  coins: number;
+  bonus_coins: number;
+  recurring: CatalogProduct['recurring'];
+}
+
+// What Checkout passes its handler once a subscription's first payment succeeds
+interface RazorpaySubscriptionCheckoutResponse {
+  razorpay_payment_id: string;
+  razorpay_subscription_id: string;
+  razorpay_signature: string;
+}
+
 export interface PaymentOptions {
-  amount: number;
-  productType: 'coins' | 'premium' | 'unlimited_calls';
-  productDetails: any;
+  productId: string;
   onSuccess: (response: any) => void;
   onError: (error: any) => void;
 }
 
 export class PaymentService {
+  private static catalog: Promise<CatalogProduct[]> | null = null;
+
+  // Fetched once per session; a failed fetch is retried on the next call
+  static getCatalog(): Promise<CatalogProduct[]> {
+    if (!this.catalog) {
+      this.catalog = this.fetchCatalog().catch((error) => {
+        this.catalog = null;
+        throw error;
+      });
+    }
+    return this.catalog;
+  }
+
+  private static async fetchCatalog(): Promise<CatalogProduct[]> {
+    const { data, error } = await supabase.functions.invoke('razorpay-payments', {
+      body: { action: 'get_catalog' },
+    });
+
+    if (error || !data.success) {
+      throw new Error(data?.error || 'Failed to load products');
+    }
+
+    return (data.products as CatalogProductResponse[]).map((product) => ({
+      id: product.id,
+      type: product.type,
+      price: product.price,
+      originalPrice: product.original_price,
+      currency: product.currency,
+      duration: product.duration,
+      badge: product.badge,
+      coins: product.coins,
+      bonusCoins: product.bonus_coins,
+      recurring: product.recurring
+    }));
+  }
+
   private static loadRazorpayScript(): Promise<boolean> {
     return new Promise((resolve) => {
       if (window.Razorpay) {
@@ -39,6 +173,32 @@ export class PaymentService {
     });
   }
 
+  static toEntitlementState(raw: EntitlementResponse | null | undefined): EntitlementState | undefined {
+    if (!raw) return undefined;
+
+    const toDate = (value: string | null) => value ? new Date(value) : null;
+
+    return {
+      isPremium: raw.is_premium,
+      premiumUntil: toDate(raw.premium_until),
+      premiumLifetime: raw.premium_lifetime,
+      hasUnlimitedCalls: raw.has_unlimited_calls,
+      unlimitedCallsUntil: toDate(raw.unlimited_calls_until),
+      coinBalance: raw.coin_balance,
+      subscriptions: (raw.subscriptions ?? []).map((subscription) => ({
+        id: subscription.id,
+        productId: subscription.product_id,
+        productType: subscription.product_type,
+        status: subscription.status,
+        currentEnd: toDate(subscription.current_end),
+        graceUntil: toDate(subscription.grace_until),
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+        accessUntil: toDate(subscription.access_until),
+        autoRenews: ['authenticated', 'active', 'pending'].includes(subscription.status) && !subscription.cancel_at_period_end
+      }))
+    };
+  }
+
   static async testPaymentGateway(): Promise<{ available: boolean; error?: string }> {
     try {
       // Test if Razorpay script can be loaded
@@ -67,11 +227,7 @@ export class PaymentService {
       const { data, error } = await supabase.functions.invoke('razorpay-payments', {
         body: {
           action: 'create_order',
-          amount: options.amount,
-          currency: 'INR',
-          product_type: options.productType,
-          product_details: options.productDetails,
-          user_id: user.id,
+          product_id: options.productId,
         },
       });
 
@@ -98,7 +254,6 @@ export class PaymentService {
                 razorpay_order_id: response.razorpay_order_id,
                 razorpay_payment_id: response.razorpay_payment_id,
                 razorpay_signature: response.razorpay_signature,
-                user_id: user.id,
               },
             });
 
@@ -122,7 +277,7 @@ export class PaymentService {
         },
         notes: {
           user_id: user.id,
-          product_type: options.productType,
+          product_id: options.productId,
         },
       };
 
@@ -136,76 +291,100 @@ export class PaymentService {
     }
   }
 
-  // Premium subscription with price parameter
-  static async subscribeToPremium(
-    planId: keyof typeof import('@/config/payments').PREMIUM_PLANS,
-    userInfo?: { name?: string; email?: string; phone?: string }
-  ): Promise<PaymentResult> {
-    const { PREMIUM_PLANS } = await import('@/config/payments');
-    const plan = PREMIUM_PLANS[planId];
-    
-    if (!plan) {
-      return {
-        success: false,
-        error: 'Invalid premium plan selected'
-      };
-    }
+  // Checkout for a recurring product: the first payment also sets up the
+  // mandate Razorpay charges each renewal against
+  static async initiateSubscription(options: PaymentOptions): Promise<void> {
+    try {
+      const isScriptLoaded = await this.loadRazorpayScript();
+      if (!isScriptLoaded) {
+        throw new Error('Failed to load Razorpay script');
+      }
 
-    return new Promise((resolve) => {
-      this.initiatePayment({
-        amount: plan.price,
-        productType: 'premium',
-        productDetails: { 
-          planId, 
-          duration: plan.duration,
-          coins: 0 
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await supabase.functions.invoke('razorpay-payments', {
+        body: {
+          action: 'create_subscription',
+          product_id: options.productId,
         },
-        onSuccess: (response) => {
-          resolve({
-            success: true,
-            paymentId: response.order?.razorpay_payment_id,
-            orderId: response.order?.razorpay_order_id,
-            data: response
-          });
+      });
+
+      if (error || !data.success) {
+        throw new Error(await this.getErrorMessage(error, data, 'Failed to create subscription'));
+      }
+
+      const razorpay = new window.Razorpay({
+        key: RAZORPAY_KEY_ID,
+        subscription_id: data.subscription_id,
+        name: PAYMENT_CONFIG.company.name,
+        description: PAYMENT_CONFIG.company.description,
+        image: PAYMENT_CONFIG.company.logo,
+        theme: PAYMENT_CONFIG.company.theme,
+        handler: async (response: RazorpaySubscriptionCheckoutResponse) => {
+          try {
+            const { data: verificationData, error: verificationError } = await supabase.functions.invoke('razorpay-payments', {
+              body: {
+                action: 'verify_subscription',
+                razorpay_payment_id: response.razorpay_payment_id,
+                razorpay_subscription_id: response.razorpay_subscription_id,
+                razorpay_signature: response.razorpay_signature,
+              },
+            });
+
+            if (verificationError || !verificationData.success) {
+              throw new Error(verificationData?.error || 'Payment verification failed');
+            }
+
+            options.onSuccess({ ...verificationData, razorpay_payment_id: response.razorpay_payment_id });
+          } catch (error) {
+            console.error('Subscription verification error:', error);
+            options.onError(error);
+          }
+        },
+        modal: {
+          ondismiss: () => {
+            options.onError({ message: 'Payment cancelled by user' });
+          },
+        },
+        prefill: {
+          email: user.email || '',
+        },
+        notes: {
+          user_id: user.id,
+          product_id: options.productId,
         },
-        onError: (error) => {
-          resolve({
-            success: false,
-            error: error.message || 'Payment failed'
-          });
-        }
       });
-    });
+      razorpay.open();
+
+    } catch (error) {
+      console.error('Subscription initiation error:', error);
+      options.onError(error);
+    }
   }
 
-  // Coin package purchase
-  static async buyCoinPackage(
-    packageId: keyof typeof import('@/config/payments').COIN_PACKAGES,
-    userInfo?: { name?: string; email?: string; phone?: string }
-  ): Promise<PaymentResult> {
-    const { COIN_PACKAGES } = await import('@/config/payments');
-    const coinPackage = COIN_PACKAGES[packageId];
-    
-    if (!coinPackage) {
-      return {
-        success: false,
-        error: 'Invalid coin package selected'
-      };
+  // The server's reason for a refused request, e.g. an existing subscription
+  private static async getErrorMessage(error: unknown, data: { error?: string } | null, fallback: string): Promise<string> {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      return details?.error || fallback;
     }
+    return data?.error || fallback;
+  }
 
+  // Buys any catalog product; resolves once the server has fulfilled it
+  static purchaseProduct(productId: string): Promise<PaymentResult> {
     return new Promise((resolve) => {
       this.initiatePayment({
-        amount: coinPackage.price,
-        productType: 'coins',
-        productDetails: { 
-          packageId, 
-          coins: coinPackage.coins 
-        },
+        productId,
         onSuccess: (response) => {
           resolve({
             success: true,
             paymentId: response.order?.razorpay_payment_id,
             orderId: response.order?.razorpay_order_id,
+            entitlements: this.toEntitlementState(response.entitlements),
             data: response
           });
         },
@@ -219,26 +398,17 @@ export class PaymentService {
     });
   }
 
-  // Unlimited calls subscription
-  static async subscribeToUnlimitedCalls(
-    autoRenew: boolean,
-    userInfo?: { name?: string; email?: string; phone?: string }
-  ): Promise<PaymentResult> {
-    const { UNLIMITED_CALLS_PLAN } = await import('@/config/payments');
-    
+  // Starts an auto-renewing subscription to a recurring product; resolves once
+  // the first payment is verified
+  static subscribe(productId: string): Promise<PaymentResult> {
     return new Promise((resolve) => {
-      this.initiatePayment({
-        amount: UNLIMITED_CALLS_PLAN.price,
-        productType: 'unlimited_calls',
-        productDetails: { 
-          duration: UNLIMITED_CALLS_PLAN.duration,
-          autoRenew 
-        },
+      this.initiateSubscription({
+        productId,
         onSuccess: (response) => {
           resolve({
             success: true,
-            paymentId: response.order?.razorpay_payment_id,
-            orderId: response.order?.razorpay_order_id,
+            paymentId: response.razorpay_payment_id,
+            entitlements: this.toEntitlementState(response.entitlements),
             data: response
           });
         },
@@ -251,4 +421,4 @@ export class PaymentService {
       });
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+import { doc, setDoc, onSnapshot, Timestamp } from 'firebase/firestore';
+import { db } from '@/config/firebase';
+
+// Stored at presence/{userId}. Firestore has no disconnect hook, so clients
+// heartbeat while open and anyone silent for too long is treated as offline.
+export interface PresenceState {
+  online: boolean;
+  lastSeen: Timestamp | null;
+  typingIn: string | null;
+  typingAt: Timestamp | null;
+}
+
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000;
+const ONLINE_THRESHOLD_MS = PRESENCE_HEARTBEAT_MS * 2.5;
+// A typing flag older than this is stale, e.g. the app closed mid-sentence
+const TYPING_TIMEOUT_MS = 6000;
+
+export const EMPTY_PRESENCE: PresenceState = { online: false, lastSeen: null, typingIn: null, typingAt: null };
+
+export class PresenceService {
+  static async setOnline(userId: string, online: boolean): Promise<void> {
+    try {
+      await setDoc(doc(db, 'presence', userId), {
+        online,
+        lastSeen: Timestamp.now(),
+        ...(online ? {} : { typingIn: null })
+      }, { merge: true });
+    } catch (error) {
+      console.error('Failed to update presence:', error);
+    }
+  }
+
+  // Pass null when the user stops typing
+  static async setTyping(userId: string, conversationId: string | null): Promise<void> {
+    try {
+      await setDoc(doc(db, 'presence', userId), {
+        typingIn: conversationId,
+        typingAt: Timestamp.now()
+      }, { merge: true });
+    } catch (error) {
+      console.error('Failed to update typing state:', error);
+    }
+  }
+
+  static subscribeToPresence(userId: string, callback: (presence: PresenceState) => void) {
+    try {
+      return onSnapshot(doc(db, 'presence', userId), (docSnap) => {
+        const data = docSnap.exists() ? docSnap.data() : {};
+        callback({
+          online: data.online ?? false,
+          lastSeen: data.lastSeen ?? null,
+          typingIn: data.typingIn ?? null,
+          typingAt: data.typingAt ?? null
+        });
+      });
+    } catch (error: unknown) {
+      throw new Error(`Failed to subscribe to presence: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  static isOnline(presence: PresenceState, now: number = Date.now()): boolean {
+    return presence.online && !!presence.lastSeen && now - presence.lastSeen.toMillis() < ONLINE_THRESHOLD_MS;
+  }
+
+  static isTypingIn(presence: PresenceState, conversationId: string, now: number = Date.now()): boolean {
+    return presence.typingIn === conversationId &&
+      !!presence.typingAt &&
+      now - presence.typingAt.toMillis() < TYPING_TIMEOUT_MS;
+  }
+
+  // "online", "last seen 5m ago", or "offline" when we've never seen them
+  static describe(presence: PresenceState, now: number = Date.now()): string {
+    if (this.isOnline(presence, now)) return 'online';
+    if (!presence.lastSeen) return 'offline';
+
+    const minutes = Math.floor((now - presence.lastSeen.toMillis()) / 60000);
+    if (minutes < 1) return 'last seen just now';
+    if (minutes < 60) return `last seen ${minutes}m ago`;
+    if (minutes < 24 * 60) return `last seen ${Math.floor(minutes / 60)}h ago`;
+    return `last seen ${Math.floor(minutes / (24 * 60))}d ago`;
+  }
+}
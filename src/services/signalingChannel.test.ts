@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { InMemorySignalingHub, SignalMessage } from '@/services/signalingChannel';
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function connect(hub: InMemorySignalingHub, userId: string, callId = 'call-1') {
+  const channel = hub.createChannel();
+  const received: SignalMessage[] = [];
+  channel.onMessage = (message) => received.push(message);
+  await channel.connect(callId, userId);
+  return { channel, received };
+}
+
+describe('InMemorySignalingHub', () => {
+  it('replays what the other side sent before we joined, in order', async () => {
+    const hub = new InMemorySignalingHub();
+    const caller = await connect(hub, 'caller');
+    await caller.channel.send({ type: 'end-of-candidates' });
+    await caller.channel.send({ type: 'ice-restart-request' });
+
+    const receiver = await connect(hub, 'receiver');
+    await settle();
+
+    expect(receiver.received.map(message => message.type)).toEqual(['end-of-candidates', 'ice-restart-request']);
+  });
+
+  it('delivers live messages to the other participant only', async () => {
+    const hub = new InMemorySignalingHub();
+    const caller = await connect(hub, 'caller');
+    const receiver = await connect(hub, 'receiver');
+
+    await caller.channel.send({ type: 'hangup' });
+    await settle();
+
+    expect(receiver.received).toEqual([{ type: 'hangup' }]);
+    expect(caller.received).toEqual([]);
+  });
+
+  it('keeps calls apart', async () => {
+    const hub = new InMemorySignalingHub();
+    const caller = await connect(hub, 'caller', 'call-1');
+    const stranger = await connect(hub, 'receiver', 'call-2');
+
+    await caller.channel.send({ type: 'hangup' });
+    await settle();
+
+    expect(stranger.received).toEqual([]);
+  });
+
+  it('stops delivering once a channel is closed', async () => {
+    const hub = new InMemorySignalingHub();
+    const caller = await connect(hub, 'caller');
+    const receiver = await connect(hub, 'receiver');
+
+    await receiver.channel.close();
+    await caller.channel.send({ type: 'hangup' });
+    await settle();
+
+    expect(receiver.received).toEqual([]);
+    await expect(receiver.channel.send({ type: 'hangup' })).rejects.toThrow('not connected');
+  });
+});
@@ -0,0 +1,126 @@
+import { SIGNALING_TRANSPORT, SIGNALING_WS_URL } from '@/config/signaling';
+import { FirestoreSignalingChannel } from '@/services/firestoreSignalingChannel';
+import { WebSocketSignalingChannel } from '@/services/webSocketSignalingChannel';
+
+// Messages exchanged between the two peers of a call while negotiating
+export type SignalMessage =
+  | { type: 'offer'; description: RTCSessionDescriptionInit }
+  | { type: 'answer'; description: RTCSessionDescriptionInit }
+  | { type: 'ice-candidate'; candidate: RTCIceCandidateInit }
+  // The sender has gathered all of its candidates
+  | { type: 'end-of-candidates' }
+  // Sent by the answering side; only the caller makes offers, to avoid glare
+  | { type: 'ice-restart-request' }
+  // The sender ended the call on purpose, as opposed to losing the connection
+  | { type: 'hangup' };
+
+// Transport for WebRTC signaling. Implementations must deliver messages the
+// other participant sent before we connected, since either side may join first.
+export interface SignalingChannel {
+  connect(callId: string, userId: string): Promise<void>;
+  send(message: SignalMessage): Promise<void>;
+  // Stop receiving and discard the call's signaling data
+  close(): Promise<void>;
+  onMessage?: (message: SignalMessage) => void;
+}
+
+// Pick the transport configured for this build
+export function createSignalingChannel(): SignalingChannel {
+  if (SIGNALING_TRANSPORT === 'websocket') {
+    return new WebSocketSignalingChannel(SIGNALING_WS_URL);
+  }
+  return new FirestoreSignalingChannel();
+}
+
+interface SignalingRoom {
+  channels: Map<string, InMemorySignalingChannel>;
+  log: { from: string; message: SignalMessage }[];
+}
+
+// In-process signaling for tests: channels created from the same hub can
+// negotiate with each other without any backend
+export class InMemorySignalingHub {
+  private rooms: Map<string, SignalingRoom> = new Map();
+
+  createChannel(): InMemorySignalingChannel {
+    return new InMemorySignalingChannel(this);
+  }
+
+  join(callId: string, userId: string, channel: InMemorySignalingChannel): void {
+    const room = this.getRoom(callId);
+    room.channels.set(userId, channel);
+
+    // Replay anything the other side sent before we joined
+    room.log
+      .filter(entry => entry.from !== userId)
+      .forEach(entry => this.deliver(channel, entry.message));
+  }
+
+  publish(callId: string, from: string, message: SignalMessage): void {
+    const room = this.getRoom(callId);
+    room.log.push({ from, message });
+
+    room.channels.forEach((channel, userId) => {
+      if (userId !== from) {
+        this.deliver(channel, message);
+      }
+    });
+  }
+
+  leave(callId: string, userId: string): void {
+    const room = this.rooms.get(callId);
+    if (!room) return;
+
+    room.channels.delete(userId);
+    if (room.channels.size === 0) {
+      this.rooms.delete(callId);
+    }
+  }
+
+  private getRoom(callId: string): SignalingRoom {
+    let room = this.rooms.get(callId);
+    if (!room) {
+      room = { channels: new Map(), log: [] };
+      this.rooms.set(callId, room);
+    }
+    return room;
+  }
+
+  // Deliver asynchronously, like a real transport would
+  private deliver(channel: InMemorySignalingChannel, message: SignalMessage): void {
+    queueMicrotask(() => channel.onMessage?.(message));
+  }
+}
+
+export class InMemorySignalingChannel implements SignalingChannel {
+  private hub: InMemorySignalingHub;
+  private callId: string | null = null;
+  private userId: string | null = null;
+
+  constructor(hub: InMemorySignalingHub) {
+    this.hub = hub;
+  }
+
+  async connect(callId: string, userId: string): Promise<void> {
+    this.callId = callId;
+    this.userId = userId;
+    this.hub.join(callId, userId, this);
+  }
+
+  async send(message: SignalMessage): Promise<void> {
+    if (!this.callId || !this.userId) {
+      throw new Error('Signaling channel is not connected');
+    }
+    this.hub.publish(this.callId, this.userId, message);
+  }
+
+  async close(): Promise<void> {
+    if (this.callId && this.userId) {
+      this.hub.leave(this.callId, this.userId);
+    }
+    this.callId = null;
+    this.userId = null;
+  }
+
+  onMessage?: (message: SignalMessage) => void;
+}
@@ -0,0 +1,110 @@
+import {
+  doc,
+  setDoc,
+  onSnapshot,
+  runTransaction,
+  arrayUnion,
+  arrayRemove,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+
+export interface RecentMeeting {
+  userId: string;
+  metAt: Timestamp;
+}
+
+// Per-user safety state, stored at userRelations/{userId} and readable only
+// by that user. The security rules check it when someone claims their
+// matching request.
+export interface UserRelations {
+  blocked: string[];
+  recentlyMet: RecentMeeting[];
+}
+
+// Keep only the latest meetings, and avoid re-matching them for a while
+const MAX_RECENT_MEETINGS = 20;
+const RECENTLY_MET_WINDOW_MS = 60 * 60 * 1000;
+
+export const EMPTY_USER_RELATIONS: UserRelations = { blocked: [], recentlyMet: [] };
+
+export class UserRelationsService {
+  // Block a user; they are excluded from matching in both directions
+  static async blockUser(userId: string, targetUserId: string): Promise<void> {
+    try {
+      await setDoc(doc(db, 'userRelations', userId), {
+        blocked: arrayUnion(targetUserId)
+      }, { merge: true });
+    } catch (error: unknown) {
+      throw new Error(`Failed to block user: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  static async unblockUser(userId: string, targetUserId: string): Promise<void> {
+    try {
+      await setDoc(doc(db, 'userRelations', userId), {
+        blocked: arrayRemove(targetUserId)
+      }, { merge: true });
+    } catch (error: unknown) {
+      throw new Error(`Failed to unblock user: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Add a partner to the rolling recently-met list, newest first
+  static async recordMeeting(userId: string, partnerId: string): Promise<void> {
+    try {
+      const relationsRef = doc(db, 'userRelations', userId);
+
+      await runTransaction(db, async (transaction) => {
+        const relationsSnap = await transaction.get(relationsRef);
+        const recentlyMet: RecentMeeting[] = relationsSnap.exists()
+          ? relationsSnap.data().recentlyMet ?? []
+          : [];
+
+        const updated = [
+          { userId: partnerId, metAt: Timestamp.now() },
+          ...recentlyMet.filter(meeting => meeting.userId !== partnerId)
+        ].slice(0, MAX_RECENT_MEETINGS);
+
+        // The same meetings keyed by user, since security rules can look up
+        // a map key but can't search a list
+        const metAt = Object.fromEntries(updated.map(meeting => [meeting.userId, meeting.metAt]));
+
+        transaction.set(relationsRef, { recentlyMet: updated, metAt }, { mergeFields: ['recentlyMet', 'metAt'] });
+      });
+    } catch (error) {
+      console.error('Failed to record meeting:', error);
+    }
+  }
+
+  static subscribeToRelations(userId: string, callback: (relations: UserRelations) => void) {
+    try {
+      return onSnapshot(doc(db, 'userRelations', userId), (docSnap) => {
+        callback(UserRelationsService.fromData(docSnap.data()));
+      });
+    } catch (error: unknown) {
+      throw new Error(`Failed to subscribe to user relations: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // A stored relations document, or the lack of one, with fields defaulted
+  static fromData(data: Partial<UserRelations> | undefined): UserRelations {
+    return {
+      blocked: data?.blocked ?? [],
+      recentlyMet: data?.recentlyMet ?? []
+    };
+  }
+
+  // Users this person should not be matched with right now
+  static getExcludedUserIds(relations: UserRelations, now: number = Date.now()): string[] {
+    const recent = relations.recentlyMet
+      .filter(meeting => now - meeting.metAt.toMillis() < RECENTLY_MET_WINDOW_MS)
+      .map(meeting => meeting.userId);
+
+    return Array.from(new Set([...relations.blocked, ...recent]));
+  }
+
+  static excludes(relations: UserRelations, userId: string, now: number = Date.now()): boolean {
+    return UserRelationsService.getExcludedUserIds(relations, now).includes(userId);
+  }
+}
@@ -0,0 +1,183 @@
+import { FunctionsFetchError, FunctionsHttpError, RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from "@/integrations/supabase/client";
+
+export type CoinTransactionReason = 'purchase' | 'call' | 'reaction' | 'unlock' | 'reward' | 'refund';
+export type CoinDebitReason = 'call' | 'reaction' | 'unlock';
+export type RewardSource = 'streak' | 'spin' | 'mystery';
+
+export interface CoinTransaction {
+  id: string;
+  amount: number;
+  reason: CoinTransactionReason;
+  reference: string | null;
+  balanceAfter: number;
+  createdAt: string;
+}
+
+export interface WalletState {
+  // null until the server has answered once
+  balance: number | null;
+  transactions: CoinTransaction[];
+  loading: boolean;
+  error: string | null;
+}
+
+// As returned by the wallet edge function
+interface LedgerRow {
+  id: string;
+  amount: number;
+  reason: CoinTransactionReason;
+  reference: string | null;
+  balance_after: number;
+  created_at: string;
+}
+
+interface WalletResponse {
+  balance: number;
+  transactions?: LedgerRow[];
+}
+
+// Resolves to whether the coins were actually spent
+export type SpendCoins = (
+  amount: number,
+  reason: CoinDebitReason,
+  idempotencyKey?: string,
+  reference?: string
+) => Promise<boolean>;
+
+// Hands back a call debit made with this idempotency key; resolves to whether it was refunded
+export type RefundCallCoins = (idempotencyKey: string) => Promise<boolean>;
+
+export class InsufficientCoinsError extends Error {
+  constructor() {
+    super('Not enough coins');
+    this.name = 'InsufficientCoinsError';
+  }
+}
+
+// The wallet lives on the server (the wallet edge function over an append-only
+// ledger). This keeps one shared copy of it for every screen that shows the balance.
+export class WalletService {
+  private static state: WalletState = { balance: null, transactions: [], loading: false, error: null };
+  private static listeners = new Set<(state: WalletState) => void>();
+  private static ledgerChannel: RealtimeChannel | null = null;
+
+  static getState(): WalletState {
+    return this.state;
+  }
+
+  static subscribeToWallet(listener: (state: WalletState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+
+    if (this.listeners.size === 1) {
+      this.refresh();
+      this.watchLedger();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.ledgerChannel) {
+        supabase.removeChannel(this.ledgerChannel);
+        this.ledgerChannel = null;
+      }
+    };
+  }
+
+  static async refresh(): Promise<void> {
+    this.setState({ loading: true });
+    try {
+      const data = await this.invoke('get_wallet', {});
+      this.setState({
+        balance: data.balance,
+        transactions: (data.transactions ?? []).map((row) => ({
+          id: row.id,
+          amount: row.amount,
+          reason: row.reason,
+          reference: row.reference,
+          balanceAfter: row.balance_after,
+          createdAt: row.created_at
+        })),
+        loading: false,
+        error: null
+      });
+    } catch (error: unknown) {
+      console.error('Failed to load wallet:', error);
+      this.setState({ loading: false, error: error instanceof Error ? error.message : 'Failed to load wallet' });
+    }
+  }
+
+  // Throws InsufficientCoinsError when the server refuses for lack of funds
+  static async debit(
+    amount: number,
+    reason: CoinDebitReason,
+    idempotencyKey: string,
+    reference?: string
+  ): Promise<number> {
+    const data = await this.invoke('debit', { amount, reason, idempotency_key: idempotencyKey, reference });
+    this.setState({ balance: data.balance });
+    return data.balance;
+  }
+
+  // Only call debits, and only for a few minutes after they were taken
+  static async refundCallDebit(idempotencyKey: string): Promise<number> {
+    const data = await this.invoke('refund_call_debit', { idempotency_key: idempotencyKey });
+    this.setState({ balance: data.balance });
+    return data.balance;
+  }
+
+  static async claimReward(amount: number, source: RewardSource, idempotencyKey: string): Promise<number> {
+    const data = await this.invoke('claim_reward', { amount, source, idempotency_key: idempotencyKey });
+    this.setState({ balance: data.balance });
+    return data.balance;
+  }
+
+  private static setState(update: Partial<WalletState>) {
+    this.state = { ...this.state, ...update };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  // Credits can land from elsewhere (a verified purchase), so follow the ledger
+  private static async watchLedger() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || this.ledgerChannel || this.listeners.size === 0) return;
+
+    this.ledgerChannel = supabase
+      .channel(`coin-ledger-${user.id}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'coin_ledger',
+        filter: `user_id=eq.${user.id}`
+      }, () => {
+        this.refresh();
+      })
+      .subscribe();
+  }
+
+  // Retries once if the request never reached the server. Debits and rewards
+  // carry an idempotency key, so a retry can't apply them twice.
+  private static async invoke(action: string, body: Record<string, unknown>, isRetry = false): Promise<WalletResponse> {
+    const { data, error } = await supabase.functions.invoke('wallet', {
+      body: { action, ...body },
+    });
+
+    if (error instanceof FunctionsFetchError && !isRetry) {
+      return this.invoke(action, body, true);
+    }
+
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      if (details?.code === 'insufficient_coins') {
+        throw new InsufficientCoinsError();
+      }
+      throw new Error(details?.error || 'Wallet request failed');
+    }
+
+    if (error || !data.success) {
+      throw new Error(data?.error || 'Wallet request failed');
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocketSignalingChannel } from '@/services/webSocketSignalingChannel';
+
+// Just enough of WebSocket to open, drop and fail sockets by hand
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: { action: string; message?: { type: string } }[] = [];
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((event?: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  // Test helpers
+
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  drop(): void {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  fail(): void {
+    this.onerror?.();
+    this.drop();
+  }
+}
+
+const latest = () => FakeWebSocket.instances.at(-1)!;
+
+async function connected(): Promise<WebSocketSignalingChannel> {
+  const channel = new WebSocketSignalingChannel('wss://relay.test');
+  const connecting = channel.connect('call-1', 'alice');
+  latest().open();
+  await connecting;
+  return channel;
+}
+
+describe('WebSocketSignalingChannel', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('rejoins after the socket drops and sends what was queued meanwhile', async () => {
+    const channel = await connected();
+    latest().drop();
+
+    await channel.send({ type: 'ice-restart-request' });
+    await channel.send({ type: 'end-of-candidates' });
+    await vi.advanceTimersByTimeAsync(500);
+    latest().open();
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(latest().sent.map(frame => frame.message?.type ?? frame.action)).toEqual([
+      'join',
+      'ice-restart-request',
+      'end-of-candidates'
+    ]);
+  });
+
+  it('waits longer after each failed attempt, and starts over once connected', async () => {
+    await connected();
+    latest().drop();
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    latest().fail();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    latest().open();
+    latest().drop();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(FakeWebSocket.instances).toHaveLength(4);
+  });
+
+  it('stays closed once the call closes it', async () => {
+    const channel = await connected();
+    latest().drop();
+
+    await channel.close();
+    await vi.advanceTimersByTimeAsync(20000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+
+  it("doesn't keep retrying when the first connection fails", async () => {
+    const channel = new WebSocketSignalingChannel('wss://relay.test');
+    const connecting = channel.connect('call-1', 'alice');
+    latest().fail();
+
+    await expect(connecting).rejects.toThrow('Failed to connect to signaling server');
+    await vi.advanceTimersByTimeAsync(20000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+});
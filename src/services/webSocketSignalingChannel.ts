@@ -0,0 +1,159 @@
+import type { SignalingChannel, SignalMessage } from '@/services/signalingChannel';
+
+// Wire protocol spoken with the signaling relay. The relay forwards `signal`
+// frames to the other participant of the call and holds them until that
+// participant has joined.
+type ClientFrame =
+  | { action: 'join'; callId: string; userId: string }
+  | { action: 'signal'; callId: string; from: string; message: SignalMessage }
+  | { action: 'leave'; callId: string; userId: string };
+
+type ServerFrame =
+  | { action: 'signal'; from: string; message: SignalMessage }
+  | { action: 'error'; error: string };
+
+function encode(frame: ClientFrame): string {
+  return JSON.stringify(frame);
+}
+
+// A dropped socket is reopened after this delay, doubling per failed attempt
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 10000;
+
+// Signaling over a WebSocket relay, avoiding Firestore reads and writes per candidate.
+// The socket is reopened whenever it drops mid-call, e.g. on a network switch,
+// so the ICE restart that follows can still be signaled.
+export class WebSocketSignalingChannel implements SignalingChannel {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private callId: string | null = null;
+  private userId: string | null = null;
+  // Frames sent while the socket is down, sent in order once it's back
+  private outbox: ClientFrame[] = [];
+  // Only a call we've joined is rejoined; a first connection that fails is reported instead
+  private hasJoined = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async connect(callId: string, userId: string): Promise<void> {
+    this.callId = callId;
+    this.userId = userId;
+
+    try {
+      await this.open();
+    } catch (error) {
+      this.socket = null;
+      this.callId = null;
+      this.userId = null;
+      throw error;
+    }
+  }
+
+  async send(message: SignalMessage): Promise<void> {
+    if (!this.callId || !this.userId) {
+      throw new Error('Signaling channel is not connected');
+    }
+
+    this.sendFrame({ action: 'signal', callId: this.callId, from: this.userId, message });
+  }
+
+  async close(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.outbox = [];
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      if (this.callId && this.userId && socket.readyState === WebSocket.OPEN) {
+        socket.send(encode({ action: 'leave', callId: this.callId, userId: this.userId }));
+      }
+      socket.close();
+    }
+
+    this.callId = null;
+    this.userId = null;
+    this.reconnectAttempts = 0;
+    this.hasJoined = false;
+  }
+
+  // Opens a socket and joins the call on it. Rejoining makes the relay replay
+  // what it's holding for us; WebRTCService already ignores repeated signals.
+  private open(): Promise<void> {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onmessage = (event) => {
+      try {
+        const frame = JSON.parse(event.data) as ServerFrame;
+
+        if (frame.action === 'signal' && frame.from !== this.userId) {
+          this.onMessage?.(frame.message);
+        } else if (frame.action === 'error') {
+          console.error('Signaling server error:', frame.error);
+        }
+      } catch (error) {
+        console.error('Failed to parse signaling message:', error);
+      }
+    };
+
+    // Unless we closed it ourselves, a closed socket is reopened
+    socket.onclose = () => {
+      if (this.socket !== socket || !this.hasJoined) return;
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+
+    return new Promise<void>((resolve, reject) => {
+      socket.onerror = () => reject(new Error('Failed to connect to signaling server'));
+
+      socket.onopen = () => {
+        socket.onerror = (event) => {
+          console.error('Signaling socket error:', event);
+        };
+        this.reconnectAttempts = 0;
+        this.hasJoined = true;
+
+        if (this.callId && this.userId) {
+          socket.send(encode({ action: 'join', callId: this.callId, userId: this.userId }));
+        }
+        const outbox = this.outbox;
+        this.outbox = [];
+        outbox.forEach(frame => socket.send(encode(frame)));
+
+        resolve();
+      };
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.callId || this.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    console.log(`Signaling socket closed, reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open().catch((error) => {
+        console.error('Failed to reconnect to signaling server:', error);
+      });
+    }, delay);
+  }
+
+  private sendFrame(frame: ClientFrame): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(encode(frame));
+    } else {
+      this.outbox.push(frame);
+    }
+  }
+
+  onMessage?: (message: SignalMessage) => void;
+}
@@ -0,0 +1,357 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FakePeerConnection, fakeMediaStream, ufragOf } from '@/test/fakePeerConnection';
+import { InMemorySignalingHub, SignalMessage } from '@/services/signalingChannel';
+import { WebRTCService } from '@/services/webrtcService';
+
+vi.mock('@/config/firebase', () => ({ db: {} }));
+vi.mock('@/services/iceServerService', () => ({
+  IceServerService: {
+    getRtcConfiguration: async () => ({ iceServers: [] }),
+    isRelayOnly: () => false
+  }
+}));
+
+const CALL_ID = 'call-1';
+
+// Signals are delivered as microtasks and handled through chains of awaits;
+// a macrotask runs only once all of that has settled
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function candidate(name: string, usernameFragment?: string): SignalMessage {
+  return {
+    type: 'ice-candidate',
+    candidate: { candidate: `candidate:${name}`, sdpMid: '0', sdpMLineIndex: 0, usernameFragment }
+  };
+}
+
+function description(type: 'offer' | 'answer', ufrag: string): SignalMessage {
+  return { type, description: { type, sdp: `v=0\r\na=ice-ufrag:${ufrag}\r\n` } } as SignalMessage;
+}
+
+// Every order the given messages could arrive in
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+// What a signal should leave in appliedCandidates, or undefined for a description
+function expectedName(message: SignalMessage): string | null | undefined {
+  if (message.type === 'ice-candidate') return message.candidate.candidate.replace('candidate:', '');
+  if (message.type === 'end-of-candidates') return null;
+  return undefined;
+}
+
+function appliedNames(pc: FakePeerConnection): (string | null)[] {
+  return pc.appliedCandidates.map(applied => applied ? applied.candidate.replace('candidate:', '') : null);
+}
+
+// A remote peer driven by hand, so messages can be sent in any order
+async function scriptedPeer(hub: InMemorySignalingHub, userId: string) {
+  const channel = hub.createChannel();
+  const received: SignalMessage[] = [];
+  channel.onMessage = (message) => received.push(message);
+  await channel.connect(CALL_ID, userId);
+  return { channel, received, send: (...messages: SignalMessage[]) => Promise.all(messages.map(m => channel.send(m))) };
+}
+
+describe('WebRTCService ICE candidate handling', () => {
+  let hub: InMemorySignalingHub;
+
+  beforeEach(() => {
+    hub = new InMemorySignalingHub();
+    FakePeerConnection.reset();
+    vi.stubGlobal('RTCPeerConnection', FakePeerConnection);
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: async () => fakeMediaStream } });
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  async function startReceiver(): Promise<FakePeerConnection> {
+    const service = new WebRTCService('receiver', hub.createChannel());
+    await service.negotiate(CALL_ID, 'voice', false);
+    await settle();
+    return FakePeerConnection.instances.at(-1)!;
+  }
+
+  async function startCaller(): Promise<FakePeerConnection> {
+    const service = new WebRTCService('caller', hub.createChannel());
+    await service.negotiate(CALL_ID, 'voice', true);
+    await settle();
+    return FakePeerConnection.instances.at(-1)!;
+  }
+
+  it('holds candidates sent before the offer until the offer is applied', async () => {
+    const caller = await scriptedPeer(hub, 'caller');
+    await caller.send(candidate('a'), candidate('b'), description('offer', 'remote1'));
+
+    const pc = await startReceiver();
+
+    expect(pc.rejectedCandidates).toEqual([]);
+    expect(pc.remoteDescription?.type).toBe('offer');
+    expect(appliedNames(pc)).toEqual(['a', 'b']);
+    expect(caller.received.some(message => message.type === 'answer')).toBe(true);
+  });
+
+  it('holds candidates that arrive live before the offer', async () => {
+    const caller = await scriptedPeer(hub, 'caller');
+    const pc = await startReceiver();
+
+    await caller.send(candidate('a'));
+    await settle();
+    expect(pc.appliedCandidates).toEqual([]);
+
+    await caller.send(description('offer', 'remote1'), candidate('b'));
+    await settle();
+
+    expect(pc.rejectedCandidates).toEqual([]);
+    expect(appliedNames(pc)).toEqual(['a', 'b']);
+  });
+
+  it('holds candidates the receiver sends between the offer and the answer', async () => {
+    const pc = await startCaller();
+    const receiver = await scriptedPeer(hub, 'receiver');
+    await settle();
+    expect(receiver.received[0]?.type).toBe('offer');
+
+    await receiver.send(candidate('a'), candidate('b'));
+    await settle();
+    expect(pc.appliedCandidates).toEqual([]);
+
+    await receiver.send(description('answer', 'remote1'));
+    await settle();
+
+    expect(pc.rejectedCandidates).toEqual([]);
+    expect(appliedNames(pc)).toEqual(['a', 'b']);
+  });
+
+  it('applies candidates that arrive after the answer straight away', async () => {
+    const pc = await startCaller();
+    const receiver = await scriptedPeer(hub, 'receiver');
+
+    await receiver.send(description('answer', 'remote1'));
+    await settle();
+    await receiver.send(candidate('a'));
+    await settle();
+    expect(appliedNames(pc)).toEqual(['a']);
+
+    await receiver.send(candidate('b'));
+    await settle();
+    expect(appliedNames(pc)).toEqual(['a', 'b']);
+  });
+
+  it('applies a redelivered candidate only once, whether buffered or not', async () => {
+    const caller = await scriptedPeer(hub, 'caller');
+    await caller.send(candidate('a'), candidate('a'), description('offer', 'remote1'));
+    const pc = await startReceiver();
+
+    await caller.send(candidate('a'), candidate('b'), candidate('b'));
+    await settle();
+
+    expect(appliedNames(pc)).toEqual(['a', 'b']);
+  });
+
+  it('applies end-of-candidates after the candidates that preceded it', async () => {
+    const caller = await scriptedPeer(hub, 'caller');
+    await caller.send(candidate('a'), { type: 'end-of-candidates' }, description('offer', 'remote1'));
+
+    const pc = await startReceiver();
+
+    expect(appliedNames(pc)).toEqual(['a', null]);
+  });
+
+  it('treats an empty candidate string as end-of-candidates', async () => {
+    const pc = await startCaller();
+    const receiver = await scriptedPeer(hub, 'receiver');
+
+    await receiver.send(description('answer', 'remote1'));
+    await settle();
+    await receiver.send(candidate('a'), {
+      type: 'ice-candidate',
+      candidate: { candidate: '', sdpMid: '0', sdpMLineIndex: 0 }
+    });
+    await settle();
+
+    expect(appliedNames(pc)).toEqual(['a', null]);
+  });
+
+  it('holds candidates for restarted ICE until the description carrying them, and drops stale ones', async () => {
+    const caller = await scriptedPeer(hub, 'caller');
+    await caller.send(description('offer', 'first'));
+    const pc = await startReceiver();
+
+    // A restart's candidates can overtake its offer
+    await caller.send(candidate('new', 'second'));
+    await settle();
+    expect(pc.appliedCandidates).toEqual([]);
+
+    await caller.send(description('offer', 'second'), candidate('late-old', 'first'));
+    await settle();
+
+    expect(ufragOf(pc.remoteDescription)).toBe('second');
+    expect(appliedNames(pc)).toEqual(['new']);
+  });
+
+  it('applies every candidate once the offer is in, whatever order they all arrive in', async () => {
+    for (const order of permutations([description('offer', 'remote1'), candidate('a'), candidate('b'), { type: 'end-of-candidates' } as SignalMessage])) {
+      hub = new InMemorySignalingHub();
+      const caller = await scriptedPeer(hub, 'caller');
+      const pc = await startReceiver();
+
+      for (const message of order) {
+        await caller.send(message);
+        await settle();
+      }
+
+      const arrangement = order.map(message => message.type).join(', ');
+      expect(pc.rejectedCandidates, arrangement).toEqual([]);
+      expect(pc.remoteDescription?.type, arrangement).toBe('offer');
+      expect(appliedNames(pc), arrangement).toEqual(order.map(expectedName).filter(name => name !== undefined));
+      expect(caller.received.some(message => message.type === 'answer'), arrangement).toBe(true);
+    }
+  });
+
+  it('applies every candidate once the answer is in, whatever order they all arrive in', async () => {
+    for (const order of permutations([description('answer', 'remote1'), candidate('a'), candidate('b'), { type: 'end-of-candidates' } as SignalMessage])) {
+      hub = new InMemorySignalingHub();
+      const pc = await startCaller();
+      const receiver = await scriptedPeer(hub, 'receiver');
+
+      for (const message of order) {
+        await receiver.send(message);
+        await settle();
+      }
+
+      const arrangement = order.map(message => message.type).join(', ');
+      expect(pc.rejectedCandidates, arrangement).toEqual([]);
+      expect(pc.signalingState, arrangement).toBe('stable');
+      expect(appliedNames(pc), arrangement).toEqual(order.map(expectedName).filter(name => name !== undefined));
+    }
+  });
+
+  it('connects two services through the hub whichever side gathers first', async () => {
+    const callerService = new WebRTCService('caller', hub.createChannel());
+    await callerService.negotiate(CALL_ID, 'video', true);
+    const callerPc = FakePeerConnection.instances.at(-1)!;
+
+    // Gathered before the receiver has even joined
+    callerPc.gatherCandidate({ candidate: 'candidate:caller-1', sdpMid: '0', sdpMLineIndex: 0 });
+
+    const receiverService = new WebRTCService('receiver', hub.createChannel());
+    await receiverService.negotiate(CALL_ID, 'video', false);
+    const receiverPc = FakePeerConnection.instances.at(-1)!;
+
+    // Gathered while the answer is still in flight
+    receiverPc.gatherCandidate({ candidate: 'candidate:receiver-1', sdpMid: '0', sdpMLineIndex: 0 });
+    receiverPc.gatherCandidate(null);
+    await settle();
+
+    callerPc.gatherCandidate({ candidate: 'candidate:caller-2', sdpMid: '0', sdpMLineIndex: 0 });
+    callerPc.gatherCandidate(null);
+    await settle();
+
+    expect(callerPc.signalingState).toBe('stable');
+    expect(receiverPc.signalingState).toBe('stable');
+    expect(ufragOf(callerPc.remoteDescription)).toBe(receiverPc.getUfrag());
+    expect(ufragOf(receiverPc.remoteDescription)).toBe(callerPc.getUfrag());
+    expect(callerPc.rejectedCandidates).toEqual([]);
+    expect(receiverPc.rejectedCandidates).toEqual([]);
+    expect(appliedNames(callerPc)).toEqual(['receiver-1', null]);
+    expect(appliedNames(receiverPc)).toEqual(['caller-1', 'caller-2', null]);
+  });
+});
+
+describe('WebRTCService hangup', () => {
+  let hub: InMemorySignalingHub;
+
+  beforeEach(() => {
+    hub = new InMemorySignalingHub();
+    FakePeerConnection.reset();
+    vi.stubGlobal('RTCPeerConnection', FakePeerConnection);
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: async () => fakeMediaStream } });
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // Call status updates have no Firestore to write to here
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  async function connectPair() {
+    const caller = new WebRTCService('caller', hub.createChannel());
+    await caller.negotiate(CALL_ID, 'voice', true);
+    const callerPc = FakePeerConnection.instances.at(-1)!;
+
+    const receiver = new WebRTCService('receiver', hub.createChannel());
+    await receiver.negotiate(CALL_ID, 'voice', false);
+    await settle();
+
+    return { caller, callerPc, receiver };
+  }
+
+  it('ends the call on the other side at once instead of reconnecting', async () => {
+    const { caller, callerPc, receiver } = await connectPair();
+    caller.setReconnectPolicy({ disconnectGraceMs: 0 });
+    const onCallEnded = vi.fn();
+    const onReconnecting = vi.fn();
+    caller.onCallEnded = onCallEnded;
+    caller.onReconnecting = onReconnecting;
+
+    await receiver.endCall();
+    await settle();
+
+    expect(onCallEnded).toHaveBeenCalledTimes(1);
+
+    // The connection dropping afterwards is expected, not something to recover from
+    callerPc.setConnectionState('disconnected');
+    await settle();
+    callerPc.setConnectionState('failed');
+    await settle();
+
+    expect(onReconnecting).not.toHaveBeenCalled();
+    expect(callerPc.signalingState).toBe('stable');
+  });
+
+  it('restarts ICE when the connection fails and hangs up if it never comes back', async () => {
+    const { caller, callerPc } = await connectPair();
+    caller.setReconnectPolicy({ disconnectGraceMs: 0, reconnectTimeoutMs: 20 });
+    const onCallEnded = vi.fn();
+    const onReconnecting = vi.fn();
+    caller.onCallEnded = onCallEnded;
+    caller.onReconnecting = onReconnecting;
+    const ufragBefore = callerPc.getUfrag();
+
+    callerPc.setConnectionState('failed');
+    await settle();
+
+    expect(onReconnecting).toHaveBeenCalledTimes(1);
+    expect(callerPc.getUfrag()).not.toBe(ufragBefore);
+    expect(ufragOf(callerPc.localDescription)).toBe(callerPc.getUfrag());
+    expect(onCallEnded).not.toHaveBeenCalled();
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(onCallEnded).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't echo a hangup back to the side that sent it", async () => {
+    const { caller, receiver } = await connectPair();
+    const onCallEnded = vi.fn();
+    receiver.onCallEnded = onCallEnded;
+    caller.onCallEnded = () => caller.endCall();
+
+    await receiver.endCall();
+    await settle();
+
+    expect(onCallEnded).not.toHaveBeenCalled();
+  });
+});
@@ -4,15 +4,18 @@ import {
   addDoc, 
   updateDoc, 
   deleteDoc, 
-  onSnapshot, 
-  query, 
-  where,
-  orderBy,
-  Timestamp,
-  DocumentData,
-  getDocs
+  getDoc,
+  setDoc,
+  Timestamp
 } from 'firebase/firestore';
 import { db } from '@/config/firebase';
+import { IceServerService } from '@/services/iceServerService';
+import { CallStatsMonitor, CallQualitySample, findSelectedCandidatePair } from '@/services/callStatsMonitor';
+import { AdaptiveBitrateController, isDataSaverEnabled } from '@/services/adaptiveBitrateController';
+import { VideoQualityLevel, DATA_SAVER_CAPTURE } from '@/config/videoQuality';
+import { MediaDeviceService } from '@/services/mediaDeviceService';
+import { SignalingChannel, SignalMessage, createSignalingChannel } from '@/services/signalingChannel';
+import { CallMessage, CALL_DATA_CHANNEL_LABEL, parseCallMessage } from '@/services/callMessages';
 
 export interface CallData {
   id: string;
@@ -22,19 +25,31 @@ export interface CallData {
   createdAt: Timestamp;
   endedAt?: Timestamp;
   callType: 'video' | 'voice';
-  offer?: RTCSessionDescriptionInit;
-  answer?: RTCSessionDescriptionInit;
 }
 
-export interface ICECandidateData {
-  candidate: string;
-  sdpMLineIndex: number | null;
-  sdpMid: string | null;
-  callId: string;
-  from: string;
-  timestamp: Timestamp;
+// Which route the media took: host (direct), srflx/prflx (through NAT via STUN) or relay (TURN)
+export interface ConnectionPathReport {
+  localCandidateType: string;
+  remoteCandidateType: string;
+  protocol: string;
+  // Transport to the TURN server, when relayed
+  relayProtocol: string | null;
+  relayOnly: boolean;
 }
 
+// How long to ride out a dropped connection. A brief `disconnected` often
+// recovers on its own; after the grace period we restart ICE, and the call
+// ends only if it hasn't come back within the reconnect timeout.
+export interface ReconnectPolicy {
+  disconnectGraceMs: number;
+  reconnectTimeoutMs: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  disconnectGraceMs: 3000,
+  reconnectTimeoutMs: 20000
+};
+
 export class WebRTCService {
   private peerConnection: RTCPeerConnection | null = null;
   private localStream: MediaStream | null = null;
@@ -42,42 +57,52 @@ export class WebRTCService {
   private callId: string | null = null;
   private userId: string;
   private isInitiator: boolean = false;
-  private callUnsubscribe: (() => void) | null = null;
-  private iceCandidatesUnsubscribe: (() => void) | null = null;
-
-  // WebRTC configuration with STUN servers
-  private readonly peerConfig: RTCConfiguration = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' },
-      { urls: 'stun:stun2.l.google.com:19302' },
-      { urls: 'stun:stun3.l.google.com:19302' },
-      { urls: 'stun:stun4.l.google.com:19302' }
-    ],
-    iceCandidatePoolSize: 10
-  };
-
-  constructor(userId: string) {
+  private signaling: SignalingChannel;
+  // Remote candidates can arrive before the remote description is applied;
+  // they are held here and flushed once it is. null marks end-of-candidates.
+  private pendingCandidates: (RTCIceCandidateInit | null)[] = [];
+  private hasRemoteDescription: boolean = false;
+  // Transports may redeliver a message, e.g. a Firestore snapshot replaying after a reconnect
+  private seenCandidates: Set<string> = new Set();
+  private reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY;
+  private hasConnected: boolean = false;
+  private isReconnecting: boolean = false;
+  private remoteHungUp: boolean = false;
+  private disconnectGraceTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private statsMonitor: CallStatsMonitor | null = null;
+  private statsListeners: Set<(sample: CallQualitySample) => void> = new Set();
+  private bitrateController: AdaptiveBitrateController | null = null;
+  private dataSaver: boolean = isDataSaverEnabled();
+  private facingMode: 'user' | 'environment' = 'user';
+  private dataChannel: RTCDataChannel | null = null;
+  private callMessageListeners: Set<(message: CallMessage) => void> = new Set();
+
+  // Offer/answer and ICE go through the signaling channel; the `calls`
+  // document only carries roles and status
+  constructor(userId: string, signaling: SignalingChannel = createSignalingChannel()) {
     this.userId = userId;
+    this.signaling = signaling;
+  }
+
+  setReconnectPolicy(policy: Partial<ReconnectPolicy>): void {
+    this.reconnectPolicy = { ...this.reconnectPolicy, ...policy };
   }
 
   // Initialize local media stream
   async initializeMedia(callType: 'video' | 'voice'): Promise<MediaStream> {
     try {
+      // Prefer the devices picked last time, falling back to defaults if they're gone
       const constraints: MediaStreamConstraints = {
-        video: callType === 'video' ? {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          frameRate: { ideal: 30 }
-        } : false,
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        }
+        video: callType === 'video'
+          ? this.getVideoConstraints(this.deviceConstraint(MediaDeviceService.getPreferredDevice('videoinput'), false))
+          : false,
+        audio: this.getAudioConstraints(this.deviceConstraint(MediaDeviceService.getPreferredDevice('audioinput'), false))
       };
 
       this.localStream = await navigator.mediaDevices.getUserMedia(constraints);
+      this.localStream.getTracks().forEach(track => this.watchLocalTrack(track));
+      this.facingMode = this.localStream.getVideoTracks()[0]?.getSettings().facingMode === 'environment' ? 'environment' : 'user';
       console.log('Local stream initialized:', this.localStream);
       return this.localStream;
     } catch (error: any) {
@@ -86,76 +111,197 @@ export class WebRTCService {
     }
   }
 
-  // Create a new call as initiator
-  async createCall(callType: 'video' | 'voice'): Promise<string> {
+  // Pin a device exactly when the user just picked it, or ideally when it was only remembered
+  private deviceConstraint(deviceId: string | null, exact: boolean): MediaTrackConstraints {
+    if (!deviceId) return {};
+    return { deviceId: exact ? { exact: deviceId } : { ideal: deviceId } };
+  }
+
+  private getVideoConstraints(source: MediaTrackConstraints = {}): MediaTrackConstraints {
+    // Data saver captures less to begin with; the bitrate controller handles the rest
+    const capture = this.dataSaver ? DATA_SAVER_CAPTURE : { width: 1280, height: 720, frameRate: 30 };
+
+    return {
+      width: { ideal: capture.width },
+      height: { ideal: capture.height },
+      frameRate: { ideal: capture.frameRate },
+      ...(source.deviceId || source.facingMode ? source : { facingMode: this.facingMode })
+    };
+  }
+
+  private getAudioConstraints(source: MediaTrackConstraints = {}): MediaTrackConstraints {
+    return {
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      ...source
+    };
+  }
+
+  // Use a specific camera for the rest of this call and future calls
+  async selectVideoInput(deviceId: string): Promise<void> {
+    const track = await this.replaceLocalTrack('video', this.getVideoConstraints(this.deviceConstraint(deviceId, true)));
+    this.facingMode = track.getSettings().facingMode === 'environment' ? 'environment' : 'user';
+    MediaDeviceService.setPreferredDevice('videoinput', deviceId);
+  }
+
+  async selectAudioInput(deviceId: string): Promise<void> {
+    await this.replaceLocalTrack('audio', this.getAudioConstraints(this.deviceConstraint(deviceId, true)));
+    MediaDeviceService.setPreferredDevice('audioinput', deviceId);
+  }
+
+  // Flip between front and back cameras. Desktops don't report a facing mode,
+  // so there we cycle through the cameras instead.
+  async switchCamera(): Promise<void> {
+    const nextFacingMode = this.facingMode === 'user' ? 'environment' : 'user';
+
     try {
-      console.log('Creating call as initiator');
-      
-      // Initialize media first
-      await this.initializeMedia(callType);
-      
-      // Create call document
-      const callDoc = await addDoc(collection(db, 'calls'), {
-        callerId: this.userId,
-        status: 'waiting',
-        createdAt: Timestamp.now(),
-        callType
-      });
+      const track = await this.replaceLocalTrack('video', this.getVideoConstraints({ facingMode: { exact: nextFacingMode } }));
+      this.facingMode = nextFacingMode;
+      MediaDeviceService.setPreferredDevice('videoinput', track.getSettings().deviceId ?? null);
+      return;
+    } catch (error) {
+      console.log('Facing mode switch unavailable, cycling cameras:', error);
+    }
 
-      this.callId = callDoc.id;
-      this.isInitiator = true;
+    const { videoInputs } = await MediaDeviceService.listDevices();
+    if (videoInputs.length < 2) {
+      throw new Error('No other camera available');
+    }
 
-      // Initialize peer connection
-      await this.initializePeerConnection();
-      
-      // Create offer
-      const offer = await this.peerConnection!.createOffer();
-      await this.peerConnection!.setLocalDescription(offer);
+    const currentDeviceId = this.localStream?.getVideoTracks()[0]?.getSettings().deviceId;
+    const currentIndex = videoInputs.findIndex(device => device.deviceId === currentDeviceId);
+    const nextDevice = videoInputs[(currentIndex + 1) % videoInputs.length];
+    await this.selectVideoInput(nextDevice.deviceId);
+  }
 
-      // Save offer to Firebase
-      await updateDoc(doc(db, 'calls', this.callId), {
-        offer: {
-          type: offer.type,
-          sdp: offer.sdp
-        }
-      });
+  // Swap a local track in place. replaceTrack keeps the same sender, so the
+  // call isn't renegotiated and the bitrate controller's settings still apply.
+  private async replaceLocalTrack(kind: 'audio' | 'video', constraints: MediaTrackConstraints): Promise<MediaStreamTrack> {
+    if (!this.localStream) {
+      throw new Error('No local media to switch');
+    }
+
+    const oldTrack = kind === 'audio' ? this.localStream.getAudioTracks()[0] : this.localStream.getVideoTracks()[0];
+    let newStream: MediaStream;
+
+    try {
+      newStream = await navigator.mediaDevices.getUserMedia({ [kind]: constraints });
+    } catch (error: unknown) {
+      // Many phones can't open a second camera while the first is running
+      const cameraBusy = error instanceof Error && error.name === 'NotReadableError';
+      if (kind !== 'video' || !oldTrack || !cameraBusy) throw error;
+      oldTrack.stop();
+      newStream = await navigator.mediaDevices.getUserMedia({ [kind]: constraints });
+    }
+
+    const newTrack = newStream.getTracks()[0];
+    // Keep mute and camera-off state across the swap
+    newTrack.enabled = oldTrack ? oldTrack.enabled : true;
+
+    const sender = this.peerConnection?.getSenders().find(candidate => candidate.track?.kind === kind);
+    await sender?.replaceTrack(newTrack);
 
-      console.log('Call created with offer:', this.callId);
+    if (oldTrack) {
+      this.localStream.removeTrack(oldTrack);
+      oldTrack.stop();
+    }
+    this.localStream.addTrack(newTrack);
+    this.watchLocalTrack(newTrack);
+
+    this.onLocalStreamChanged?.(this.localStream);
+    return newTrack;
+  }
+
+  // A track ends on its own when its device is unplugged or revoked; fall back
+  // to whatever default device is left
+  private watchLocalTrack(track: MediaStreamTrack): void {
+    track.onended = async () => {
+      if (!this.localStream?.getTracks().includes(track)) return;
+
+      const kind = track.kind as 'audio' | 'video';
+      const role = kind === 'audio' ? 'audioinput' : 'videoinput';
+      console.log(`Local ${kind} device disconnected`);
+
+      if (MediaDeviceService.getPreferredDevice(role) === track.getSettings().deviceId) {
+        MediaDeviceService.setPreferredDevice(role, null);
+      }
+
+      try {
+        await this.replaceLocalTrack(kind, kind === 'audio' ? this.getAudioConstraints() : this.getVideoConstraints());
+        this.onDeviceLost?.(kind, true);
+      } catch (error) {
+        console.error(`No replacement ${kind} device:`, error);
+        this.onDeviceLost?.(kind, false);
+      }
+    };
+  }
+
+  // Connect to a call created by the matcher. The call document is the single
+  // source of truth for roles: the caller sends the offer, the receiver answers.
+  async connectToCall(callId: string): Promise<void> {
+    const callSnap = await getDoc(doc(db, 'calls', callId));
+
+    if (!callSnap.exists()) {
+      throw new Error('Call not found');
+    }
+
+    const callData = { id: callSnap.id, ...callSnap.data() } as CallData;
+
+    if (callData.callerId === this.userId) {
+      await this.createCall(callData.callType, callId);
+    } else if (callData.receiverId === this.userId) {
+      await this.joinCall(callId, callData.callType);
+    } else {
+      throw new Error('User is not a participant in this call');
+    }
+  }
+
+  // Create a new call as initiator, or send the offer for an existing call document
+  async createCall(callType: 'video' | 'voice', existingCallId?: string): Promise<string> {
+    try {
+      console.log('Creating call as initiator');
       
-      // Listen for answer
-      this.listenForCallUpdates();
-      this.listenForICECandidates();
+      let callId = existingCallId;
+      if (!callId) {
+        // Create call document
+        const callDoc = await addDoc(collection(db, 'calls'), {
+          callerId: this.userId,
+          status: 'waiting',
+          createdAt: Timestamp.now(),
+          callType
+        });
+        callId = callDoc.id;
+      }
+
+      await this.negotiate(callId, callType, true);
+
+      console.log('Call created with offer:', callId);
 
-      return callDoc.id;
+      return callId;
     } catch (error: any) {
       console.error('Failed to create call:', error);
       throw new Error(`Failed to create call: ${error.message}`);
     }
   }
 
-  // Join an existing call as receiver
+  // Join an existing call as receiver. The offer may not have been sent yet,
+  // so the answer is sent from the signal handler once it arrives.
   async joinCall(callId: string, callType: 'video' | 'voice'): Promise<void> {
     try {
       console.log('Joining call as receiver:', callId);
-      
-      // Initialize media first
-      await this.initializeMedia(callType);
-      
-      this.callId = callId;
-      this.isInitiator = false;
 
-      // Get call data
       const callRef = doc(db, 'calls', callId);
-      const callSnap = await getDocs(query(collection(db, 'calls'), where('__name__', '==', callId)));
+      const callSnap = await getDoc(callRef);
       
-      if (callSnap.empty) {
+      if (!callSnap.exists()) {
         throw new Error('Call not found');
       }
 
-      const callData = { id: callSnap.docs[0].id, ...callSnap.docs[0].data() } as CallData;
-      
-      if (!callData.offer) {
-        throw new Error('No offer found in call');
+      const callData = { id: callSnap.id, ...callSnap.data() } as CallData;
+
+      if (callData.receiverId && callData.receiverId !== this.userId) {
+        throw new Error('Call belongs to another receiver');
       }
 
       // Update call with receiver info
@@ -164,44 +310,177 @@ export class WebRTCService {
         status: 'connecting'
       });
 
-      // Initialize peer connection
-      await this.initializePeerConnection();
+      await this.negotiate(callId, callType, false);
 
-      // Set remote description (offer)
-      await this.peerConnection!.setRemoteDescription(callData.offer);
+    } catch (error: any) {
+      console.error('Failed to join call:', error);
+      throw new Error(`Failed to join call: ${error.message}`);
+    }
+  }
 
-      // Create answer
-      const answer = await this.peerConnection!.createAnswer();
-      await this.peerConnection!.setLocalDescription(answer);
+  // Run the offer/answer and ICE exchange over the signaling channel. This never
+  // touches the call document, so it can be driven with an in-memory channel.
+  async negotiate(callId: string, callType: 'video' | 'voice', isInitiator: boolean): Promise<void> {
+    await this.initializeMedia(callType);
 
-      // Save answer to Firebase
-      await updateDoc(callRef, {
-        answer: {
-          type: answer.type,
-          sdp: answer.sdp
-        },
-        status: 'connecting'
+    this.callId = callId;
+    this.isInitiator = isInitiator;
+    this.pendingCandidates = [];
+    this.hasRemoteDescription = false;
+    this.seenCandidates.clear();
+    this.remoteHungUp = false;
+
+    await this.initializePeerConnection();
+
+    this.signaling.onMessage = (message) => {
+      this.handleSignal(message);
+    };
+    await this.signaling.connect(callId, this.userId);
+
+    if (isInitiator) {
+      const offer = await this.peerConnection!.createOffer();
+      await this.peerConnection!.setLocalDescription(offer);
+      await this.signaling.send({
+        type: 'offer',
+        description: { type: offer.type, sdp: offer.sdp }
       });
+    }
+  }
 
-      console.log('Answer created and saved');
-      
-      // Listen for updates
-      this.listenForCallUpdates();
-      this.listenForICECandidates();
+  // Apply a message from the other peer
+  private async handleSignal(message: SignalMessage): Promise<void> {
+    if (!this.peerConnection) return;
 
-    } catch (error: any) {
-      console.error('Failed to join call:', error);
-      throw new Error(`Failed to join call: ${error.message}`);
+    try {
+      switch (message.type) {
+        // Also handles the caller's ICE restart offers
+        case 'offer':
+          if (!this.isInitiator && this.peerConnection.signalingState === 'stable') {
+            console.log('Received offer:', message.description);
+            await this.answerOffer(message.description);
+          }
+          break;
+
+        case 'answer':
+          if (this.isInitiator && this.peerConnection.signalingState === 'have-local-offer') {
+            console.log('Received answer:', message.description);
+            await this.peerConnection.setRemoteDescription(message.description);
+            await this.onRemoteDescriptionSet();
+          }
+          break;
+
+        case 'ice-candidate':
+          console.log('Received ICE candidate:', message.candidate);
+          // Some browsers trickle an empty candidate string instead of null at the end
+          await this.addRemoteCandidate(message.candidate.candidate ? message.candidate : null);
+          break;
+
+        case 'end-of-candidates':
+          console.log('Remote peer finished gathering candidates');
+          await this.addRemoteCandidate(null);
+          break;
+
+        case 'ice-restart-request':
+          if (this.isInitiator) {
+            console.log('Remote peer requested an ICE restart');
+            await this.restartIce();
+          }
+          break;
+
+        case 'hangup':
+          console.log('Remote peer hung up');
+          this.handleRemoteHangup();
+          break;
+      }
+    } catch (error) {
+      console.error(`Failed to handle ${message.type} signal:`, error);
     }
   }
 
+  // Apply a remote candidate now, or hold it until the remote description is set.
+  // After an ICE restart, candidates for the new credentials can arrive before
+  // the offer or answer carrying them, so those are held too.
+  private async addRemoteCandidate(candidate: RTCIceCandidateInit | null): Promise<void> {
+    if (candidate) {
+      const key = [candidate.usernameFragment, candidate.sdpMid, candidate.sdpMLineIndex, candidate.candidate].join('|');
+      if (this.seenCandidates.has(key)) return;
+      this.seenCandidates.add(key);
+    }
+
+    if (!this.hasRemoteDescription || !this.matchesRemoteCredentials(candidate)) {
+      this.pendingCandidates.push(candidate);
+      return;
+    }
+
+    await this.applyRemoteCandidate(candidate);
+  }
+
+  private matchesRemoteCredentials(candidate: RTCIceCandidateInit | null): boolean {
+    if (!candidate?.usernameFragment) return true;
+
+    const sdp = this.peerConnection?.remoteDescription?.sdp ?? '';
+    return sdp.includes(`a=ice-ufrag:${candidate.usernameFragment}`);
+  }
+
+  private async applyRemoteCandidate(candidate: RTCIceCandidateInit | null): Promise<void> {
+    if (!this.peerConnection) return;
+
+    try {
+      if (candidate) {
+        await this.peerConnection.addIceCandidate(candidate);
+      } else {
+        // No argument signals end-of-candidates for the current generation
+        await this.peerConnection.addIceCandidate();
+      }
+    } catch (error) {
+      console.error('Failed to add ICE candidate:', error);
+    }
+  }
+
+  // Flush candidates that arrived before the remote description, in arrival order.
+  // Leftovers from before an ICE restart no longer apply and are dropped.
+  private async onRemoteDescriptionSet(): Promise<void> {
+    this.hasRemoteDescription = true;
+
+    const pending = this.pendingCandidates;
+    this.pendingCandidates = [];
+
+    for (const candidate of pending) {
+      if (this.matchesRemoteCredentials(candidate)) {
+        await this.applyRemoteCandidate(candidate);
+      }
+    }
+  }
+
+  // Answer the caller's offer
+  private async answerOffer(offer: RTCSessionDescriptionInit): Promise<void> {
+    if (!this.peerConnection) return;
+
+    // Set remote description (offer)
+    await this.peerConnection.setRemoteDescription(offer);
+    await this.onRemoteDescriptionSet();
+
+    // Create answer
+    const answer = await this.peerConnection.createAnswer();
+    await this.peerConnection.setLocalDescription(answer);
+
+    await this.signaling.send({
+      type: 'answer',
+      description: { type: answer.type, sdp: answer.sdp }
+    });
+
+    console.log('Answer created and sent');
+  }
+
   // Initialize peer connection
   private async initializePeerConnection(): Promise<void> {
     if (this.peerConnection) {
       this.peerConnection.close();
     }
 
-    this.peerConnection = new RTCPeerConnection(this.peerConfig);
+    // STUN plus short-lived TURN credentials, relay-only in test mode
+    const peerConfig = await IceServerService.getRtcConfiguration();
+    this.peerConnection = new RTCPeerConnection(peerConfig);
     
     // Add local stream tracks
     if (this.localStream) {
@@ -210,6 +489,16 @@ export class WebRTCService {
       });
     }
 
+    // The caller opens the in-call data channel so it's part of the first offer
+    if (this.isInitiator) {
+      this.attachDataChannel(this.peerConnection.createDataChannel(CALL_DATA_CHANNEL_LABEL, { ordered: true }));
+    }
+    this.peerConnection.ondatachannel = (event) => {
+      if (event.channel.label === CALL_DATA_CHANNEL_LABEL) {
+        this.attachDataChannel(event.channel);
+      }
+    };
+
     // Handle remote stream
     this.peerConnection.ontrack = (event) => {
       console.log('Received remote track:', event);
@@ -219,9 +508,16 @@ export class WebRTCService {
 
     // Handle ICE candidates
     this.peerConnection.onicecandidate = (event) => {
-      if (event.candidate && this.callId) {
+      if (!this.callId) return;
+
+      if (event.candidate) {
         console.log('New ICE candidate:', event.candidate);
         this.sendICECandidate(event.candidate);
+      } else {
+        // A null candidate means local gathering is complete
+        this.signaling.send({ type: 'end-of-candidates' }).catch((error) => {
+          console.error('Failed to send end-of-candidates:', error);
+        });
       }
     };
 
@@ -231,10 +527,11 @@ export class WebRTCService {
       console.log('Connection state changed:', state);
       
       if (state === 'connected') {
-        this.onConnectionEstablished?.();
-        this.updateCallStatus('connected');
-      } else if (state === 'disconnected' || state === 'failed') {
-        this.onCallEnded?.();
+        this.handleConnected();
+      } else if (state === 'disconnected') {
+        this.handleDisconnected();
+      } else if (state === 'failed') {
+        this.beginReconnect();
       }
     };
 
@@ -242,87 +539,258 @@ export class WebRTCService {
     this.peerConnection.oniceconnectionstatechange = () => {
       const state = this.peerConnection?.iceConnectionState;
       console.log('ICE connection state changed:', state);
-      
-      if (state === 'disconnected' || state === 'failed') {
-        this.onError?.('Connection lost');
-      }
     };
 
     console.log('Peer connection initialized');
   }
 
-  // Listen for call updates (answer from receiver)
-  private listenForCallUpdates(): void {
-    if (!this.callId) return;
+  private handleConnected(): void {
+    this.clearReconnectTimers();
+
+    if (!this.hasConnected) {
+      this.hasConnected = true;
+      this.onConnectionEstablished?.();
+      this.updateCallStatus('connected');
+      this.reportConnectionPath();
+      this.startStatsMonitor();
+    } else if (this.isReconnecting) {
+      console.log('Connection restored');
+      this.isReconnecting = false;
+      this.onReconnected?.();
+      // The restart may have picked a different route
+      this.reportConnectionPath();
+    }
+  }
 
-    const callRef = doc(db, 'calls', this.callId);
-    
-    this.callUnsubscribe = onSnapshot(callRef, async (docSnap) => {
-      if (docSnap.exists()) {
-        const callData = { id: docSnap.id, ...docSnap.data() } as CallData;
-        
-        // If we're the initiator and received an answer
-        if (this.isInitiator && callData.answer && this.peerConnection) {
-          console.log('Received answer:', callData.answer);
-          try {
-            await this.peerConnection.setRemoteDescription(callData.answer);
-          } catch (error) {
-            console.error('Failed to set remote description:', error);
-          }
-        }
+  // Find the candidate pair ICE settled on
+  async getConnectionPath(): Promise<ConnectionPathReport | null> {
+    if (!this.peerConnection) return null;
+
+    const stats = await this.peerConnection.getStats();
+    const selectedPair = findSelectedCandidatePair(stats);
+
+    if (!selectedPair) return null;
+
+    const localCandidate = stats.get(selectedPair.localCandidateId);
+    const remoteCandidate = stats.get(selectedPair.remoteCandidateId);
+
+    return {
+      localCandidateType: localCandidate?.candidateType ?? 'unknown',
+      remoteCandidateType: remoteCandidate?.candidateType ?? 'unknown',
+      protocol: localCandidate?.protocol ?? 'unknown',
+      relayProtocol: localCandidate?.relayProtocol ?? null,
+      relayOnly: IceServerService.isRelayOnly()
+    };
+  }
+
+  private attachDataChannel(channel: RTCDataChannel): void {
+    this.dataChannel = channel;
+
+    channel.onopen = () => {
+      console.log('Call data channel open');
+    };
+    channel.onmessage = (event) => {
+      const message = parseCallMessage(event.data);
+      if (!message) {
+        console.warn('Ignoring unknown call message:', event.data);
+        return;
       }
-    });
+      this.callMessageListeners.forEach(listener => listener(message));
+    };
+    channel.onclose = () => {
+      console.log('Call data channel closed');
+    };
   }
 
-  // Listen for ICE candidates
-  private listenForICECandidates(): void {
-    if (!this.callId) return;
+  // Returns false when the data channel isn't open yet, or any more
+  sendCallMessage(message: CallMessage): boolean {
+    if (this.dataChannel?.readyState !== 'open') return false;
 
-    const candidatesQuery = query(
-      collection(db, 'iceCandidates'),
-      where('callId', '==', this.callId),
-      where('from', '!=', this.userId),
-      orderBy('timestamp', 'asc')
-    );
-
-    this.iceCandidatesUnsubscribe = onSnapshot(candidatesQuery, (snapshot) => {
-      snapshot.docChanges().forEach(async (change) => {
-        if (change.type === 'added') {
-          const candidateData = change.doc.data() as ICECandidateData;
-          console.log('Received ICE candidate:', candidateData);
-          
-          if (this.peerConnection && this.peerConnection.remoteDescription) {
-            try {
-              await this.peerConnection.addIceCandidate({
-                candidate: candidateData.candidate,
-                sdpMLineIndex: candidateData.sdpMLineIndex,
-                sdpMid: candidateData.sdpMid
-              });
-              
-              // Clean up processed candidate
-              await deleteDoc(change.doc.ref);
-            } catch (error) {
-              console.error('Failed to add ICE candidate:', error);
-            }
-          }
-        }
-      });
-    });
+    try {
+      this.dataChannel.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.error('Failed to send call message:', error);
+      return false;
+    }
   }
 
-  // Send ICE candidate through Firebase
-  private async sendICECandidate(candidate: RTCIceCandidate): Promise<void> {
+  // Messages from the other peer; returns an unsubscribe function
+  subscribeToCallMessages(listener: (message: CallMessage) => void): () => void {
+    this.callMessageListeners.add(listener);
+    return () => {
+      this.callMessageListeners.delete(listener);
+    };
+  }
+
+  // Quality samples for the current call; returns an unsubscribe function
+  subscribeToStats(listener: (sample: CallQualitySample) => void): () => void {
+    this.statsListeners.add(listener);
+    return () => {
+      this.statsListeners.delete(listener);
+    };
+  }
+
+  private startStatsMonitor(): void {
+    if (!this.peerConnection || this.statsMonitor) return;
+
+    this.startBitrateController();
+
+    this.statsMonitor = new CallStatsMonitor(this.peerConnection);
+    this.statsMonitor.onSample = (sample) => {
+      this.bitrateController?.handleSample(sample);
+      this.statsListeners.forEach(listener => listener(sample));
+    };
+    this.statsMonitor.start();
+  }
+
+  // Adapt outgoing video to the link; voice calls have nothing to adapt
+  private startBitrateController(): void {
+    const videoSender = this.peerConnection?.getSenders().find(sender => sender.track?.kind === 'video');
+    if (!videoSender) return;
+
+    this.bitrateController = new AdaptiveBitrateController(videoSender, this.dataSaver);
+    this.bitrateController.onLevelChange = (level) => {
+      this.onVideoQualityChange?.(level);
+    };
+    this.bitrateController.start();
+  }
+
+  // Cap video quality for metered connections; applies to the live call too
+  setDataSaver(enabled: boolean): void {
+    this.dataSaver = enabled;
+    this.bitrateController?.setDataSaver(enabled);
+  }
+
+  getVideoQuality(): VideoQualityLevel | null {
+    return this.bitrateController?.getLevel() ?? null;
+  }
+
+  // Stop sampling and store the call's quality summary alongside its connection path
+  private async reportCallSummary(): Promise<void> {
+    const monitor = this.statsMonitor;
+    this.statsMonitor = null;
+    if (!monitor || !this.callId) return;
+
+    monitor.stop();
+
+    try {
+      await setDoc(doc(db, 'callReports', `${this.callId}_${this.userId}`), {
+        callId: this.callId,
+        userId: this.userId,
+        summary: monitor.getSummary(),
+        endedAt: Timestamp.now()
+      }, { merge: true });
+    } catch (error) {
+      console.error('Failed to report call summary:', error);
+    }
+  }
+
+  // Record the route this call used, per participant, in callReports
+  private async reportConnectionPath(): Promise<void> {
     if (!this.callId) return;
 
     try {
-      await addDoc(collection(db, 'iceCandidates'), {
-        candidate: candidate.candidate,
-        sdpMLineIndex: candidate.sdpMLineIndex,
-        sdpMid: candidate.sdpMid,
+      const path = await this.getConnectionPath();
+      if (!path) return;
+
+      console.log('Connection path:', path);
+      this.onConnectionPath?.(path);
+
+      await setDoc(doc(db, 'callReports', `${this.callId}_${this.userId}`), {
         callId: this.callId,
-        from: this.userId,
-        timestamp: Timestamp.now()
-      });
+        userId: this.userId,
+        connectionPath: path,
+        reportedAt: Timestamp.now()
+      }, { merge: true });
+    } catch (error) {
+      console.error('Failed to report connection path:', error);
+    }
+  }
+
+  // Give a brief network blip the chance to recover by itself
+  private handleDisconnected(): void {
+    if (this.isReconnecting || this.disconnectGraceTimer) return;
+
+    this.disconnectGraceTimer = setTimeout(() => {
+      this.disconnectGraceTimer = null;
+      if (this.peerConnection?.connectionState !== 'connected') {
+        this.beginReconnect();
+      }
+    }, this.reconnectPolicy.disconnectGraceMs);
+  }
+
+  // A deliberate hangup isn't a dropped connection: end now rather than
+  // waiting out the reconnect timers
+  private handleRemoteHangup(): void {
+    if (this.remoteHungUp) return;
+
+    this.remoteHungUp = true;
+    this.clearReconnectTimers();
+    this.isReconnecting = false;
+    this.onCallEnded?.();
+  }
+
+  private beginReconnect(): void {
+    if (this.remoteHungUp) return;
+
+    if (this.disconnectGraceTimer) {
+      clearTimeout(this.disconnectGraceTimer);
+      this.disconnectGraceTimer = null;
+    }
+
+    if (!this.isReconnecting) {
+      console.log('Connection lost, reconnecting');
+      this.isReconnecting = true;
+      this.onReconnecting?.();
+
+      this.reconnectTimer = setTimeout(() => {
+        console.log('Reconnect timed out, ending call');
+        this.reconnectTimer = null;
+        this.onCallEnded?.();
+      }, this.reconnectPolicy.reconnectTimeoutMs);
+    }
+
+    this.restartIce();
+  }
+
+  // The caller renegotiates with fresh ICE credentials; the receiver asks it to
+  private async restartIce(): Promise<void> {
+    if (!this.peerConnection) return;
+
+    try {
+      if (this.isInitiator) {
+        this.peerConnection.restartIce();
+        const offer = await this.peerConnection.createOffer({ iceRestart: true });
+        await this.peerConnection.setLocalDescription(offer);
+        await this.signaling.send({
+          type: 'offer',
+          description: { type: offer.type, sdp: offer.sdp }
+        });
+      } else {
+        await this.signaling.send({ type: 'ice-restart-request' });
+      }
+    } catch (error) {
+      console.error('Failed to restart ICE:', error);
+    }
+  }
+
+  private clearReconnectTimers(): void {
+    if (this.disconnectGraceTimer) {
+      clearTimeout(this.disconnectGraceTimer);
+      this.disconnectGraceTimer = null;
+    }
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  // Send ICE candidate to the other peer
+  private async sendICECandidate(candidate: RTCIceCandidate): Promise<void> {
+    try {
+      await this.signaling.send({ type: 'ice-candidate', candidate: candidate.toJSON() });
     } catch (error) {
       console.error('Failed to send ICE candidate:', error);
     }
@@ -350,7 +818,28 @@ export class WebRTCService {
   async endCall(): Promise<void> {
     try {
       console.log('Ending call');
+
+      // Tell the partner first, while the channel is still open, so they end
+      // the call too instead of trying to reconnect
+      if (this.callId && !this.remoteHungUp) {
+        await this.signaling.send({ type: 'hangup' }).catch((error) => {
+          console.error('Failed to send hangup:', error);
+        });
+      }
+
+      this.clearReconnectTimers();
+      this.isReconnecting = false;
+      this.hasConnected = false;
+      this.bitrateController = null;
+
+      // Summarize call quality while the call ID is still known
+      await this.reportCallSummary();
       
+      if (this.dataChannel) {
+        this.dataChannel.close();
+        this.dataChannel = null;
+      }
+
       // Close peer connection
       if (this.peerConnection) {
         this.peerConnection.close();
@@ -368,16 +857,9 @@ export class WebRTCService {
       // Update call status
       await this.updateCallStatus('ended');
 
-      // Clean up listeners
-      if (this.callUnsubscribe) {
-        this.callUnsubscribe();
-        this.callUnsubscribe = null;
-      }
-
-      if (this.iceCandidatesUnsubscribe) {
-        this.iceCandidatesUnsubscribe();
-        this.iceCandidatesUnsubscribe = null;
-      }
+      // Stop signaling and discard this call's messages
+      this.signaling.onMessage = undefined;
+      await this.signaling.close();
 
       // Clean up call data
       if (this.callId) {
@@ -387,6 +869,10 @@ export class WebRTCService {
 
       this.remoteStream = null;
       this.isInitiator = false;
+      this.pendingCandidates = [];
+      this.hasRemoteDescription = false;
+      this.seenCandidates.clear();
+      this.remoteHungUp = false;
       
       console.log('Call ended successfully');
     } catch (error: any) {
@@ -399,16 +885,6 @@ export class WebRTCService {
     try {
       // Delete call document
       await deleteDoc(doc(db, 'calls', callId));
-
-      // Delete associated ICE candidates
-      const candidatesQuery = query(
-        collection(db, 'iceCandidates'),
-        where('callId', '==', callId)
-      );
-
-      const candidatesSnapshot = await getDocs(candidatesQuery);
-      const deletePromises = candidatesSnapshot.docs.map(doc => deleteDoc(doc.ref));
-      await Promise.all(deletePromises);
       
       console.log('Call data cleaned up');
     } catch (error: any) {
@@ -465,6 +941,13 @@ export class WebRTCService {
   // Event handlers (to be set by components)
   onRemoteStream?: (stream: MediaStream) => void;
   onConnectionEstablished?: () => void;
+  onReconnecting?: () => void;
+  onReconnected?: () => void;
+  onConnectionPath?: (path: ConnectionPathReport) => void;
+  onVideoQualityChange?: (level: VideoQualityLevel) => void;
+  onLocalStreamChanged?: (stream: MediaStream) => void;
+  // recovered is false when no other device of that kind could be opened
+  onDeviceLost?: (kind: 'audio' | 'video', recovered: boolean) => void;
   onCallEnded?: () => void;
   onError?: (error: string) => void;
 }
\ No newline at end of file
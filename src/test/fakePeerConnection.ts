@@ -0,0 +1,114 @@
+// Just enough of RTCPeerConnection for WebRTCService to negotiate against.
+// It records what's applied to it and, like browsers, refuses candidates
+// before a remote description is set.
+let nextUfrag = 1;
+
+function fakeSdp(ufrag: string): string {
+  return `v=0\r\na=ice-ufrag:${ufrag}\r\na=ice-pwd:secret\r\n`;
+}
+
+export function ufragOf(description: RTCSessionDescriptionInit | null): string | null {
+  return description?.sdp?.match(/a=ice-ufrag:(\S+)/)?.[1] ?? null;
+}
+
+export class FakePeerConnection {
+  static instances: FakePeerConnection[] = [];
+
+  static reset(): void {
+    FakePeerConnection.instances = [];
+  }
+
+  signalingState: RTCSignalingState = 'stable';
+  connectionState: RTCPeerConnectionState = 'new';
+  iceConnectionState: RTCIceConnectionState = 'new';
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  // null is end-of-candidates
+  appliedCandidates: (RTCIceCandidateInit | null)[] = [];
+  // Candidates passed before there was a remote description to apply them to
+  rejectedCandidates: (RTCIceCandidateInit | null)[] = [];
+
+  onicecandidate: ((event: { candidate: { toJSON(): RTCIceCandidateInit } | null }) => void) | null = null;
+  ontrack: ((event: RTCTrackEvent) => void) | null = null;
+  ondatachannel: ((event: RTCDataChannelEvent) => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+  oniceconnectionstatechange: (() => void) | null = null;
+
+  private ufrag = `local${nextUfrag++}`;
+
+  constructor(public config?: RTCConfiguration) {
+    FakePeerConnection.instances.push(this);
+  }
+
+  getUfrag(): string {
+    return this.ufrag;
+  }
+
+  addTrack(): RTCRtpSender {
+    return {} as RTCRtpSender;
+  }
+
+  getSenders(): RTCRtpSender[] {
+    return [];
+  }
+
+  createDataChannel(label: string): RTCDataChannel {
+    return { label, readyState: 'connecting', close() {}, send() {} } as unknown as RTCDataChannel;
+  }
+
+  async createOffer(options?: RTCOfferOptions): Promise<RTCSessionDescriptionInit> {
+    if (options?.iceRestart) {
+      this.ufrag = `local${nextUfrag++}`;
+    }
+    return { type: 'offer', sdp: fakeSdp(this.ufrag) };
+  }
+
+  async createAnswer(): Promise<RTCSessionDescriptionInit> {
+    return { type: 'answer', sdp: fakeSdp(this.ufrag) };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.localDescription = description;
+    this.signalingState = description.type === 'offer' ? 'have-local-offer' : 'stable';
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.remoteDescription = description;
+    this.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+  }
+
+  async addIceCandidate(candidate?: RTCIceCandidateInit): Promise<void> {
+    if (!this.remoteDescription) {
+      this.rejectedCandidates.push(candidate ?? null);
+      throw new Error('InvalidStateError: no remote description');
+    }
+    this.appliedCandidates.push(candidate ?? null);
+  }
+
+  restartIce(): void {}
+
+  async getStats(): Promise<RTCStatsReport> {
+    return new Map() as unknown as RTCStatsReport;
+  }
+
+  close(): void {
+    this.signalingState = 'closed';
+  }
+
+  // Test helpers
+
+  gatherCandidate(candidate: RTCIceCandidateInit | null): void {
+    this.onicecandidate?.({ candidate: candidate ? { toJSON: () => candidate } : null });
+  }
+
+  setConnectionState(state: RTCPeerConnectionState): void {
+    this.connectionState = state;
+    this.onconnectionstatechange?.();
+  }
+}
+
+export const fakeMediaStream = {
+  getTracks: () => [],
+  getAudioTracks: () => [],
+  getVideoTracks: () => []
+} as unknown as MediaStream;
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  acceptsGender,
+  getSharedInterests,
+  rankCandidates,
+  scoreCandidate,
+  sharesLanguage,
+  ScorableCandidate,
+  MAX_WAIT_SCORE,
+  PREMIUM_PRIORITY,
+  SAME_REGION_BONUS,
+  SHARED_INTEREST_WEIGHT,
+  SHARED_LANGUAGE_BONUS
+} from '@/utils/matchScoring';
+
+const NOW = 1_000_000;
+
+function candidate(overrides: Partial<ScorableCandidate> = {}): ScorableCandidate {
+  return { isPremium: false, waitingSince: NOW, ...overrides };
+}
+
+describe('getSharedInterests', () => {
+  it('matches case-insensitively and ignores surrounding spaces', () => {
+    expect(getSharedInterests(['Music', ' hiking', 'chess'], ['music ', 'Hiking', 'films'])).toEqual(['Music', ' hiking']);
+  });
+
+  it('returns nothing when either side has no interests', () => {
+    expect(getSharedInterests([], ['music'])).toEqual([]);
+    expect(getSharedInterests(['music'], undefined)).toEqual([]);
+  });
+});
+
+describe('sharesLanguage', () => {
+  it('requires a common language when both sides list some', () => {
+    expect(sharesLanguage(['Hindi', 'English'], ['english'])).toBe(true);
+    expect(sharesLanguage(['Hindi'], ['Tamil'])).toBe(false);
+  });
+
+  it('treats someone who listed no language as compatible', () => {
+    expect(sharesLanguage([], ['Tamil'])).toBe(true);
+    expect(sharesLanguage(['Hindi'], undefined)).toBe(true);
+  });
+});
+
+describe('acceptsGender', () => {
+  it('lets free users match anyone whatever their stored preference', () => {
+    expect(acceptsGender('women', false, 'male')).toBe(true);
+    expect(acceptsGender('men', false, 'other')).toBe(true);
+  });
+
+  it('holds premium users to their preference', () => {
+    expect(acceptsGender('men', true, 'male')).toBe(true);
+    expect(acceptsGender('men', true, 'female')).toBe(false);
+    expect(acceptsGender('women', true, 'female')).toBe(true);
+    expect(acceptsGender('women', true, 'other')).toBe(false);
+    expect(acceptsGender('anyone', true, 'other')).toBe(true);
+  });
+});
+
+describe('scoreCandidate', () => {
+  it('adds up interests, language, region, waiting time and premium priority', () => {
+    const score = scoreCandidate(
+      { interests: ['music', 'chess'], languages: ['Hindi'], region: 'Kerala' },
+      candidate({
+        interests: ['Chess', 'music'],
+        languages: ['hindi'],
+        region: ' kerala',
+        isPremium: true,
+        waitingSince: NOW - 10_000
+      }),
+      NOW
+    );
+
+    expect(score).toBe(2 * SHARED_INTEREST_WEIGHT + SHARED_LANGUAGE_BONUS + SAME_REGION_BONUS + 5 + PREMIUM_PRIORITY);
+  });
+
+  it("doesn't reward an unlisted language or region", () => {
+    expect(scoreCandidate({ languages: [], region: undefined }, candidate({ languages: ['Hindi'] }), NOW)).toBe(0);
+  });
+
+  it('caps the waiting bonus', () => {
+    expect(scoreCandidate({}, candidate({ waitingSince: NOW - 3_600_000 }), NOW)).toBe(MAX_WAIT_SCORE);
+  });
+});
+
+describe('rankCandidates', () => {
+  const user = { interests: ['music'], languages: ['Hindi'] };
+
+  it('puts the best scored candidate first', () => {
+    const ranked = rankCandidates(user, [
+      { id: 'stranger' },
+      { id: 'same-language', languages: ['Hindi'] },
+      { id: 'same-interest', interests: ['music'] }
+    ], ({ id, ...rest }) => candidate(rest), NOW);
+
+    expect(ranked.map(({ id }) => id)).toEqual(['same-language', 'same-interest', 'stranger']);
+  });
+
+  it('keeps the original order between equal scores', () => {
+    const ranked = rankCandidates(user, ['first', 'second', 'third'], () => candidate(), NOW);
+
+    expect(ranked).toEqual(['first', 'second', 'third']);
+  });
+
+  it("doesn't reorder the array it was given", () => {
+    const candidates = ['plain', 'premium'];
+    rankCandidates(user, candidates, name => candidate({ isPremium: name === 'premium' }), NOW);
+
+    expect(candidates).toEqual(['plain', 'premium']);
+  });
+});
@@ -0,0 +1,101 @@
+// Pure match scoring shared by MatchingService and CallMatchingService.
+// Higher scores are better matches; no Firebase or React dependencies.
+
+// What we know about the person looking for a match
+export interface ScoringProfile {
+  interests?: string[];
+  languages?: string[];
+  region?: string;
+}
+
+export interface ScorableCandidate extends ScoringProfile {
+  isPremium: boolean;
+  // When the candidate started waiting, in milliseconds since epoch
+  waitingSince: number;
+}
+
+// Each shared interest is worth this many points
+export const SHARED_INTEREST_WEIGHT = 10;
+// A shared spoken language outweighs a few shared interests
+export const SHARED_LANGUAGE_BONUS = 40;
+// Same state/region is only a soft nudge
+export const SAME_REGION_BONUS = 5;
+// Points per second a candidate has been waiting, capped so old requests don't swamp interests
+export const WAIT_WEIGHT_PER_SECOND = 0.5;
+export const MAX_WAIT_SCORE = 30;
+// Premium candidates get priority in the queue
+export const PREMIUM_PRIORITY = 15;
+
+// Interests and languages are free text; compare them case-insensitively
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function intersect(mine: string[] = [], theirs: string[] = []): string[] {
+  const theirSet = new Set(theirs.map(normalize));
+  return mine.filter(value => theirSet.has(normalize(value)));
+}
+
+export function getSharedInterests(mine: string[] = [], theirs: string[] = []): string[] {
+  return intersect(mine, theirs);
+}
+
+// People who haven't listed any language are treated as compatible with everyone
+export function sharesLanguage(mine: string[] = [], theirs: string[] = []): boolean {
+  if (mine.length === 0 || theirs.length === 0) return true;
+  return intersect(mine, theirs).length > 0;
+}
+
+// Gender preference is a premium filter; free users accept anyone
+export function acceptsGender(
+  preference: 'anyone' | 'men' | 'women',
+  isPremium: boolean,
+  gender: 'male' | 'female' | 'other'
+): boolean {
+  if (!isPremium) return true;
+
+  switch (preference) {
+    case 'men':
+      return gender === 'male';
+    case 'women':
+      return gender === 'female';
+    case 'anyone':
+    default:
+      return true;
+  }
+}
+
+export function scoreCandidate(
+  user: ScoringProfile,
+  candidate: ScorableCandidate,
+  now: number = Date.now()
+): number {
+  const sharedScore = getSharedInterests(user.interests, candidate.interests).length * SHARED_INTEREST_WEIGHT;
+  const hasCommonLanguage = intersect(user.languages, candidate.languages).length > 0;
+  const languageScore = hasCommonLanguage ? SHARED_LANGUAGE_BONUS : 0;
+  const sameRegion = !!user.region && !!candidate.region && normalize(user.region) === normalize(candidate.region);
+  const regionScore = sameRegion ? SAME_REGION_BONUS : 0;
+  const waitSeconds = Math.max(0, now - candidate.waitingSince) / 1000;
+  const waitScore = Math.min(MAX_WAIT_SCORE, waitSeconds * WAIT_WEIGHT_PER_SECOND);
+  const premiumScore = candidate.isPremium ? PREMIUM_PRIORITY : 0;
+
+  return sharedScore + languageScore + regionScore + waitScore + premiumScore;
+}
+
+// Sort candidates best first. Ties keep their original order, so callers that
+// pass candidates oldest first still get first-come-first-served among equals.
+export function rankCandidates<T>(
+  user: ScoringProfile,
+  candidates: T[],
+  toScorable: (candidate: T) => ScorableCandidate,
+  now: number = Date.now()
+): T[] {
+  return candidates
+    .map((candidate, index) => ({
+      candidate,
+      index,
+      score: scoreCandidate(user, toScorable(candidate), now)
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
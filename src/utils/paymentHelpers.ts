@@ -1,4 +1,4 @@
-import { COIN_PACKAGES, PREMIUM_PLANS, UNLIMITED_CALLS_PLAN } from '@/config/payments';
+import { CatalogProduct } from '@/services/paymentService';
 
 // Helper functions for payment-related calculations and formatting
 
@@ -15,36 +15,24 @@ export function calculateDiscount(originalPrice: number, currentPrice: number):
   return Math.round(((originalPrice - currentPrice) / originalPrice) * 100);
 }
 
-export function getCoinPackageDetails(packageType: keyof typeof COIN_PACKAGES) {
-  const pack = COIN_PACKAGES[packageType];
-  if (!pack) return null;
-
+export function getProductDetails(product: CatalogProduct) {
   return {
-    ...pack,
-    formattedPrice: formatCurrency(pack.price),
-    formattedOriginalPrice: formatCurrency(pack.originalPrice),
-    discount: calculateDiscount(pack.originalPrice, pack.price),
-    bonusCoins: packageType === 'medium' ? 20 : packageType === 'large' ? 100 : 0
+    ...product,
+    formattedPrice: formatCurrency(product.price, product.currency),
+    formattedOriginalPrice: product.originalPrice ? formatCurrency(product.originalPrice, product.currency) : null,
+    discount: product.originalPrice ? calculateDiscount(product.originalPrice, product.price) : 0
   };
 }
 
-export function getPremiumPlanDetails(planType: keyof typeof PREMIUM_PLANS) {
-  const plan = PREMIUM_PLANS[planType];
-  if (!plan) return null;
+const RENEWAL_PERIODS = { daily: 'day', weekly: 'week', monthly: 'month' };
 
-  return {
-    ...plan,
-    formattedPrice: formatCurrency(plan.price),
-    formattedOriginalPrice: formatCurrency(plan.originalPrice),
-    discount: calculateDiscount(plan.originalPrice, plan.price)
-  };
-}
+// e.g. "Renews every week" for a recurring product, null for a one-off purchase
+export function getRenewalLabel(product: CatalogProduct): string | null {
+  if (!product.recurring) return null;
 
-export function getUnlimitedCallsDetails() {
-  return {
-    ...UNLIMITED_CALLS_PLAN,
-    formattedPrice: formatCurrency(UNLIMITED_CALLS_PLAN.price)
-  };
+  const { period, interval } = product.recurring;
+  const unit = RENEWAL_PERIODS[period];
+  return interval === 1 ? `Renews every ${unit}` : `Renews every ${interval} ${unit}s`;
 }
 
 // Validate payment amount
@@ -53,21 +41,16 @@ export function validatePaymentAmount(amount: number): boolean {
 }
 
 // Generate order description
-export function generateOrderDescription(
-  type: 'coins' | 'premium' | 'unlimited_calls',
-  packageId: string
-): string {
-  switch (type) {
+export function generateOrderDescription(product: CatalogProduct): string {
+  switch (product.type) {
     case 'coins':
-      const coinPack = getCoinPackageDetails(packageId as keyof typeof COIN_PACKAGES);
-      return coinPack ? `${coinPack.coins} Coins Package` : 'Coin Package';
+      return `${product.coins} Coins Package`;
     
     case 'premium':
-      const premiumPlan = getPremiumPlanDetails(packageId as keyof typeof PREMIUM_PLANS);
-      return premiumPlan ? `Premium Subscription - ${premiumPlan.duration}` : 'Premium Subscription';
+      return `Premium Subscription - ${product.duration}`;
     
     case 'unlimited_calls':
-      return `Unlimited Voice Calls - ${UNLIMITED_CALLS_PLAN.duration}`;
+      return `Unlimited Voice Calls - ${product.duration}`;
     
     default:
       return 'AjnabiCam Purchase';
@@ -75,29 +58,24 @@ export function generateOrderDescription(
 }
 
 // Payment success messages
-export function getSuccessMessage(
-  type: 'coins' | 'premium' | 'unlimited_calls',
-  packageId?: string
-): { title: string; description: string } {
-  switch (type) {
+export function getSuccessMessage(product: CatalogProduct): { title: string; description: string } {
+  switch (product.type) {
     case 'coins':
-      const coinPack = packageId ? getCoinPackageDetails(packageId as keyof typeof COIN_PACKAGES) : null;
       return {
         title: "Coins Added! 🎉",
-        description: coinPack ? `${coinPack.coins} coins have been added to your account.` : 'Coins added successfully!'
+        description: `${product.coins + product.bonusCoins} coins have been added to your account.`
       };
     
     case 'premium':
-      const premiumPlan = packageId ? getPremiumPlanDetails(packageId as keyof typeof PREMIUM_PLANS) : null;
       return {
         title: "Premium Activated! 👑",
-        description: premiumPlan ? `Welcome to Premium! Your ${premiumPlan.duration} subscription is now active.` : 'Premium subscription activated!'
+        description: `Welcome to Premium! Your ${product.duration} subscription is now active.`
       };
     
     case 'unlimited_calls':
       return {
         title: "Unlimited Calls Activated! 📞",
-        description: `You now have unlimited voice calls for ${UNLIMITED_CALLS_PLAN.duration}.`
+        description: `You now have unlimited voice calls for ${product.duration}.`
       };
     
     default:
@@ -106,4 +84,4 @@ export function getSuccessMessage(
         description: 'Your purchase has been completed successfully.'
       };
   }
-}
\ No newline at end of file
+}
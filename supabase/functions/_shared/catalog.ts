@@ -0,0 +1,48 @@
+// Everything that can be bought, and the only source of prices. Orders are
+// created from a product ID alone; amounts and grants come from here.
+export interface CatalogProduct {
+  id: string;
+  type: 'coins' | 'premium' | 'unlimited_calls';
+  // In rupees
+  price: number;
+  original_price: number | null;
+  currency: 'INR';
+  // Shown to the user, e.g. "1 Week"
+  duration: string | null;
+  badge: string | null;
+  coins: number;
+  bonus_coins: number;
+  // null with premium_lifetime for the lifetime plan
+  premium_days: number | null;
+  premium_lifetime: boolean;
+  unlimited_calls_hours: number;
+  // Set for products sold as a Razorpay subscription; each billing cycle
+  // grants the plan until the end of the cycle instead of a fixed duration.
+  // Razorpay only accepts daily plans billed every 7 days or more, so the
+  // 24-hour pass is sold one-off.
+  recurring: { period: 'daily' | 'weekly' | 'monthly'; interval: number } | null;
+}
+
+const NO_GRANT = {
+  coins: 0,
+  bonus_coins: 0,
+  premium_days: null,
+  premium_lifetime: false,
+  unlimited_calls_hours: 0,
+  recurring: null,
+};
+
+export const CATALOG: CatalogProduct[] = [
+  { ...NO_GRANT, id: 'coins_30', type: 'coins', price: 29, original_price: 49, currency: 'INR', duration: null, badge: null, coins: 30 },
+  { ...NO_GRANT, id: 'coins_100', type: 'coins', price: 99, original_price: 149, currency: 'INR', duration: null, badge: 'Most Popular', coins: 100, bonus_coins: 20 },
+  { ...NO_GRANT, id: 'coins_350', type: 'coins', price: 299, original_price: 499, currency: 'INR', duration: null, badge: 'Best Value', coins: 350, bonus_coins: 100 },
+  { ...NO_GRANT, id: 'premium_1d', type: 'premium', price: 29, original_price: 49, currency: 'INR', duration: '1 Day', badge: 'Most Popular', premium_days: 1 },
+  { ...NO_GRANT, id: 'premium_7d', type: 'premium', price: 199, original_price: 299, currency: 'INR', duration: '1 Week', badge: null, premium_days: 7, recurring: { period: 'weekly', interval: 1 } },
+  { ...NO_GRANT, id: 'premium_30d', type: 'premium', price: 299, original_price: 499, currency: 'INR', duration: '1 Month', badge: 'Best Value', premium_days: 30, recurring: { period: 'monthly', interval: 1 } },
+  { ...NO_GRANT, id: 'premium_lifetime', type: 'premium', price: 899, original_price: 1999, currency: 'INR', duration: 'Lifetime', badge: 'Limited Time', premium_lifetime: true },
+  { ...NO_GRANT, id: 'unlimited_calls_24h', type: 'unlimited_calls', price: 19, original_price: null, currency: 'INR', duration: '24 hours', badge: 'Best Deal', unlimited_calls_hours: 24 },
+];
+
+export function getProduct(productId: unknown): CatalogProduct | undefined {
+  return CATALOG.find(product => product.id === productId);
+}
@@ -0,0 +1,110 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type CoinTransactionReason = 'purchase' | 'call' | 'reaction' | 'unlock' | 'reward' | 'refund';
+
+export interface CoinLedgerEntry {
+  id: string;
+  user_id: string;
+  amount: number;
+  reason: CoinTransactionReason;
+  idempotency_key: string;
+  reference: string | null;
+  metadata: Record<string, unknown>;
+  balance_after: number;
+  created_at: string;
+}
+
+export class InsufficientCoinsError extends Error {
+  constructor() {
+    super('Insufficient coins');
+    this.name = 'InsufficientCoinsError';
+  }
+}
+
+export class DailyRewardLimitError extends Error {
+  constructor() {
+    super('Daily reward limit reached');
+    this.name = 'DailyRewardLimitError';
+  }
+}
+
+function toLedgerError(error: { message?: string }): Error {
+  if (error.message?.includes('insufficient_coins')) {
+    return new InsufficientCoinsError();
+  }
+  if (error.message?.includes('daily_reward_limit')) {
+    return new DailyRewardLimitError();
+  }
+  if (error.message?.includes('idempotency_key_reused')) {
+    return new Error('idempotency_key was already used for a different transaction');
+  }
+  console.error('Ledger error:', error);
+  return new Error('Failed to record coin transaction');
+}
+
+// Credits (positive) or debits (negative) a user's wallet. The client must use
+// the service role key; the ledger can't be written any other way.
+export async function applyCoinTransaction(
+  client: SupabaseClient,
+  userId: string,
+  amount: number,
+  reason: CoinTransactionReason,
+  idempotencyKey: string,
+  reference: string | null = null,
+  metadata: Record<string, unknown> = {}
+): Promise<CoinLedgerEntry> {
+  const { data, error } = await client.rpc('apply_coin_transaction', {
+    p_user_id: userId,
+    p_amount: amount,
+    p_reason: reason,
+    p_idempotency_key: idempotencyKey,
+    p_reference: reference,
+    p_metadata: metadata,
+  });
+
+  if (error) {
+    throw toLedgerError(error);
+  }
+
+  return data as CoinLedgerEntry;
+}
+
+// Credits a reward, refused once the user has made perDay claims from this
+// source today. The cap is checked under the same lock as the write.
+export async function claimCoinReward(
+  client: SupabaseClient,
+  userId: string,
+  amount: number,
+  source: string,
+  idempotencyKey: string,
+  perDay: number
+): Promise<CoinLedgerEntry> {
+  const { data, error } = await client.rpc('claim_coin_reward', {
+    p_user_id: userId,
+    p_amount: amount,
+    p_source: source,
+    p_idempotency_key: idempotencyKey,
+    p_per_day: perDay,
+  });
+
+  if (error) {
+    throw toLedgerError(error);
+  }
+
+  return data as CoinLedgerEntry;
+}
+
+export async function getCoinBalance(client: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await client
+    .from('coin_balances')
+    .select('balance')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Ledger error:', error);
+    throw new Error('Failed to read coin balance');
+  }
+
+  return data?.balance ?? 0;
+}
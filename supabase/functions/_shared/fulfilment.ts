@@ -0,0 +1,159 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getProduct } from "./catalog.ts";
+import { getCoinBalance } from "./coinLedger.ts";
+import {
+  SubscriptionRow,
+  LIVE_STATUSES,
+  subscriptionAccessUntil,
+  getUserSubscriptions,
+} from "./subscriptions.ts";
+
+export interface OrderGrant {
+  coins: number;
+  premiumDays: number;
+  premiumLifetime: boolean;
+  unlimitedCallsHours: number;
+}
+
+export interface EntitlementRow {
+  user_id: string;
+  premium_until: string | null;
+  premium_lifetime: boolean;
+  unlimited_calls_until: string | null;
+  updated_at: string;
+}
+
+// Works out the grant from the catalog by the order's product ID; nothing
+// else the client sent is trusted.
+export function getOrderGrant(productDetails: Record<string, unknown>): OrderGrant {
+  const product = getProduct(productDetails?.product_id);
+  if (!product) throw new Error('Unknown product');
+
+  return {
+    coins: product.coins + product.bonus_coins,
+    premiumDays: product.premium_days ?? 0,
+    premiumLifetime: product.premium_lifetime,
+    unlimitedCallsHours: product.unlimited_calls_hours,
+  };
+}
+
+// Applies the grant for a paid order. Safe to call repeatedly: an order that
+// was already fulfilled is left alone and the current entitlements returned.
+export async function fulfilOrder(
+  client: SupabaseClient,
+  razorpayOrderId: string,
+  razorpayPaymentId: string,
+  grant: OrderGrant
+): Promise<EntitlementRow> {
+  const { data, error } = await client.rpc('fulfil_order', {
+    p_razorpay_order_id: razorpayOrderId,
+    p_razorpay_payment_id: razorpayPaymentId,
+    p_coins: grant.coins,
+    p_premium_days: grant.premiumDays,
+    p_premium_lifetime: grant.premiumLifetime,
+    p_unlimited_calls_hours: grant.unlimitedCallsHours,
+  });
+
+  if (error) {
+    console.error('Fulfilment error:', error);
+    throw new Error('Failed to fulfil order');
+  }
+
+  return data as EntitlementRow;
+}
+
+// Takes back what a refunded order granted. Safe to call repeatedly, like fulfilOrder.
+export async function reverseOrder(
+  client: SupabaseClient,
+  razorpayOrderId: string,
+  refundId: string,
+  grant: OrderGrant
+): Promise<EntitlementRow | null> {
+  const { data, error } = await client.rpc('reverse_order', {
+    p_razorpay_order_id: razorpayOrderId,
+    p_refund_id: refundId,
+    p_coins: grant.coins,
+    p_premium_days: grant.premiumDays,
+    p_premium_lifetime: grant.premiumLifetime,
+    p_unlimited_calls_hours: grant.unlimitedCallsHours,
+  });
+
+  if (error) {
+    console.error('Refund error:', error);
+    throw new Error('Failed to reverse order');
+  }
+
+  return data as EntitlementRow | null;
+}
+
+function isFuture(timestamp: string | null): boolean {
+  return !!timestamp && new Date(timestamp).getTime() > Date.now();
+}
+
+function latest(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(a) > new Date(b) ? a : b;
+}
+
+// The shape clients render from. One-off purchases and subscriptions both
+// count; whichever runs longer decides the expiry.
+export function toEntitlementState(
+  row: EntitlementRow | null,
+  coinBalance: number,
+  subscriptions: SubscriptionRow[] = []
+) {
+  let premiumUntil = row?.premium_until ?? null;
+  let unlimitedCallsUntil = row?.unlimited_calls_until ?? null;
+
+  for (const subscription of subscriptions) {
+    const accessUntil = subscriptionAccessUntil(subscription);
+    if (subscription.product_type === 'premium') {
+      premiumUntil = latest(premiumUntil, accessUntil);
+    } else {
+      unlimitedCallsUntil = latest(unlimitedCallsUntil, accessUntil);
+    }
+  }
+
+  return {
+    is_premium: !!row?.premium_lifetime || isFuture(premiumUntil),
+    premium_until: premiumUntil,
+    premium_lifetime: row?.premium_lifetime ?? false,
+    has_unlimited_calls: isFuture(unlimitedCallsUntil),
+    unlimited_calls_until: unlimitedCallsUntil,
+    coin_balance: coinBalance,
+    subscriptions: subscriptions
+      .filter(subscription => LIVE_STATUSES.includes(subscription.status) || isFuture(subscriptionAccessUntil(subscription)))
+      .map(subscription => ({
+        id: subscription.razorpay_subscription_id,
+        product_id: subscription.product_id,
+        product_type: subscription.product_type,
+        status: subscription.status,
+        current_end: subscription.current_end,
+        grace_until: subscription.grace_until,
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        access_until: subscriptionAccessUntil(subscription),
+      })),
+  };
+}
+
+// Everything a user holds, read fresh
+export async function getEntitlementState(client: SupabaseClient, userId: string) {
+  const { data: row, error } = await client
+    .from('entitlements')
+    .select()
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to load entitlements');
+  }
+
+  const [coinBalance, subscriptions] = await Promise.all([
+    getCoinBalance(client, userId),
+    getUserSubscriptions(client, userId),
+  ]);
+
+  return toEntitlementState(row as EntitlementRow | null, coinBalance, subscriptions);
+}
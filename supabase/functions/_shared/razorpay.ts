@@ -0,0 +1,101 @@
+// Razorpay signatures and webhook events, kept free of remote imports so the
+// same code runs under Deno and in the tests.
+
+const encoder = new TextEncoder();
+
+// Looks at every character whatever the first mismatch, so the response time
+// says nothing about how much of a forged signature was right
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let index = 0; index < a.length; index++) {
+    difference |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+async function signHex(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+  return Array.from(signature, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Checks an HMAC-SHA256 hex signature, as sent on webhooks and Checkout callbacks
+export async function verifySignature(
+  secret: string,
+  body: string,
+  signature: string | null | undefined
+): Promise<boolean> {
+  if (typeof signature !== 'string' || !signature) return false;
+  return timingSafeEqual(await signHex(secret, body), signature);
+}
+
+// What a webhook asks of us, worked out from the event alone; the handler
+// looks up the order or subscription it names
+export type WebhookAction =
+  | { type: 'settle'; orderId: string; paymentId: string }
+  | { type: 'fail'; orderId: string }
+  // fullRefund once the payment's refunds add up to all of it, whether in
+  // one refund or the last of several partial ones
+  | { type: 'refund'; refundId: string; paymentId: string; fullRefund: boolean }
+  | { type: 'sync_subscription'; subscriptionId: string }
+  | { type: 'ignore' };
+
+// Renewals, failed renewals (pending, then halted once Razorpay stops
+// retrying) and the end of a subscription all sync the same way
+const SUBSCRIPTION_EVENTS = new Set([
+  'subscription.authenticated',
+  'subscription.activated',
+  'subscription.charged',
+  'subscription.pending',
+  'subscription.halted',
+  'subscription.cancelled',
+  'subscription.completed',
+  'subscription.paused',
+  'subscription.resumed',
+]);
+
+export function parseWebhookEvent(rawBody: string): { event: string; action: WebhookAction } {
+  const { event, payload } = JSON.parse(rawBody);
+  const payment = payload?.payment?.entity;
+
+  switch (event) {
+    case 'payment.captured':
+    case 'order.paid': {
+      const orderId = payload?.order?.entity?.id ?? payment?.order_id;
+      if (!orderId || !payment?.id) break;
+      return { event, action: { type: 'settle', orderId, paymentId: payment.id } };
+    }
+
+    case 'payment.failed': {
+      if (!payment?.order_id) break;
+      return { event, action: { type: 'fail', orderId: payment.order_id } };
+    }
+
+    case 'refund.processed': {
+      const refund = payload?.refund?.entity;
+      if (!refund?.id || !refund.payment_id) break;
+
+      // Razorpay sends the payment with its running refunded total
+      const fullRefund = payment?.id === refund.payment_id &&
+        typeof payment.amount === 'number' &&
+        payment.amount_refunded >= payment.amount;
+      return { event, action: { type: 'refund', refundId: refund.id, paymentId: refund.payment_id, fullRefund } };
+    }
+
+    default: {
+      const subscriptionId = payload?.subscription?.entity?.id;
+      if (SUBSCRIPTION_EVENTS.has(event) && subscriptionId) {
+        return { event, action: { type: 'sync_subscription', subscriptionId } };
+      }
+    }
+  }
+
+  return { event, action: { type: 'ignore' } };
+}
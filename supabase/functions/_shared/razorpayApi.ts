@@ -0,0 +1,30 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { syncSubscription } from "./subscriptions.ts";
+
+export const RAZORPAY_KEY_ID = "rzp_test_WQBAQbslF30m1w";
+
+export async function razorpayRequest(path: string, body?: Record<string, unknown>) {
+  const RAZORPAY_SECRET_KEY = Deno.env.get('RAZORPAY_SECRET_KEY');
+  const response = await fetch(`https://api.razorpay.com/v1/${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      'Authorization': `Basic ${btoa(`${RAZORPAY_KEY_ID}:${RAZORPAY_SECRET_KEY}`)}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    console.error(`Razorpay ${path} error:`, data);
+    throw new Error(data?.error?.description || 'Razorpay request failed');
+  }
+  return data;
+}
+
+// Webhooks can arrive out of order, so subscriptions are always synced from
+// Razorpay's current state rather than from the event that mentioned them
+export async function refreshSubscription(client: SupabaseClient, razorpaySubscriptionId: string) {
+  const entity = await razorpayRequest(`subscriptions/${razorpaySubscriptionId}`);
+  return syncSubscription(client, entity);
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mergeSubscription,
+  subscriptionAccessUntil,
+  syncSubscription,
+  RazorpaySubscription,
+  SubscriptionRow,
+  SUBSCRIPTION_GRACE_DAYS
+} from './subscriptions.ts';
+
+const CYCLE_START = '2026-10-19T00:00:00.000Z';
+const CYCLE_END = '2026-10-26T00:00:00.000Z';
+const NEXT_CYCLE_END = '2026-11-02T00:00:00.000Z';
+const GRACE_UNTIL = new Date(Date.parse(CYCLE_END) + SUBSCRIPTION_GRACE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+const unix = (iso: string) => Date.parse(iso) / 1000;
+
+function row(overrides: Partial<SubscriptionRow> = {}): SubscriptionRow {
+  return {
+    id: 'row-1',
+    user_id: 'user-1',
+    product_id: 'premium_7d',
+    product_type: 'premium',
+    razorpay_subscription_id: 'sub_1',
+    razorpay_plan_id: 'plan_1',
+    status: 'active',
+    current_start: CYCLE_START,
+    current_end: CYCLE_END,
+    grace_until: null,
+    cancel_at_period_end: false,
+    created_at: CYCLE_START,
+    updated_at: CYCLE_START,
+    ...overrides
+  };
+}
+
+function entity(overrides: Partial<RazorpaySubscription> = {}): RazorpaySubscription {
+  return {
+    id: 'sub_1',
+    status: 'active',
+    current_start: unix(CYCLE_START),
+    current_end: unix(CYCLE_END),
+    ...overrides
+  };
+}
+
+// Just enough of the Supabase query builder to look up and update one row
+function fakeClient(existing: SubscriptionRow) {
+  const updates: Record<string, unknown>[] = [];
+  const client = {
+    from: () => {
+      let update: Record<string, unknown> = {};
+      const builder = {
+        select: () => builder,
+        eq: () => builder,
+        update: (fields: Record<string, unknown>) => {
+          update = fields;
+          updates.push(fields);
+          return builder;
+        },
+        maybeSingle: async () => ({ data: existing, error: null }),
+        single: async () => ({ data: { ...existing, ...update }, error: null })
+      };
+      return builder;
+    }
+  };
+  return { client: client as unknown as Parameters<typeof syncSubscription>[0], updates };
+}
+
+describe('mergeSubscription grace period', () => {
+  it('starts the grace period from the end of the paid cycle when a renewal fails', () => {
+    const merged = mergeSubscription(row(), entity({ status: 'pending' }));
+
+    expect(merged).toMatchObject({ status: 'pending', grace_until: GRACE_UNTIL });
+    expect(subscriptionAccessUntil({ ...row(), ...merged })).toBe(GRACE_UNTIL);
+  });
+
+  it("doesn't extend the grace period on each retry", () => {
+    const existing = row({ status: 'pending', grace_until: GRACE_UNTIL });
+
+    expect(mergeSubscription(existing, entity({ status: 'pending', current_end: unix(NEXT_CYCLE_END) })).grace_until)
+      .toBe(GRACE_UNTIL);
+  });
+
+  it('clears the grace period once a retry goes through', () => {
+    const existing = row({ status: 'pending', grace_until: GRACE_UNTIL });
+
+    expect(mergeSubscription(existing, entity({ status: 'active', current_end: unix(NEXT_CYCLE_END) }))).toMatchObject({
+      status: 'active',
+      current_end: NEXT_CYCLE_END,
+      grace_until: null
+    });
+  });
+
+  it('ends access when Razorpay stops retrying', () => {
+    const existing = row({ status: 'pending', grace_until: GRACE_UNTIL });
+    const merged = mergeSubscription(existing, entity({ status: 'halted' }));
+
+    expect(merged.grace_until).toBeNull();
+    expect(subscriptionAccessUntil({ ...existing, ...merged })).toBeNull();
+  });
+
+  it('gives no grace to a subscription that was never paid for', () => {
+    const existing = row({ status: 'created', current_start: null, current_end: null });
+
+    expect(mergeSubscription(existing, entity({ status: 'pending', current_start: null, current_end: null })).grace_until)
+      .toBeNull();
+  });
+
+  it("doesn't let a stale entity move the cycle end back", () => {
+    const existing = row({ current_end: NEXT_CYCLE_END });
+
+    expect(mergeSubscription(existing, entity({ status: 'pending' }))).toMatchObject({
+      current_end: NEXT_CYCLE_END,
+      grace_until: new Date(Date.parse(NEXT_CYCLE_END) + SUBSCRIPTION_GRACE_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    });
+  });
+});
+
+describe('syncSubscription', () => {
+  it('writes the grace period to the row', async () => {
+    const { client, updates } = fakeClient(row());
+
+    const synced = await syncSubscription(client, entity({ status: 'pending' }));
+
+    expect(updates).toEqual([expect.objectContaining({ status: 'pending', grace_until: GRACE_UNTIL })]);
+    expect(synced).toMatchObject({ status: 'pending', grace_until: GRACE_UNTIL });
+  });
+});
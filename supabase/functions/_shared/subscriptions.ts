@@ -0,0 +1,151 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// How long access continues after a renewal charge fails, while Razorpay retries it
+export const SUBSCRIPTION_GRACE_DAYS = 3;
+
+export type SubscriptionStatus =
+  | 'created'
+  | 'authenticated'
+  | 'active'
+  | 'pending'
+  | 'halted'
+  | 'cancelled'
+  | 'completed'
+  | 'expired'
+  | 'paused';
+
+export interface SubscriptionRow {
+  id: string;
+  user_id: string;
+  product_id: string;
+  product_type: 'premium' | 'unlimited_calls';
+  razorpay_subscription_id: string;
+  razorpay_plan_id: string;
+  status: SubscriptionStatus;
+  current_start: string | null;
+  current_end: string | null;
+  grace_until: string | null;
+  cancel_at_period_end: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// The parts of a Razorpay subscription entity that are mirrored locally
+export interface RazorpaySubscription {
+  id: string;
+  status: SubscriptionStatus;
+  current_start: number | null;
+  current_end: number | null;
+  ended_at?: number | null;
+}
+
+// A subscription that hasn't ended yet, or is still retrying a failed charge
+export const LIVE_STATUSES: SubscriptionStatus[] = ['created', 'authenticated', 'active', 'pending'];
+
+function fromUnix(seconds: number | null | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+// When the subscription stops granting its product, or null if it grants
+// nothing. A cancelled subscription still runs to the end of the paid cycle.
+export function subscriptionAccessUntil(row: SubscriptionRow): string | null {
+  switch (row.status) {
+    case 'active':
+    case 'cancelled':
+    case 'completed':
+      return row.current_end;
+    case 'pending':
+      return row.grace_until;
+    default:
+      return null;
+  }
+}
+
+export async function getSubscription(
+  client: SupabaseClient,
+  razorpaySubscriptionId: string
+): Promise<SubscriptionRow | null> {
+  const { data, error } = await client
+    .from('subscriptions')
+    .select()
+    .eq('razorpay_subscription_id', razorpaySubscriptionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to look up subscription');
+  }
+
+  return data as SubscriptionRow | null;
+}
+
+export async function getUserSubscriptions(client: SupabaseClient, userId: string): Promise<SubscriptionRow[]> {
+  const { data, error } = await client
+    .from('subscriptions')
+    .select()
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to load subscriptions');
+  }
+
+  return (data ?? []) as SubscriptionRow[];
+}
+
+// Razorpay's view of a subscription laid over our row. The billing cycle
+// never moves backwards, so a stale copy of the entity can't shorten access.
+// The grace period starts with the first failed charge of a cycle and is
+// cleared once a charge goes through.
+export function mergeSubscription(
+  existing: SubscriptionRow,
+  entity: RazorpaySubscription
+): Pick<SubscriptionRow, 'status' | 'current_start' | 'current_end' | 'grace_until'> {
+  const currentEnd = fromUnix(entity.current_end);
+  const latestEnd = existing.current_end && (!currentEnd || existing.current_end > currentEnd)
+    ? existing.current_end
+    : currentEnd;
+
+  let graceUntil: string | null = null;
+  if (entity.status === 'pending') {
+    graceUntil = existing.grace_until ?? (latestEnd
+      ? new Date(new Date(latestEnd).getTime() + SUBSCRIPTION_GRACE_DAYS * 24 * 60 * 60 * 1000).toISOString()
+      : null);
+  }
+
+  return {
+    status: entity.status,
+    current_start: fromUnix(entity.current_start) ?? existing.current_start,
+    current_end: latestEnd,
+    grace_until: graceUntil,
+  };
+}
+
+// Copies Razorpay's view of a subscription onto our row
+export async function syncSubscription(
+  client: SupabaseClient,
+  entity: RazorpaySubscription,
+  fields: Partial<SubscriptionRow> = {}
+): Promise<SubscriptionRow | null> {
+  const existing = await getSubscription(client, entity.id);
+  if (!existing) return null;
+
+  const { data, error } = await client
+    .from('subscriptions')
+    .update({
+      ...mergeSubscription(existing, entity),
+      updated_at: new Date().toISOString(),
+      ...fields,
+    })
+    .eq('razorpay_subscription_id', entity.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to update subscription');
+  }
+
+  return data as SubscriptionRow;
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { createHmac, randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { handleWebhook } from './webhooks.ts';
+import { applyCoinTransaction, getCoinBalance } from './coinLedger.ts';
+
+// Recorded webhooks through handleWebhook against a local Supabase, so
+// settleOrder, fulfil_order and reverse_order run for real:
+//   supabase start   (applies supabase/migrations)
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=<service_role key> \
+//     npx vitest run supabase/functions/_shared/webhooks.db.test.ts
+// Skipped when no database is configured.
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const SECRET = 'webhook_secret';
+
+// The orders the fixtures pay for
+const PAID_ORDER_ID = 'order_N4kXr8JdVw3Ln6';
+const FAILED_ORDER_ID = 'order_N4kYx1PqBn5Vd3';
+// coins_100 with its bonus
+const PURCHASED_COINS = 120;
+
+function recorded(name: string): string {
+  return readFileSync(new URL(`./fixtures/razorpay/${name}.json`, import.meta.url), 'utf8');
+}
+
+function sign(body: string, secret = SECRET): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+describe.skipIf(!supabaseUrl || !serviceRoleKey)('handleWebhook against the database', () => {
+  let client: SupabaseClient;
+  let userId: string;
+
+  beforeAll(() => {
+    client = createClient(supabaseUrl ?? '', serviceRoleKey ?? '', { auth: { persistSession: false } });
+  });
+
+  // A fresh user each time; the ledger is append-only, so old users stay behind
+  beforeEach(async () => {
+    const { error: deleteError } = await client
+      .from('orders')
+      .delete()
+      .in('razorpay_order_id', [PAID_ORDER_ID, FAILED_ORDER_ID]);
+    if (deleteError) throw deleteError;
+
+    const { data, error: userError } = await client.auth.admin.createUser({
+      email: `webhooks-${randomUUID()}@example.com`,
+      email_confirm: true
+    });
+    if (userError) throw userError;
+    userId = data.user.id;
+
+    const { error: insertError } = await client.from('orders').insert([
+      { razorpay_order_id: PAID_ORDER_ID, product: 'coins_100', amount: 99 },
+      { razorpay_order_id: FAILED_ORDER_ID, product: 'coins_350', amount: 299 }
+    ].map(({ razorpay_order_id, product, amount }) => ({
+      user_id: userId,
+      razorpay_order_id,
+      amount,
+      currency: 'INR',
+      status: 'created',
+      product_type: 'coins',
+      product_details: { product_id: product }
+    })));
+    if (insertError) throw insertError;
+  });
+
+  async function deliver(name: string): Promise<void> {
+    const body = recorded(name);
+    const response = await handleWebhook(client, SECRET, body, sign(body));
+    expect(response.status).toBe(200);
+  }
+
+  async function order(razorpayOrderId: string) {
+    const { data, error } = await client
+      .from('orders')
+      .select()
+      .eq('razorpay_order_id', razorpayOrderId)
+      .single();
+    if (error) throw error;
+    return data;
+  }
+
+  async function ledger() {
+    const { data, error } = await client
+      .from('coin_ledger')
+      .select('amount, reason')
+      .eq('user_id', userId)
+      .order('created_at');
+    if (error) throw error;
+    return data;
+  }
+
+  it('settles and fulfils a captured payment once, however often it arrives', async () => {
+    await deliver('payment.captured');
+    await deliver('order.paid');
+    await deliver('payment.captured');
+
+    expect(await order(PAID_ORDER_ID)).toMatchObject({
+      status: 'paid',
+      razorpay_payment_id: 'pay_N4kYb2TmQe7Hs1'
+    });
+    expect((await order(PAID_ORDER_ID)).fulfilled_at).not.toBeNull();
+    expect(await ledger()).toEqual([{ amount: PURCHASED_COINS, reason: 'purchase' }]);
+  });
+
+  it("ignores a delivery that Razorpay didn't sign", async () => {
+    const body = recorded('payment.captured');
+    const response = await handleWebhook(client, SECRET, body, sign(body, 'other_secret'));
+
+    expect(response.status).toBe(400);
+    expect((await order(PAID_ORDER_ID)).status).toBe('created');
+    expect(await getCoinBalance(client, userId)).toBe(0);
+  });
+
+  it('marks the order of a failed payment', async () => {
+    await deliver('payment.failed');
+
+    expect((await order(FAILED_ORDER_ID)).status).toBe('failed');
+  });
+
+  it('takes back a fully refunded order and keeps it refunded', async () => {
+    await deliver('payment.captured');
+    await deliver('refund.processed.full');
+    await deliver('payment.captured');
+
+    const refunded = await order(PAID_ORDER_ID);
+    expect(refunded.status).toBe('refunded');
+    expect(refunded.refunded_at).not.toBeNull();
+    expect(await getCoinBalance(client, userId)).toBe(0);
+    expect(await ledger()).toEqual([
+      { amount: PURCHASED_COINS, reason: 'purchase' },
+      { amount: -PURCHASED_COINS, reason: 'refund' }
+    ]);
+  });
+
+  it('leaves partial refunds alone until they add up to the whole payment', async () => {
+    await deliver('payment.captured');
+    await deliver('refund.processed.partial');
+
+    expect((await order(PAID_ORDER_ID)).status).toBe('paid');
+    expect(await getCoinBalance(client, userId)).toBe(PURCHASED_COINS);
+
+    await deliver('refund.processed.final-partial');
+
+    expect((await order(PAID_ORDER_ID)).status).toBe('refunded');
+    expect(await getCoinBalance(client, userId)).toBe(0);
+  });
+
+  it('claws back only the coins that are left', async () => {
+    await deliver('payment.captured');
+    await applyCoinTransaction(client, userId, -100, 'call', 'debit:spent-before-refund');
+    await deliver('refund.processed.full');
+
+    expect(await getCoinBalance(client, userId)).toBe(0);
+    expect((await ledger()).at(-1)).toEqual({ amount: -(PURCHASED_COINS - 100), reason: 'refund' });
+  });
+});
@@ -0,0 +1,137 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fulfilOrder, reverseOrder, getOrderGrant } from "./fulfilment.ts";
+import { parseWebhookEvent, verifySignature } from "./razorpay.ts";
+import { refreshSubscription } from "./razorpayApi.ts";
+import { getSubscription } from "./subscriptions.ts";
+
+// The one path by which an order becomes paid and is fulfilled, whether the
+// Checkout handler or a webhook reports the payment first. A refunded order
+// stays refunded. Returns null if there's no such order.
+// The order must belong to userId; only a signed webhook, which speaks for
+// Razorpay rather than a user, passes null.
+export async function settleOrder(
+  client: SupabaseClient,
+  razorpayOrderId: string,
+  razorpayPaymentId: string,
+  userId: string | null,
+  fields: Record<string, unknown> = {}
+) {
+  let query = client
+    .from('orders')
+    .update({ razorpay_payment_id: razorpayPaymentId, status: 'paid', ...fields })
+    .eq('razorpay_order_id', razorpayOrderId)
+    .neq('status', 'refunded');
+  if (userId !== null) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data: order, error } = await query.select().maybeSingle();
+
+  if (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to update order status');
+  }
+  if (!order) return null;
+
+  const entitlements = await fulfilOrder(
+    client,
+    razorpayOrderId,
+    razorpayPaymentId,
+    getOrderGrant(order.product_details)
+  );
+  return { order, entitlements };
+}
+
+// Razorpay calls this for payments that finish without the browser, e.g. the
+// tab was closed after paying, and for every subscription renewal. The
+// razorpay-payments function must be deployed with --no-verify-jwt and the
+// webhook URL must end in ?action=webhook.
+export async function handleWebhook(
+  client: SupabaseClient,
+  webhookSecret: string,
+  rawBody: string,
+  signature: string | null
+): Promise<Response> {
+  if (!(await verifySignature(webhookSecret, rawBody, signature))) {
+    return new Response(JSON.stringify({ success: false, error: 'Invalid webhook signature' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const { event, action } = parseWebhookEvent(rawBody);
+
+  switch (action.type) {
+    case 'settle': {
+      const result = await settleOrder(client, action.orderId, action.paymentId, null);
+      if (!result) {
+        console.warn(`Webhook ${event} for unknown or refunded order ${action.orderId}`);
+      }
+      break;
+    }
+
+    case 'fail': {
+      // A later successful attempt on the same order still settles it
+      const { error } = await client
+        .from('orders')
+        .update({ status: 'failed' })
+        .eq('razorpay_order_id', action.orderId)
+        .eq('status', 'created');
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error('Failed to update order status');
+      }
+      break;
+    }
+
+    case 'refund': {
+      const { data: order, error } = await client
+        .from('orders')
+        .select()
+        .eq('razorpay_payment_id', action.paymentId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error('Failed to look up refunded order');
+      }
+      if (!order) {
+        console.warn(`Refund ${action.refundId} for unknown payment ${action.paymentId}`);
+        break;
+      }
+
+      // reverse_order takes back the whole grant, once per order. There's no
+      // fair share of a lifetime plan or of coins already spent, so partial
+      // refunds are left to support until they add up to the full payment.
+      if (!action.fullRefund) {
+        console.warn(`Partial refund ${action.refundId} on order ${order.razorpay_order_id} not reversed`);
+        break;
+      }
+
+      await reverseOrder(
+        client,
+        order.razorpay_order_id,
+        action.refundId,
+        getOrderGrant(order.product_details)
+      );
+      break;
+    }
+
+    case 'sync_subscription': {
+      if (!(await getSubscription(client, action.subscriptionId))) {
+        console.warn(`Webhook ${event} for unknown subscription ${action.subscriptionId}`);
+        break;
+      }
+      await refreshSubscription(client, action.subscriptionId);
+      break;
+    }
+
+    default:
+      console.log(`Ignoring webhook event ${event}`);
+  }
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -1,12 +1,93 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { createHmac } from "https://deno.land/std@0.168.0/crypto/crypto.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getEntitlementState } from "../_shared/fulfilment.ts";
+import { CATALOG, CatalogProduct, getProduct } from "../_shared/catalog.ts";
+import { verifySignature } from "../_shared/razorpay.ts";
+import { RAZORPAY_KEY_ID, razorpayRequest, refreshSubscription } from "../_shared/razorpayApi.ts";
+import { handleWebhook, settleOrder } from "../_shared/webhooks.ts";
+import {
+  LIVE_STATUSES,
+  getSubscription,
+  getUserSubscriptions,
+  syncSubscription,
+} from "../_shared/subscriptions.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Billing cycles a subscription runs for before Razorpay completes it, about five years
+const TOTAL_BILLING_CYCLES = { daily: 1825, weekly: 260, monthly: 60 };
+
+// Actions act for the caller's session, never a user ID in the body
+async function getSessionUser(req: Request) {
+  const authClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const { data: { user }, error } = await authClient.auth.getUser();
+  if (error || !user) {
+    throw new Error('User not authenticated');
+  }
+  return user;
+}
+
+// Plan sync: the Razorpay plan for a recurring product at its current catalog
+// price, created the first time that price is sold. Razorpay plans can't be
+// edited, so a price change gets a new plan and old subscribers keep theirs.
+// Razorpay refuses daily plans with an interval under 7.
+async function ensurePlan(client: SupabaseClient, product: CatalogProduct): Promise<string> {
+  const { period, interval } = product.recurring!;
+  const amount = product.price * 100; // Convert to paise
+
+  const findPlan = () => client
+    .from('subscription_plans')
+    .select('razorpay_plan_id')
+    .eq('product_id', product.id)
+    .eq('amount', amount)
+    .eq('period', period)
+    .eq('interval', interval)
+    .maybeSingle();
+
+  const { data: existing, error: lookupError } = await findPlan();
+  if (lookupError) {
+    console.error('Database error:', lookupError);
+    throw new Error('Failed to look up subscription plan');
+  }
+  if (existing) return existing.razorpay_plan_id;
+
+  const plan = await razorpayRequest('plans', {
+    period,
+    interval,
+    item: {
+      name: `${product.type === 'premium' ? 'Premium' : 'Unlimited Calls'} (${product.duration})`,
+      amount,
+      currency: product.currency,
+    },
+    notes: { product_id: product.id },
+  });
+
+  const { error } = await client.from('subscription_plans').insert({
+    razorpay_plan_id: plan.id,
+    product_id: product.id,
+    amount,
+    period,
+    interval,
+  });
+
+  // Another request created the plan first; use that one
+  if (error?.code === '23505') {
+    const { data: winner } = await findPlan();
+    if (winner) return winner.razorpay_plan_id;
+  }
+  if (error) {
+    console.error('Database error:', error);
+    throw new Error('Failed to store subscription plan');
+  }
+
+  return plan.id;
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -14,24 +95,55 @@ serve(async (req) => {
   }
 
   try {
-    const RAZORPAY_KEY_ID = "rzp_test_WQBAQbslF30m1w";
     const RAZORPAY_SECRET_KEY = Deno.env.get('RAZORPAY_SECRET_KEY');
     
     if (!RAZORPAY_SECRET_KEY) {
       throw new Error('RAZORPAY_SECRET_KEY is not configured');
     }
 
-    // Initialize Supabase client
-    const supabaseClient = createClient(
+    // Every write goes through the service role, on behalf of the session
+    // user or a signed webhook; clients can't write orders themselves
+    const adminClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
     );
 
+    // Webhooks can't add an action to Razorpay's body, so it comes in the URL.
+    // The signature covers the raw body, so it's read before parsing.
+    if (new URL(req.url).searchParams.get('action') === 'webhook') {
+      const RAZORPAY_WEBHOOK_SECRET = Deno.env.get('RAZORPAY_WEBHOOK_SECRET');
+      if (!RAZORPAY_WEBHOOK_SECRET) {
+        throw new Error('RAZORPAY_WEBHOOK_SECRET is not configured');
+      }
+      return await handleWebhook(
+        adminClient,
+        RAZORPAY_WEBHOOK_SECRET,
+        await req.text(),
+        req.headers.get('x-razorpay-signature')
+      );
+    }
+
     const { action, ...payload } = await req.json();
 
     switch (action) {
+      case 'get_catalog': {
+        return new Response(JSON.stringify({
+          success: true,
+          products: CATALOG,
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       case 'create_order': {
-        const { amount, currency, product_type, product_details, user_id } = payload;
+        const user = await getSessionUser(req);
+        const { product_id } = payload;
+
+        // The price always comes from the catalog, never from the client
+        const product = getProduct(product_id);
+        if (!product) {
+          throw new Error('Unknown product');
+        }
 
         // Create order with Razorpay
         const orderResponse = await fetch('https://api.razorpay.com/v1/orders', {
@@ -41,8 +153,8 @@ serve(async (req) => {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            amount: amount * 100, // Convert to paise
-            currency: currency || 'INR',
+            amount: product.price * 100, // Convert to paise
+            currency: product.currency,
             receipt: `receipt_${Date.now()}`,
           }),
         });
@@ -54,16 +166,16 @@ serve(async (req) => {
         const razorpayOrder = await orderResponse.json();
 
         // Store order in database
-        const { data: order, error } = await supabaseClient
+        const { data: order, error } = await adminClient
           .from('orders')
           .insert({
-            user_id,
+            user_id: user.id,
             razorpay_order_id: razorpayOrder.id,
-            amount: amount,
-            currency: currency || 'INR',
+            amount: product.price,
+            currency: product.currency,
             status: 'created',
-            product_type,
-            product_details,
+            product_type: product.type,
+            product_details: { product_id: product.id },
           })
           .select()
           .single();
@@ -85,60 +197,152 @@ serve(async (req) => {
       }
 
       case 'verify_payment': {
-        const { 
-          razorpay_order_id, 
-          razorpay_payment_id, 
-          razorpay_signature, 
-          user_id 
-        } = payload;
+        const user = await getSessionUser(req);
+        const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = payload;
 
         // Verify signature
         const body = razorpay_order_id + "|" + razorpay_payment_id;
-        const expectedSignature = createHmac("sha256", RAZORPAY_SECRET_KEY)
-          .update(body)
-          .digest("hex");
-
-        if (expectedSignature !== razorpay_signature) {
+        if (!(await verifySignature(RAZORPAY_SECRET_KEY, body, razorpay_signature))) {
           throw new Error('Invalid payment signature');
         }
 
-        // Update order status
-        const { data: order, error } = await supabaseClient
-          .from('orders')
-          .update({
-            razorpay_payment_id,
-            razorpay_signature,
-            status: 'paid',
-          })
-          .eq('razorpay_order_id', razorpay_order_id)
-          .eq('user_id', user_id)
-          .select()
-          .single();
+        // A webhook may already have settled it; settling again changes nothing
+        const result = await settleOrder(
+          adminClient,
+          razorpay_order_id,
+          razorpay_payment_id,
+          user.id,
+          { razorpay_signature }
+        );
+        if (!result) {
+          throw new Error('Order not found');
+        }
+
+        const { order } = result;
+
+        return new Response(JSON.stringify({
+          success: true,
+          message: 'Payment verified successfully',
+          order,
+          entitlements: await getEntitlementState(adminClient, user.id),
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'get_entitlements': {
+        const user = await getSessionUser(req);
+
+        return new Response(JSON.stringify({
+          success: true,
+          entitlements: await getEntitlementState(adminClient, user.id),
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'create_subscription': {
+        const user = await getSessionUser(req);
+
+        const product = getProduct(payload.product_id);
+        if (!product?.recurring) {
+          throw new Error('Unknown subscription product');
+        }
+
+        // A subscription that's been cancelled may be replaced before it runs out
+        const subscriptions = await getUserSubscriptions(adminClient, user.id);
+        const current = subscriptions.find(subscription =>
+          subscription.product_type === product.type &&
+          subscription.status !== 'created' &&
+          LIVE_STATUSES.includes(subscription.status) &&
+          !subscription.cancel_at_period_end
+        );
+        if (current) {
+          throw new Error('You already have an active subscription for this');
+        }
+
+        const planId = await ensurePlan(adminClient, product);
+
+        // Checkout collects the first payment and sets up the mandate for renewals
+        const subscription = await razorpayRequest('subscriptions', {
+          plan_id: planId,
+          total_count: TOTAL_BILLING_CYCLES[product.recurring.period],
+          customer_notify: 1,
+          notes: { user_id: user.id, product_id: product.id },
+        });
+
+        const { error } = await adminClient.from('subscriptions').insert({
+          user_id: user.id,
+          product_id: product.id,
+          product_type: product.type,
+          razorpay_subscription_id: subscription.id,
+          razorpay_plan_id: planId,
+          status: subscription.status,
+        });
 
         if (error) {
           console.error('Database error:', error);
-          throw new Error('Failed to update order status');
+          throw new Error('Failed to store subscription in database');
         }
 
-        // Process the successful payment based on product type
-        let updateResult = null;
-        
-        if (order.product_type === 'coins') {
-          // Update user's coin balance
-          // Note: You'll need to implement user profile/wallet management
-          console.log(`Adding ${order.product_details.coins} coins to user ${user_id}`);
-        } else if (order.product_type === 'premium') {
-          // Update user's premium status
-          console.log(`Activating premium for user ${user_id} for ${order.product_details.duration}`);
-        } else if (order.product_type === 'unlimited_calls') {
-          // Update user's unlimited calls status
-          console.log(`Activating unlimited calls for user ${user_id} for ${order.product_details.duration}`);
+        return new Response(JSON.stringify({
+          success: true,
+          subscription_id: subscription.id,
+          key_id: RAZORPAY_KEY_ID,
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'verify_subscription': {
+        const user = await getSessionUser(req);
+        const { razorpay_payment_id, razorpay_subscription_id, razorpay_signature } = payload;
+
+        // Subscription signatures cover the payment ID first
+        const body = razorpay_payment_id + "|" + razorpay_subscription_id;
+        if (!(await verifySignature(RAZORPAY_SECRET_KEY, body, razorpay_signature))) {
+          throw new Error('Invalid payment signature');
         }
 
+        const subscription = await getSubscription(adminClient, razorpay_subscription_id);
+        if (!subscription || subscription.user_id !== user.id) {
+          throw new Error('Subscription not found');
+        }
+
+        await refreshSubscription(adminClient, razorpay_subscription_id);
+
         return new Response(JSON.stringify({
           success: true,
-          message: 'Payment verified successfully',
-          order,
+          message: 'Subscription verified successfully',
+          entitlements: await getEntitlementState(adminClient, user.id),
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'cancel_subscription': {
+        const user = await getSessionUser(req);
+
+        const subscription = await getSubscription(adminClient, payload.subscription_id);
+        if (!subscription || subscription.user_id !== user.id) {
+          throw new Error('Subscription not found');
+        }
+        if (!LIVE_STATUSES.includes(subscription.status)) {
+          throw new Error('Subscription has already ended');
+        }
+
+        // An active subscription runs out the cycle that's been paid for; one
+        // that hasn't started or is retrying a failed charge stops now
+        const atCycleEnd = subscription.status === 'active';
+        const entity = await razorpayRequest(`subscriptions/${subscription.razorpay_subscription_id}/cancel`, {
+          cancel_at_cycle_end: atCycleEnd ? 1 : 0,
+        });
+        await syncSubscription(adminClient, entity, { cancel_at_period_end: atCycleEnd });
+
+        return new Response(JSON.stringify({
+          success: true,
+          message: atCycleEnd ? 'Subscription will end with the current billing cycle' : 'Subscription cancelled',
+          entitlements: await getEntitlementState(adminClient, user.id),
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Public STUN servers, always offered alongside TURN
+const STUN_URLS = [
+  'stun:stun.l.google.com:19302',
+  'stun:stun1.l.google.com:19302',
+];
+
+// TURN REST API credentials (coturn `use-auth-secret`): the username carries
+// its own expiry and the password is an HMAC of it with the shared secret,
+// so nothing needs to be stored server-side.
+async function createTurnCredential(secret: string, userId: string, ttlSeconds: number) {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const username = `${expiresAt}:${userId}`;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(username));
+  const credential = btoa(String.fromCharCode(...new Uint8Array(signature)));
+
+  return { username, credential, expiresAt };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const TURN_SHARED_SECRET = Deno.env.get('TURN_SHARED_SECRET');
+    // Comma-separated, e.g. "turn:turn.example.com:3478,turns:turn.example.com:5349?transport=tcp"
+    const TURN_URLS = (Deno.env.get('TURN_URLS') ?? '')
+      .split(',')
+      .map((url) => url.trim())
+      .filter(Boolean);
+    const TURN_TTL_SECONDS = Number(Deno.env.get('TURN_TTL_SECONDS') ?? 3600);
+
+    if (!TURN_SHARED_SECRET || TURN_URLS.length === 0) {
+      throw new Error('TURN server is not configured');
+    }
+
+    // Credentials are issued to the caller's session, never a user ID in the body
+    const authClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { username, credential, expiresAt } = await createTurnCredential(
+      TURN_SHARED_SECRET,
+      user.id,
+      TURN_TTL_SECONDS
+    );
+
+    return new Response(JSON.stringify({
+      success: true,
+      ice_servers: [
+        { urls: STUN_URLS },
+        { urls: TURN_URLS, username, credential },
+      ],
+      expires_at: expiresAt,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('TURN credentials error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message,
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
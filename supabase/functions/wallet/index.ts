@@ -0,0 +1,226 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  applyCoinTransaction,
+  claimCoinReward,
+  getCoinBalance,
+  InsufficientCoinsError,
+} from "../_shared/coinLedger.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Every new wallet starts with this, granted once on first load
+const WELCOME_BONUS_COINS = 100;
+const TRANSACTION_PAGE_SIZE = 20;
+
+// What a client may spend coins on, and the most a single debit may take
+const DEBIT_REASONS = ['call', 'reaction', 'unlock'];
+const MAX_DEBIT_COINS = 500;
+
+// A call debit can be handed back this long after it was taken, for when the
+// other side of a paid continuation couldn't pay theirs
+const CALL_REFUND_WINDOW_MS = 5 * 60 * 1000;
+
+// Rewards are earned client-side (streaks, the spin wheel, mystery boxes), so
+// the server can only bound them: a ceiling per claim and claims per UTC day.
+const REWARD_POLICIES: Record<string, { maxAmount: number; perDay: number }> = {
+  streak: { maxAmount: 15, perDay: 1 },
+  spin: { maxAmount: 100, perDay: 1 },
+  mystery: { maxAmount: 100, perDay: 5 },
+};
+
+// Client keys are namespaced per action, so a debit can never replay a
+// reward, the welcome bonus or a purchase and come back as a success
+function debitKey(idempotencyKey: string): string {
+  return `debit:${idempotencyKey}`;
+}
+
+function rewardKey(source: string, idempotencyKey: string): string {
+  return `reward:${source}:${idempotencyKey}`;
+}
+
+function isValidIdempotencyKey(key: unknown): key is string {
+  return typeof key === 'string' && key.length > 0 && key.length <= 200;
+}
+
+function isValidAmount(amount: unknown, max: number): amount is number {
+  return typeof amount === 'number' && Number.isInteger(amount) && amount > 0 && amount <= max;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+
+    // The wallet owner comes from the caller's session, never from the request body
+    const authClient = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error('User not authenticated');
+    }
+
+    const adminClient = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+    const { action, ...payload } = await req.json();
+
+    switch (action) {
+      case 'get_wallet': {
+        await applyCoinTransaction(adminClient, user.id, WELCOME_BONUS_COINS, 'reward', 'welcome-bonus', null, {
+          source: 'welcome',
+        });
+
+        const { data: transactions, error } = await adminClient
+          .from('coin_ledger')
+          .select('id, amount, reason, reference, balance_after, created_at')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(TRANSACTION_PAGE_SIZE);
+
+        if (error) {
+          console.error('Database error:', error);
+          throw new Error('Failed to load transactions');
+        }
+
+        return new Response(JSON.stringify({
+          success: true,
+          balance: await getCoinBalance(adminClient, user.id),
+          transactions,
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'debit': {
+        const { amount, reason, idempotency_key, reference } = payload;
+
+        if (!DEBIT_REASONS.includes(reason)) {
+          throw new Error('Invalid debit reason');
+        }
+        if (!isValidAmount(amount, MAX_DEBIT_COINS)) {
+          throw new Error('Invalid amount');
+        }
+        if (!isValidIdempotencyKey(idempotency_key)) {
+          throw new Error('idempotency_key is required');
+        }
+
+        const transaction = await applyCoinTransaction(
+          adminClient,
+          user.id,
+          -amount,
+          reason,
+          debitKey(idempotency_key),
+          typeof reference === 'string' ? reference : null
+        );
+
+        return new Response(JSON.stringify({
+          success: true,
+          balance: await getCoinBalance(adminClient, user.id),
+          transaction,
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'refund_call_debit': {
+        const { idempotency_key } = payload;
+
+        if (!isValidIdempotencyKey(idempotency_key)) {
+          throw new Error('idempotency_key is required');
+        }
+
+        // Whether a call goes on is settled between the two clients, so one
+        // that wanted a free continuation could skip the debit outright.
+        // Handing back its own recent call debit gives it nothing more.
+        const { data: debit, error } = await adminClient
+          .from('coin_ledger')
+          .select('id, amount, idempotency_key, created_at')
+          .eq('user_id', user.id)
+          .eq('reason', 'call')
+          .eq('idempotency_key', debitKey(idempotency_key))
+          .maybeSingle();
+
+        if (error) {
+          console.error('Database error:', error);
+          throw new Error('Failed to load the debit');
+        }
+        if (!debit) {
+          throw new Error('Debit not found');
+        }
+        if (Date.now() - new Date(debit.created_at).getTime() > CALL_REFUND_WINDOW_MS) {
+          throw new Error('Debit is too old to refund');
+        }
+
+        const transaction = await applyCoinTransaction(
+          adminClient,
+          user.id,
+          -debit.amount,
+          'refund',
+          `refund:${debit.idempotency_key}`,
+          debit.id
+        );
+
+        return new Response(JSON.stringify({
+          success: true,
+          balance: await getCoinBalance(adminClient, user.id),
+          transaction,
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'claim_reward': {
+        const { amount, source, idempotency_key } = payload;
+        const policy = REWARD_POLICIES[source];
+
+        if (!policy) {
+          throw new Error('Invalid reward source');
+        }
+        if (!isValidAmount(amount, policy.maxAmount)) {
+          throw new Error('Invalid amount');
+        }
+        if (!isValidIdempotencyKey(idempotency_key)) {
+          throw new Error('idempotency_key is required');
+        }
+
+        const transaction = await claimCoinReward(
+          adminClient,
+          user.id,
+          amount,
+          source,
+          rewardKey(source, idempotency_key),
+          policy.perDay
+        );
+
+        return new Response(JSON.stringify({
+          success: true,
+          balance: await getCoinBalance(adminClient, user.id),
+          transaction,
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      default:
+        throw new Error('Invalid action');
+    }
+
+  } catch (error) {
+    console.error('Wallet error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message,
+      code: error instanceof InsufficientCoinsError ? 'insufficient_coins' : undefined,
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,21 @@
+-- Razorpay orders, one per Checkout. The table predates these migrations and
+-- was created in the dashboard; this records its shape so a local database
+-- built from the migrations has it too. Hosted projects already have it.
+
+create table if not exists public.orders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  razorpay_order_id text not null unique,
+  razorpay_payment_id text,
+  razorpay_signature text,
+  -- In rupees, from the catalog
+  amount numeric not null,
+  currency text not null default 'INR',
+  status text not null default 'created',
+  product_type text not null,
+  product_details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+-- Written and read only by the payments function, through the service role
+alter table public.orders enable row level security;
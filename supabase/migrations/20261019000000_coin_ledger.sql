@@ -0,0 +1,94 @@
+-- Coin wallet: an append-only ledger whose entries sum to the balance.
+-- Rows are never updated or deleted; a correction is a new entry.
+
+create type public.coin_transaction_reason as enum ('purchase', 'call', 'reaction', 'unlock', 'reward');
+
+create table public.coin_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount integer not null check (amount <> 0),
+  reason public.coin_transaction_reason not null,
+  -- Chosen by the caller; replaying a key returns the original entry instead of applying it twice
+  idempotency_key text not null,
+  reference text,
+  metadata jsonb not null default '{}'::jsonb,
+  balance_after integer not null check (balance_after >= 0),
+  created_at timestamptz not null default now(),
+  unique (user_id, idempotency_key)
+);
+
+create index coin_ledger_user_created_at_idx on public.coin_ledger (user_id, created_at desc);
+
+create function public.reject_coin_ledger_change() returns trigger
+language plpgsql as $$
+begin
+  raise exception 'coin_ledger is append-only';
+end;
+$$;
+
+create trigger coin_ledger_append_only
+  before update or delete on public.coin_ledger
+  for each row execute function public.reject_coin_ledger_change();
+
+-- Clients may read their own history but never write it; entries are only
+-- added through apply_coin_transaction by edge functions using the service role.
+alter table public.coin_ledger enable row level security;
+
+create policy "Users can read their own coin ledger"
+  on public.coin_ledger for select
+  using (auth.uid() = user_id);
+
+create function public.apply_coin_transaction(
+  p_user_id uuid,
+  p_amount integer,
+  p_reason public.coin_transaction_reason,
+  p_idempotency_key text,
+  p_reference text default null,
+  p_metadata jsonb default '{}'::jsonb
+) returns public.coin_ledger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  existing public.coin_ledger;
+  current_balance integer;
+  entry public.coin_ledger;
+begin
+  -- One transaction per user at a time, so two debits can't both pass the balance check
+  perform pg_advisory_xact_lock(hashtextextended(p_user_id::text, 0));
+
+  select * into existing
+  from coin_ledger
+  where user_id = p_user_id and idempotency_key = p_idempotency_key;
+
+  if found then
+    return existing;
+  end if;
+
+  select coalesce(sum(amount), 0) into current_balance
+  from coin_ledger
+  where user_id = p_user_id;
+
+  if current_balance + p_amount < 0 then
+    raise exception 'insufficient_coins';
+  end if;
+
+  insert into coin_ledger (user_id, amount, reason, idempotency_key, reference, metadata, balance_after)
+  values (p_user_id, p_amount, p_reason, p_idempotency_key, p_reference, p_metadata, current_balance + p_amount)
+  returning * into entry;
+
+  return entry;
+end;
+$$;
+
+revoke execute on function public.apply_coin_transaction from public, anon, authenticated;
+
+create view public.coin_balances
+with (security_invoker = true) as
+  select user_id, sum(amount)::integer as balance
+  from public.coin_ledger
+  group by user_id;
+
+-- Lets the app pick up credits made elsewhere, e.g. a purchase verified by the payments function
+alter publication supabase_realtime add table public.coin_ledger;
@@ -0,0 +1,88 @@
+-- What each user has paid for beyond coins. Written only by the payments
+-- function through fulfil_order; clients may read their own row.
+
+create table public.entitlements (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  premium_until timestamptz,
+  premium_lifetime boolean not null default false,
+  unlimited_calls_until timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.entitlements enable row level security;
+
+create policy "Users can read their own entitlements"
+  on public.entitlements for select
+  using (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.entitlements;
+
+-- A payment fulfils its order once, however many times it's verified
+alter table public.orders add column if not exists fulfilled_at timestamptz;
+create unique index if not exists orders_razorpay_payment_id_key on public.orders (razorpay_payment_id);
+
+-- Grants what a paid order bought, at most once per order. Time-boxed
+-- entitlements extend from their current expiry if that's still in the future.
+create function public.fulfil_order(
+  p_razorpay_order_id text,
+  p_razorpay_payment_id text,
+  p_coins integer,
+  p_premium_days integer,
+  p_premium_lifetime boolean,
+  p_unlimited_calls_hours integer
+) returns public.entitlements
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.orders;
+  result public.entitlements;
+begin
+  select * into target
+  from orders
+  where razorpay_order_id = p_razorpay_order_id
+  for update;
+
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+
+  insert into entitlements (user_id) values (target.user_id)
+  on conflict (user_id) do nothing;
+
+  if target.fulfilled_at is null then
+    if p_coins > 0 then
+      perform apply_coin_transaction(
+        target.user_id,
+        p_coins,
+        'purchase',
+        'payment:' || p_razorpay_payment_id,
+        p_razorpay_order_id,
+        jsonb_build_object('product_type', target.product_type)
+      );
+    end if;
+
+    -- greatest() skips nulls, so a first purchase counts from now
+    update entitlements set
+      premium_lifetime = premium_lifetime or p_premium_lifetime,
+      premium_until = case
+        when p_premium_days > 0 then greatest(premium_until, now()) + make_interval(days => p_premium_days)
+        else premium_until
+      end,
+      unlimited_calls_until = case
+        when p_unlimited_calls_hours > 0 then greatest(unlimited_calls_until, now()) + make_interval(hours => p_unlimited_calls_hours)
+        else unlimited_calls_until
+      end,
+      updated_at = now()
+    where user_id = target.user_id;
+
+    update orders set fulfilled_at = now() where razorpay_order_id = p_razorpay_order_id;
+  end if;
+
+  select * into result from entitlements where user_id = target.user_id;
+  return result;
+end;
+$$;
+
+revoke execute on function public.fulfil_order from public, anon, authenticated;
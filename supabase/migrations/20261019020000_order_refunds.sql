@@ -0,0 +1,77 @@
+-- Refunds reported by Razorpay webhooks take back what the order granted
+
+alter type public.coin_transaction_reason add value if not exists 'refund';
+
+alter table public.orders add column if not exists refunded_at timestamptz;
+
+-- Undoes fulfil_order for a refunded order, at most once. Coins already spent
+-- can't be recovered, so the clawback stops at the current balance.
+create function public.reverse_order(
+  p_razorpay_order_id text,
+  p_refund_id text,
+  p_coins integer,
+  p_premium_days integer,
+  p_premium_lifetime boolean,
+  p_unlimited_calls_hours integer
+) returns public.entitlements
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.orders;
+  current_balance integer;
+  clawback integer;
+  result public.entitlements;
+begin
+  select * into target
+  from orders
+  where razorpay_order_id = p_razorpay_order_id
+  for update;
+
+  if not found then
+    raise exception 'order_not_found';
+  end if;
+
+  if target.fulfilled_at is not null and target.refunded_at is null then
+    if p_coins > 0 then
+      select coalesce(sum(amount), 0) into current_balance
+      from coin_ledger
+      where user_id = target.user_id;
+
+      clawback := least(p_coins, current_balance);
+      if clawback > 0 then
+        perform apply_coin_transaction(
+          target.user_id,
+          -clawback,
+          'refund',
+          'refund:' || p_refund_id,
+          p_razorpay_order_id,
+          jsonb_build_object('granted', p_coins)
+        );
+      end if;
+    end if;
+
+    update entitlements set
+      premium_lifetime = premium_lifetime and not p_premium_lifetime,
+      premium_until = case
+        when p_premium_days > 0 then premium_until - make_interval(days => p_premium_days)
+        else premium_until
+      end,
+      unlimited_calls_until = case
+        when p_unlimited_calls_hours > 0 then unlimited_calls_until - make_interval(hours => p_unlimited_calls_hours)
+        else unlimited_calls_until
+      end,
+      updated_at = now()
+    where user_id = target.user_id;
+  end if;
+
+  update orders set status = 'refunded', refunded_at = coalesce(refunded_at, now())
+  where razorpay_order_id = p_razorpay_order_id;
+
+  select * into result from entitlements where user_id = target.user_id;
+  return result;
+end;
+$$;
+
+revoke execute on function public.reverse_order from public, anon, authenticated;
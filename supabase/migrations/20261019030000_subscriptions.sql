@@ -0,0 +1,47 @@
+-- Razorpay Subscriptions behind the recurring catalog products. Rows mirror
+-- Razorpay's own subscription state and are written only by the payments
+-- function; entitlements are derived from them when they're read.
+
+-- The Razorpay plan created for each recurring product. A new plan is
+-- created whenever the catalog price changes, since plans are immutable.
+create table public.subscription_plans (
+  razorpay_plan_id text primary key,
+  product_id text not null,
+  -- In paise, as Razorpay bills it
+  amount integer not null check (amount > 0),
+  period text not null check (period in ('daily', 'weekly', 'monthly')),
+  interval integer not null check (interval > 0),
+  created_at timestamptz not null default now(),
+  unique (product_id, amount, period, interval)
+);
+
+alter table public.subscription_plans enable row level security;
+
+create table public.subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  product_id text not null,
+  product_type text not null check (product_type in ('premium', 'unlimited_calls')),
+  razorpay_subscription_id text not null unique,
+  razorpay_plan_id text not null references public.subscription_plans (razorpay_plan_id),
+  status text not null default 'created' check (
+    status in ('created', 'authenticated', 'active', 'pending', 'halted', 'cancelled', 'completed', 'expired', 'paused')
+  ),
+  current_start timestamptz,
+  current_end timestamptz,
+  -- Set when a renewal charge fails; access continues until then while Razorpay retries
+  grace_until timestamptz,
+  cancel_at_period_end boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index subscriptions_user_id_idx on public.subscriptions (user_id);
+
+alter table public.subscriptions enable row level security;
+
+create policy "Users can read their own subscriptions"
+  on public.subscriptions for select
+  using (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.subscriptions;
@@ -0,0 +1,99 @@
+-- Idempotency keys only replay the entry they were first used for, and the
+-- daily reward cap is checked under the same per-user lock as the write.
+
+create or replace function public.apply_coin_transaction(
+  p_user_id uuid,
+  p_amount integer,
+  p_reason public.coin_transaction_reason,
+  p_idempotency_key text,
+  p_reference text default null,
+  p_metadata jsonb default '{}'::jsonb
+) returns public.coin_ledger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  existing public.coin_ledger;
+  current_balance integer;
+  entry public.coin_ledger;
+begin
+  -- One transaction per user at a time, so two debits can't both pass the balance check
+  perform pg_advisory_xact_lock(hashtextextended(p_user_id::text, 0));
+
+  select * into existing
+  from coin_ledger
+  where user_id = p_user_id and idempotency_key = p_idempotency_key;
+
+  if found then
+    -- A replay must be the same transaction, not a different one reusing its key
+    if existing.amount <> p_amount or existing.reason <> p_reason then
+      raise exception 'idempotency_key_reused';
+    end if;
+    return existing;
+  end if;
+
+  select coalesce(sum(amount), 0) into current_balance
+  from coin_ledger
+  where user_id = p_user_id;
+
+  if current_balance + p_amount < 0 then
+    raise exception 'insufficient_coins';
+  end if;
+
+  insert into coin_ledger (user_id, amount, reason, idempotency_key, reference, metadata, balance_after)
+  values (p_user_id, p_amount, p_reason, p_idempotency_key, p_reference, p_metadata, current_balance + p_amount)
+  returning * into entry;
+
+  return entry;
+end;
+$$;
+
+-- Credits a reward from p_source unless the user has already claimed
+-- p_per_day of them since midnight UTC. A replayed key returns its entry
+-- without counting against the cap.
+create function public.claim_coin_reward(
+  p_user_id uuid,
+  p_amount integer,
+  p_source text,
+  p_idempotency_key text,
+  p_per_day integer
+) returns public.coin_ledger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claimed_today integer;
+begin
+  -- The same lock apply_coin_transaction takes, so concurrent claims are counted one at a time
+  perform pg_advisory_xact_lock(hashtextextended(p_user_id::text, 0));
+
+  if not exists (
+    select 1 from coin_ledger
+    where user_id = p_user_id and idempotency_key = p_idempotency_key
+  ) then
+    select count(*) into claimed_today
+    from coin_ledger
+    where user_id = p_user_id
+      and reason = 'reward'
+      and metadata->>'source' = p_source
+      and created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc';
+
+    if claimed_today >= p_per_day then
+      raise exception 'daily_reward_limit';
+    end if;
+  end if;
+
+  return apply_coin_transaction(
+    p_user_id,
+    p_amount,
+    'reward',
+    p_idempotency_key,
+    null,
+    jsonb_build_object('source', p_source)
+  );
+end;
+$$;
+
+revoke execute on function public.claim_coin_reward from public, anon, authenticated;
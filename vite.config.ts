@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -22,4 +23,8 @@ export default defineConfig(({ mode }) => ({
   define: {
     global: 'globalThis',
   },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts', 'supabase/functions/**/*.test.ts'],
+  },
 }));